@@ -1,20 +1,59 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
-  Search, TrendingUp, BarChart2, ArrowLeft, Cpu, Activity, TrendingDown, AlertCircle, 
-  Globe, Loader, PieChart, History, Briefcase, Users, RefreshCw, Wifi, WifiOff 
+  TrendingUp, ArrowLeft, Cpu, Activity, TrendingDown, AlertCircle, 
+  Globe, Loader, PieChart, History, Briefcase, RefreshCw, Target, Star, Wallet, Bell, BellRing, X, GitCompare, Filter, Settings, LayoutGrid
 } from 'lucide-react';
 import { 
-  ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine 
-} from 'recharts';
-import { 
-  fetchMarketIndex, fetchInstitutionalInvestors, fetchStockData, fetchStockInstitutionalData, resolveStockId 
+  fetchMarketIndex, fetchInstitutionalInvestors, fetchStockData, fetchStockInstitutionalData, fetchMarginData, resolveStockId,
+  describeFinMindError
 } from './services/finmind';
-import { getGeminiAnalysis } from './services/gemini';
-import { MarketIndex, FundFlow, StockInfo, AIAnalysis } from './types';
-
-// --- Static Helpers ---
-const DEFAULT_HOT_IDS = ['2330', '2317', '2454', '2603', '2881', '0050'];
+import { getAISettings, saveAISettings, getAnalysisProvider, describeProvider } from './services/aiProviders';
+import {
+  MarketIndex, FundFlow, StockInfo, AIAnalysis, PredictionRecord, Watchlist, PortfolioTransaction, AlertRule, AlertEvent, AISettings,
+  BranchSummary, FinMindResult, InstitutionalData, MarginData, FundamentalsData, ReportMeta, SavedAnalysis, IntradayQuote,
+  QuoteSourceId
+} from './types';
+import { TechnicalChart } from './components/TechnicalChart';
+import { SettingsPanel } from './components/SettingsPanel';
+import { BranchPanel } from './components/BranchPanel';
+import { InstitutionalFlowPanel, MarketFlowTrend } from './components/InstitutionalFlow';
+import { MarginPanel } from './components/MarginPanel';
+import { FundamentalsTab } from './components/FundamentalsTab';
+import { ChatPanel } from './components/ChatPanel';
+import { AnalysisHistory } from './components/AnalysisHistory';
+import { MarketStatus } from './components/MarketStatus';
+import { StockSearch } from './components/StockSearch';
+import { SectorHeatmapCard, SectorView } from './components/SectorHeatmap';
+import { getMarketSession } from './services/marketSession';
+import { applyIntradayQuote, getQuoteAdapter, getQuoteSource, saveQuoteSource } from './services/quoteAdapters';
+import { SECTION_TITLES, deleteSavedAnalysis, getSavedAnalyses, getSavedAnalysis, saveAnalysis } from './services/analysisHistory';
+import { ExportMenu } from './components/ExportMenu';
+import { ExportFormat, archivedReportInput, exportReport, openPrintWindow, serializeChart } from './services/reportExport';
+import { fetchFundamentals } from './services/fundamentals';
+import { fetchBranchSummary } from './services/branches';
+import { AccuracyDashboard, StockTrackRecord } from './components/PredictionAccuracy';
+import { getPredictionRecords, recordPrediction, evaluatePendingPredictions } from './services/predictionTracker';
+import { Watchlists } from './components/Watchlists';
+import { Portfolio } from './components/Portfolio';
+import { getWatchlists, saveWatchlists, getSearchHistory, saveSearchHistory } from './services/watchlist';
+import { getTransactions, saveTransactions } from './services/portfolio';
+import { AlertsPanel } from './components/AlertsPanel';
+import { CompareView } from './components/CompareView';
+import { Screener } from './components/Screener';
+import { Route, currentRoute, navigate, subscribeRoute } from './services/router';
+import { CandleInterval, RANGE_PRESETS, RangePreset } from './services/timeframes';
+import {
+  getAlertRules, saveAlertRules, getAlertHistory, saveAlertHistory, runAlertCheck, sendBrowserNotification
+} from './services/alerts';
+
+const ALERT_CHECK_INTERVAL = 5 * 60 * 1000;
+// 盤中報價輪詢間隔與市場時段 / 資料時間的重新判斷間隔
+const QUOTE_POLL_INTERVAL = 30 * 1000;
+const CLOCK_INTERVAL = 15 * 1000;
+// 收盤後資料源尚未更新到當日時的重試間隔與次數（與 TaiwanStockPrice 的未定稿快取時間一致）
+const SETTLE_RETRY_INTERVAL = 10 * 60 * 1000;
+const SETTLE_MAX_RETRIES = 12;
 
 // --- Sub-components ---
 const GaugeChart = ({ score }: { score: number }) => {
@@ -45,122 +84,394 @@ const GaugeChart = ({ score }: { score: number }) => {
   );
 };
 
-const CustomCandle = (props: any) => {
-  const { x, y, width, height, payload, yAxis } = props;
-  if (!yAxis || !yAxis.scale || !payload) return null;
-  const isUp = payload.close >= payload.open;
-  const color = isUp ? '#ef4444' : '#22c55e';
-  const yHigh = yAxis.scale(payload.max || payload.high || payload.price);
-  const yLow = yAxis.scale(payload.min || payload.low || payload.price);
-  const yOpen = yAxis.scale(payload.open);
-  const yClose = yAxis.scale(payload.close);
-  const candleHeight = Math.max(Math.abs(yOpen - yClose), 2);
-  const candleY = Math.min(yOpen, yClose);
-  const centerX = x + width / 2;
-
-  return (
-    <g>
-      <line x1={centerX} y1={yHigh} x2={centerX} y2={yLow} stroke={color} strokeWidth={1} />
-      <rect x={x + 2} y={candleY} width={Math.max(width - 4, 1)} height={candleHeight} fill={color} />
-    </g>
-  );
-};
-
 export default function App() {
-  const [view, setView] = useState<'home' | 'detail' | 'loading'>('home');
+  const [route, setRoute] = useState<Route>(() => currentRoute());
   const [marketIndex, setMarketIndex] = useState<MarketIndex | null>(null);
   const [fundFlow, setFundFlow] = useState<FundFlow | null>(null);
-  const [hotStocks, setHotStocks] = useState<StockInfo[]>([]);
-  const [searchHistory, setSearchHistory] = useState<StockInfo[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, StockInfo>>({});
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(() => getWatchlists());
+  const [activeWatchlistId, setActiveWatchlistId] = useState(() => getWatchlists()[0].id);
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(() => getTransactions());
+  const [homeTab, setHomeTab] = useState<'watchlist' | 'portfolio'>('watchlist');
+  const [searchHistory, setSearchHistory] = useState<StockInfo[]>(() => getSearchHistory());
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => getAlertRules());
+  const [aiSettings, setAiSettings] = useState<AISettings>(() => getAISettings());
+  const [reportMeta, setReportMeta] = useState<ReportMeta>({ model: '', generatedAt: '' });
+  const [savedReports, setSavedReports] = useState<SavedAnalysis[]>([]);
+  // 目前顯示的歷史報告；null 表示尚未保存
+  const [snapshotId, setSnapshotId] = useState<string | null>(null);
+  const [branchResult, setBranchResult] = useState<FinMindResult<BranchSummary> | null>(null);
+  const [institutionalData, setInstitutionalData] = useState<InstitutionalData | null>(null);
+  const [marginData, setMarginData] = useState<MarginData | null>(null);
+  const [fundamentals, setFundamentals] = useState<FundamentalsData | null>(null);
+  const [detailTab, setDetailTab] = useState<'technical' | 'fundamentals'>('technical');
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(() => getAlertHistory());
+  const [alertToasts, setAlertToasts] = useState<AlertEvent[]>([]);
+  const [checkingAlerts, setCheckingAlerts] = useState(false);
   const [selectedStock, setSelectedStock] = useState<StockInfo | null>(null);
   const [analysis, setAnalysis] = useState<AIAnalysis | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const [searchError, setSearchError] = useState('');
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'error' | 'loading'>('loading');
+  const [connectionError, setConnectionError] = useState('');
+  const [predictionRecords, setPredictionRecords] = useState<PredictionRecord[]>(() => getPredictionRecords());
+  const [quoteSource, setQuoteSource] = useState<QuoteSourceId>(() => getQuoteSource());
+  const [intraday, setIntraday] = useState<Record<string, IntradayQuote>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const session = useMemo(() => getMarketSession(now), [now]);
+
+  // 首頁需要報價的代號：目前自選清單 + 投資組合持股
+  const trackedIds = useMemo(() => {
+    const active = watchlists.find(l => l.id === activeWatchlistId) || watchlists[0];
+    return [...new Set([...(active?.stockIds || []), ...transactions.map(t => t.stockId)])];
+  }, [watchlists, activeWatchlistId, transactions]);
+  const trackedIdsRef = useRef(trackedIds);
+  trackedIdsRef.current = trackedIds;
+
+  const mergeQuotes = (results: Awaited<ReturnType<typeof fetchStockData>>[]) => {
+    setQuotes(prev => {
+      const next = { ...prev };
+      results.forEach(r => { if (r.status === 'success') next[r.data.id] = r.data; });
+      return next;
+    });
+  };
+
+  const alertRulesRef = useRef(alertRules);
+  alertRulesRef.current = alertRules;
+
+  const checkAlerts = useCallback(async () => {
+    if (!alertRulesRef.current.some(r => r.enabled)) return;
+    setCheckingAlerts(true);
+    try {
+      const { rules, events } = await runAlertCheck(alertRulesRef.current);
+      if (events.length === 0) return;
+      // 僅回寫觸發日期，避免覆蓋檢查期間使用者所做的修改
+      setAlertRules(prev => prev.map(r => {
+        const checked = rules.find(c => c.id === r.id);
+        return checked?.lastTriggeredDate ? { ...r, lastTriggeredDate: checked.lastTriggeredDate } : r;
+      }));
+      setAlertHistory(prev => [...events, ...prev]);
+      setAlertToasts(prev => [...events, ...prev].slice(0, 5));
+      events.forEach(sendBrowserNotification);
+    } finally {
+      setCheckingAlerts(false);
+    }
+  }, []);
 
   const refreshMarket = useCallback(async () => {
     setIsLoading(true);
     setConnectionStatus('loading');
     try {
       const [idx, flow] = await Promise.all([fetchMarketIndex(), fetchInstitutionalInvestors()]);
-      setMarketIndex(idx as MarketIndex);
-      setFundFlow(flow as FundFlow);
+      if (idx.status === 'success') setMarketIndex(idx.data);
+      if (flow.status === 'success') setFundFlow(flow.data);
 
-      const stockPromises = DEFAULT_HOT_IDS.map(id => fetchStockData(id));
+      const stockPromises = trackedIdsRef.current.map(id => fetchStockData(id));
       const stocks = await Promise.all(stockPromises);
-      setHotStocks(stocks.filter(s => !s.error) as StockInfo[]);
-      setConnectionStatus('connected');
+      mergeQuotes(stocks);
+      checkAlerts();
+
+      const firstError = [idx, flow, ...stocks].find(r => r.status === 'error');
+      if (firstError && firstError.status === 'error') {
+        setConnectionStatus('error');
+        setConnectionError(describeFinMindError(firstError.error));
+      } else {
+        setConnectionStatus('connected');
+        setConnectionError('');
+      }
     } catch (e) {
       setConnectionStatus('error');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [checkAlerts]);
 
   useEffect(() => {
     refreshMarket();
   }, [refreshMarket]);
 
-  const handleSearch = async (query: string) => {
-    if (!query) return;
-    setIsLoading(true);
-    setSearchError('');
-    
-    try {
-      // 1. 解析輸入（可能是代號或中文）
-      const stockId = await resolveStockId(query);
-      
-      if (!stockId) {
-        setSearchError('找不到該股票名稱或代號，請重新輸入');
-        setIsLoading(false);
-        return;
+  // 頁面開啟期間定時檢查警示規則
+  useEffect(() => {
+    const timer = setInterval(checkAlerts, ALERT_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [checkAlerts]);
+
+  // 清單或持股新增個股時補抓報價
+  useEffect(() => {
+    const missing = trackedIds.filter(id => !quotes[id]);
+    if (missing.length > 0) Promise.all(missing.map(id => fetchStockData(id))).then(mergeQuotes);
+  }, [trackedIds]);
+
+  useEffect(() => { saveWatchlists(watchlists); }, [watchlists]);
+  useEffect(() => { saveTransactions(transactions); }, [transactions]);
+  useEffect(() => { saveSearchHistory(searchHistory); }, [searchHistory]);
+  useEffect(() => { saveAlertRules(alertRules); }, [alertRules]);
+  useEffect(() => { saveAlertHistory(alertHistory); }, [alertHistory]);
+  useEffect(() => { saveAISettings(aiSettings); }, [aiSettings]);
+  useEffect(() => { saveQuoteSource(quoteSource); }, [quoteSource]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 盤中報價的基準：首頁追蹤個股與目前查看個股的收盤資料
+  const quoteBaseRef = useRef<Record<string, StockInfo>>({});
+  quoteBaseRef.current = selectedStock ? { ...quotes, [selectedStock.id]: selectedStock } : quotes;
+
+  // 切換來源時捨棄先前來源的報價
+  useEffect(() => { setIntraday({}); }, [quoteSource]);
+
+  // 盤中依報價來源輪詢，收盤後保留最後一筆報價直到每日資料定稿
+  const trading = session.phase === 'trading';
+  useEffect(() => {
+    if (!trading) return;
+    const adapter = getQuoteAdapter(quoteSource);
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const ids = Object.keys(quoteBaseRef.current);
+        const latest = await adapter.fetchQuotes(ids, quoteBaseRef.current);
+        if (!cancelled && latest.length > 0) {
+          setIntraday(prev => ({ ...prev, ...Object.fromEntries(latest.map(q => [q.stockId, q])) }));
+        }
+      } catch (e) {
+        console.error("盤中報價取得失敗:", e);
       }
+    };
+    poll();
+    const timer = setInterval(poll, QUOTE_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [trading, quoteSource]);
+
+  // 收盤資料定稿後改用 FinMind 每日資料
+  const phaseRef = useRef(session.phase);
+  useEffect(() => {
+    const previous = phaseRef.current;
+    phaseRef.current = session.phase;
+    if (session.phase === 'closed' && previous !== 'closed') {
+      setIntraday({});
+      refreshMarket();
+    }
+  }, [session.phase, refreshMarket]);
 
-      setView('loading');
-      
-      // 2. 獲取詳細數據
-      const data = await fetchStockData(stockId);
-      if (data.error) {
-        setSearchError('數據抓取失敗，請確認代號是否正確');
-        setView('home');
+  // 定稿時刻剛過時 FinMind 常仍停在前一交易日，持續重新取得直到最新收盤資料出現
+  const settleRetriesRef = useRef(0);
+  const awaitingClose = session.phase === 'closed' && session.latestCloseDate === session.date
+    && !!marketIndex && marketIndex.date < session.latestCloseDate;
+  useEffect(() => {
+    if (!awaitingClose) {
+      settleRetriesRef.current = 0;
+      return;
+    }
+    const timer = setInterval(() => {
+      if (settleRetriesRef.current >= SETTLE_MAX_RETRIES) return;
+      settleRetriesRef.current++;
+      refreshMarket();
+    }, SETTLE_RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [awaitingClose, refreshMarket]);
+
+  const liveQuotes = useMemo(() => {
+    const merged: Record<string, StockInfo> = {};
+    Object.keys(quotes).forEach(id => { merged[id] = applyIntradayQuote(quotes[id], intraday[id]); });
+    return merged;
+  }, [quotes, intraday]);
+  const latestQuoteTime = Object.keys(intraday).reduce<string | null>((latest, id) => !latest || intraday[id].time > latest ? intraday[id].time : latest, null);
+
+  // 回補已到期的 AI 預測實際收盤價
+  useEffect(() => {
+    evaluatePendingPredictions()
+      .then(setPredictionRecords)
+      .catch(e => console.error("預測驗證失敗:", e));
+  }, []);
+
+  useEffect(() => subscribeRoute(() => setRoute(currentRoute())), []);
+
+  const routeStockId = route.page === 'stock' ? route.stockId : null;
+  const routeSnapshot = route.page === 'stock' ? route.snapshot ?? null : null;
+  // 分析途中切換到其他頁面或個股時，捨棄舊的結果
+  const routeStockIdRef = useRef(routeStockId);
+  routeStockIdRef.current = routeStockId;
+  // 同步記錄進行中的分析，避免同一檔重複觸發
+  const analyzingRef = useRef<string | null>(null);
+
+  /**
+   * 載入個股數據並產生 AI 報告；指定已保存的報告時直接沿用，不再呼叫模型。
+   * 由個股路由觸發，重新整理與上一頁 / 下一頁皆可還原
+   */
+  const loadStock = async (stockId: string, saved?: SavedAnalysis) => {
+    analyzingRef.current = stockId;
+    setAnalyzingId(stockId);
+    setSearchError('');
+    const failed = (message: string) => {
+      if (routeStockIdRef.current !== stockId) return;
+      setSearchError(message);
+      navigate({ page: 'home' }, true);
+    };
+
+    try {
+      const result = await fetchStockData(stockId);
+      if (result.status === 'error') {
+        failed(describeFinMindError(result.error));
         return;
       }
-
-      const inst = await fetchStockInstitutionalData(stockId);
-      const report = await getGeminiAnalysis(data, inst);
-      
-      const fullData = { 
+      const data = result.data;
+
+      const [inst, margin, branches, fundamentalsData] = await Promise.all([
+        fetchStockInstitutionalData(stockId),
+        fetchMarginData(stockId),
+        fetchBranchSummary(stockId, data.lastUpdate),
+        fetchFundamentals(stockId)
+      ]);
+      const report = saved ? saved.analysis : await getAnalysisProvider(aiSettings).analyze({
+        stock: data,
+        institutional: inst.status === 'success' ? inst.data : null,
+        branches: branches.status === 'success' ? branches.data : null,
+        margin: margin.status === 'success' ? margin.data : null,
+        fundamentals: fundamentalsData
+      }, aiSettings);
+      const meta = saved ? saved.meta : { model: describeProvider(aiSettings), generatedAt: new Date().toISOString() };
+      // 新報告即使已切換頁面仍保存，避免浪費這次模型呼叫
+      const stored = saved ?? saveAnalysis(data, report, meta, inst.status === 'success' ? inst.data : null);
+      if (routeStockIdRef.current !== stockId) return;
+
+      const fullData: StockInfo = { 
         ...data, 
         score: report.score,
         trend: data.pct > 0 ? 'bullish' : 'bearish'
-      } as StockInfo;
+      };
 
       setSelectedStock(fullData);
       setAnalysis(report);
+      setBranchResult(branches);
+      setInstitutionalData(inst.status === 'success' ? inst.data : null);
+      setMarginData(margin.status === 'success' ? margin.data : null);
+      setFundamentals(fundamentalsData);
+      setDetailTab('technical');
+      setReportMeta(meta);
+      setSnapshotId(stored?.id ?? null);
+      setSavedReports(getSavedAnalyses(stockId));
+      // 不完整報告的評分或預測可能是預設值，不納入準確度追蹤；重新開啟的報告已記錄過
+      if (!saved && !report.partial) {
+        recordPrediction(fullData, report);
+        setPredictionRecords(getPredictionRecords());
+      }
       setSearchHistory(prev => [fullData, ...prev.filter(s => s.id !== stockId)].slice(0, 3));
-      setView('detail');
+      // 網址帶上報告代號，重新整理或分享時直接開啟同一份報告
+      const latest = currentRoute();
+      if (stored && latest.page === 'stock' && latest.stockId === stockId) navigate({ ...latest, snapshot: stored.id }, true);
     } catch (e) {
-      setSearchError('AI 分析發生錯誤，請稍後再試');
-      setView('home');
+      failed('AI 分析發生錯誤，請稍後再試');
+    } finally {
+      if (analyzingRef.current === stockId) {
+        analyzingRef.current = null;
+        setAnalyzingId(null);
+      }
+    }
+  };
+
+  /**
+   * 同一檔個股切換歷史報告時只替換報告內容，數據沿用目前已載入的
+   */
+  const openSnapshot = (saved: SavedAnalysis) => {
+    setAnalysis(saved.analysis);
+    setReportMeta(saved.meta);
+    setSnapshotId(saved.id);
+    setSelectedStock(prev => prev && { ...prev, score: saved.analysis.score });
+  };
+
+  useEffect(() => {
+    if (!routeStockId || routeStockId === analyzingRef.current) return;
+    const loaded = routeStockId === selectedStock?.id;
+    if (!routeSnapshot) {
+      if (!loaded) loadStock(routeStockId);
+      return;
+    }
+    if (loaded && routeSnapshot === snapshotId) return;
+    // 找不到報告（例如在其他瀏覽器開啟分享連結）時重新分析
+    const saved = getSavedAnalysis(routeStockId, routeSnapshot);
+    if (saved && loaded) {
+      openSnapshot(saved);
+    } else {
+      loadStock(routeStockId, saved);
+    }
+  }, [routeStockId, routeSnapshot]);
+
+  const openReport = (id: string) => {
+    if (route.page === 'stock') navigate({ ...route, snapshot: id });
+  };
+
+  const deleteReport = (id: string) => {
+    if (!selectedStock) return;
+    deleteSavedAnalysis(selectedStock.id, id);
+    setSavedReports(getSavedAnalyses(selectedStock.id));
+  };
+
+  const reanalyze = () => {
+    if (selectedStock) loadStock(selectedStock.id);
+  };
+
+  const handleSearch = async (query: string) => {
+    if (!query) return;
+    setIsLoading(true);
+    setSearchError('');
+
+    try {
+      // 解析輸入（可能是代號或中文）後切換到個股頁，由路由觸發分析
+      const resolved = await resolveStockId(query);
+      if (resolved.status === 'error') {
+        setSearchError(resolved.message);
+        return;
+      }
+      const { stockId } = resolved;
+      navigate({ page: 'stock', stockId });
     } finally {
       setIsLoading(false);
     }
   };
 
-  const chartData = useMemo(() => {
-    if (!selectedStock) return [];
-    return selectedStock.history.slice(-40).map(d => ({
-      date: d.date.slice(5),
-      open: d.open,
-      close: d.close,
-      max: d.max,
-      min: d.min,
-      volume: d.Trading_Volume
-    }));
-  }, [selectedStock]);
-
-  if (view === 'loading') {
+  const handleTimeframeChange = (range: RangePreset, interval: CandleInterval) => {
+    if (route.page === 'stock') navigate({ ...route, range, interval }, true);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!selectedStock || !analysis) return;
+    const input = viewingArchived
+      ? archivedReportInput(archived, selectedStock, institutionalData)
+      : { stock: selectedStock, analysis, meta: reportMeta, institutional: institutionalData };
+    if (format === 'markdown' || format === 'csv') return exportReport(format, input);
+
+    const printWindow = format === 'pdf' ? openPrintWindow() : null;
+    if (format === 'pdf' && !printWindow) {
+      window.alert('瀏覽器阻擋了彈出視窗，請允許後再試');
+      return;
+    }
+    // 畫面上的 K 線圖為最新資料，歷史報告不附圖
+    if (viewingArchived) return exportReport(format, input, '', printWindow);
+    // K 線圖只在技術分頁繪製，切換後等圖表完成再擷取
+    const wait = detailTab === 'technical' ? 0 : 500;
+    setDetailTab('technical');
+    setTimeout(() => {
+      exportReport(format, input, serializeChart(document.querySelector('[data-export="price-chart"]')), printWindow);
+    }, wait);
+  };
+
+  const view = route.page;
+  const stockRoute = route.page === 'stock' ? route : null;
+  const chartRange = stockRoute?.range ?? '3M';
+  // 開啟的不是最新一份報告時提示其數據基準
+  const archived = savedReports.find(r => r.id === snapshotId);
+  const viewingArchived = !!archived && savedReports[0]?.id !== snapshotId;
+  const liveStock = selectedStock && applyIntradayQuote(selectedStock, intraday[selectedStock.id]);
+  const liveQuote = selectedStock ? intraday[selectedStock.id] : undefined;
+
+  if (stockRoute && (analyzingId === stockRoute.stockId || selectedStock?.id !== stockRoute.stockId || !analysis)) {
     return (
       <div className="fixed inset-0 bg-slate-950 flex flex-col items-center justify-center p-6 text-center z-50">
         <div className="relative w-24 h-24 mb-8">
@@ -179,8 +490,8 @@ export default function App() {
       {/* HEADER */}
       <nav className="sticky top-0 z-40 bg-slate-950/80 backdrop-blur-md border-b border-slate-800 px-4 h-16 flex items-center justify-between">
         <div className="flex items-center gap-3">
-          {view === 'detail' && (
-            <button onClick={() => setView('home')} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 transition">
+          {view !== 'home' && (
+            <button onClick={() => navigate({ page: 'home' })} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 transition">
               <ArrowLeft className="w-5 h-5" />
             </button>
           )}
@@ -193,12 +504,34 @@ export default function App() {
         </div>
 
         <div className="flex items-center gap-4">
-          <div className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-semibold ${
-            connectionStatus === 'connected' ? 'bg-green-500/10 text-green-400 border-green-500/20' : 'bg-red-500/10 text-red-400 border-red-500/20'
-          }`}>
-            {connectionStatus === 'connected' ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
-            {connectionStatus === 'connected' ? '數據連線正常' : '連線異常'}
-          </div>
+          <MarketStatus
+            session={session}
+            connectionStatus={connectionStatus}
+            connectionError={connectionError}
+            dataDate={marketIndex?.date ?? null}
+            intradayTime={latestQuoteTime}
+            simulated={quoteSource === 'simulated'}
+            now={now}
+          />
+          <button onClick={() => navigate({ page: 'sectors' })} className="p-2 text-slate-400 hover:text-white transition" title="產業熱力圖">
+            <LayoutGrid className="w-5 h-5" />
+          </button>
+          <button onClick={() => navigate({ page: 'screener' })} className="p-2 text-slate-400 hover:text-white transition" title="選股器">
+            <Filter className="w-5 h-5" />
+          </button>
+          <button onClick={() => navigate({ page: 'compare' })} className="p-2 text-slate-400 hover:text-white transition" title="多檔比較">
+            <GitCompare className="w-5 h-5" />
+          </button>
+          <button onClick={() => navigate({ page: 'alerts' })} className="relative p-2 text-slate-400 hover:text-white transition" title="警示規則">
+            <Bell className="w-5 h-5" />
+            {alertToasts.length > 0 && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-yellow-400"></span>}
+          </button>
+          <button onClick={() => navigate({ page: 'accuracy' })} className="p-2 text-slate-400 hover:text-white transition" title="AI 預測準確度">
+            <Target className="w-5 h-5" />
+          </button>
+          <button onClick={() => navigate({ page: 'settings' })} className="p-2 text-slate-400 hover:text-white transition" title="AI 分析設定">
+            <Settings className="w-5 h-5" />
+          </button>
           <button onClick={refreshMarket} className="p-2 text-slate-400 hover:text-white transition" title="重新整理">
             <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
           </button>
@@ -210,7 +543,7 @@ export default function App() {
         <main className="max-w-6xl mx-auto px-4 py-12 animate-fade-in-up">
           <div className="text-center mb-12">
             <h1 className="text-5xl font-black text-white mb-4 tracking-tighter">台股 AI 戰情室</h1>
-            <p className="text-slate-400 text-lg">整合 FinMind 即時數據與 Google Gemini 深度推理</p>
+            <p className="text-slate-400 text-lg">整合 FinMind 即時數據與 AI 深度推理</p>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
@@ -270,25 +603,19 @@ export default function App() {
             </div>
           </div>
 
+          {fundFlow && fundFlow.daily.length > 1 && (
+            <div className="mb-12">
+              <MarketFlowTrend daily={fundFlow.daily} />
+            </div>
+          )}
+
+          <div className="mb-12">
+            <SectorHeatmapCard onSelect={industry => navigate({ page: 'sectors', industry })} />
+          </div>
+
           {/* Search Box */}
           <div className="max-w-2xl mx-auto mb-16 relative">
-            <div className="flex items-center bg-slate-900 border border-slate-800 rounded-2xl p-2 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all shadow-2xl">
-              <Search className="w-6 h-6 text-slate-500 ml-4 mr-3" />
-              <input 
-                type="text" 
-                placeholder="輸入名稱或代號 (如: 台積電, 2330)" 
-                className="bg-transparent border-none outline-none w-full text-lg py-2 placeholder-slate-600 text-white"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSearch(searchQuery)}
-              />
-              <button 
-                onClick={() => handleSearch(searchQuery)}
-                className="bg-blue-600 hover:bg-blue-500 text-white font-bold px-8 py-3 rounded-xl transition shadow-lg shadow-blue-500/20"
-              >
-                AI 深度分析
-              </button>
-            </div>
+            <StockSearch value={searchQuery} onChange={setSearchQuery} onSubmit={handleSearch} />
             {searchError && <p className="absolute -bottom-8 left-0 text-red-400 text-sm font-bold flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {searchError}</p>}
           </div>
 
@@ -320,36 +647,87 @@ export default function App() {
             </div>
           )}
 
-          {/* Popular Stocks */}
+          {/* Watchlists & Portfolio */}
           <div>
-            <h3 className="text-slate-500 text-xs font-bold uppercase tracking-widest mb-6 flex items-center gap-2">
-              <TrendingUp className="w-4 h-4 text-blue-500" /> 市場熱門個股
-            </h3>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              {hotStocks.map(stock => (
-                <button key={stock.id} onClick={() => handleSearch(stock.id)} className="bg-slate-900/40 border border-slate-800 hover:border-blue-500/30 p-5 rounded-2xl flex items-center justify-between transition-all group">
-                  <div className="flex items-center gap-3 overflow-hidden">
-                    <div className="w-12 h-12 bg-slate-800 rounded-xl flex-shrink-0 flex items-center justify-center font-bold text-slate-400 group-hover:bg-blue-600 group-hover:text-white transition-colors">
-                      {stock.name ? stock.name.charAt(0) : stock.id.charAt(0)}
-                    </div>
-                    <div className="text-left">
-                      <div className="font-bold text-white group-hover:text-blue-400 transition-colors truncate max-w-[120px]">{stock.name}</div>
-                      <div className="text-xs text-slate-500 font-mono">{stock.id}</div>
-                    </div>
-                  </div>
-                  <div className="text-right flex-shrink-0">
-                    <div className={`font-bold font-mono text-lg ${stock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{stock.price}</div>
-                    <div className={`text-xs font-bold ${stock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{stock.pct}%</div>
-                  </div>
-                </button>
-              ))}
+            <div className="flex items-center gap-6 mb-6">
+              <button onClick={() => setHomeTab('watchlist')} className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 transition ${homeTab === 'watchlist' ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                <Star className="w-4 h-4 text-blue-500" /> 自選清單
+              </button>
+              <button onClick={() => setHomeTab('portfolio')} className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 transition ${homeTab === 'portfolio' ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                <Wallet className="w-4 h-4 text-purple-500" /> 投資組合
+              </button>
             </div>
+            {homeTab === 'watchlist' ? (
+              <Watchlists
+                watchlists={watchlists}
+                activeId={activeWatchlistId}
+                quotes={liveQuotes}
+                onChange={setWatchlists}
+                onActivate={setActiveWatchlistId}
+                onSelect={handleSearch}
+              />
+            ) : (
+              <Portfolio transactions={transactions} quotes={liveQuotes} onChange={setTransactions} onSelect={handleSearch} />
+            )}
           </div>
         </main>
       )}
 
+      {/* SECTORS VIEW */}
+      {route.page === 'sectors' && (
+        <main className="max-w-7xl mx-auto px-4 py-12 animate-fade-in-up">
+          <SectorView
+            industry={route.industry}
+            onSelectIndustry={industry => navigate({ page: 'sectors', industry })}
+            onSelectStock={handleSearch}
+          />
+        </main>
+      )}
+
+      {/* SCREENER VIEW */}
+      {view === 'screener' && (
+        <main className="max-w-7xl mx-auto px-4 py-12 animate-fade-in-up">
+          <Screener onSelect={handleSearch} />
+        </main>
+      )}
+
+      {/* SETTINGS VIEW */}
+      {view === 'settings' && (
+        <main className="max-w-4xl mx-auto px-4 py-12 animate-fade-in-up">
+          <SettingsPanel settings={aiSettings} onChange={setAiSettings} quoteSource={quoteSource} onQuoteSourceChange={setQuoteSource} />
+        </main>
+      )}
+
+      {/* COMPARE VIEW */}
+      {view === 'compare' && (
+        <main className="max-w-6xl mx-auto px-4 py-12 animate-fade-in-up">
+          <CompareView initialIds={selectedStock ? [selectedStock.id] : []} aiSettings={aiSettings} onSelect={handleSearch} />
+        </main>
+      )}
+
+      {/* ALERTS VIEW */}
+      {view === 'alerts' && (
+        <main className="max-w-6xl mx-auto px-4 py-12 animate-fade-in-up">
+          <AlertsPanel
+            rules={alertRules}
+            history={alertHistory}
+            checking={checkingAlerts}
+            onRulesChange={setAlertRules}
+            onClearHistory={() => setAlertHistory([])}
+            onCheck={checkAlerts}
+          />
+        </main>
+      )}
+
+      {/* ACCURACY VIEW */}
+      {view === 'accuracy' && (
+        <main className="max-w-6xl mx-auto px-4 py-12 animate-fade-in-up">
+          <AccuracyDashboard records={predictionRecords} />
+        </main>
+      )}
+
       {/* DETAIL VIEW */}
-      {view === 'detail' && selectedStock && analysis && (
+      {view === 'stock' && selectedStock && analysis && (
         <main className="max-w-7xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-12 gap-6">
           {/* Header Stats */}
           <div className="lg:col-span-12 bg-slate-900/50 border border-slate-800 rounded-3xl p-6 flex flex-wrap items-center justify-between gap-6 shadow-xl">
@@ -358,14 +736,18 @@ export default function App() {
                 <h2 className="text-3xl font-black text-white">{selectedStock.name}</h2>
                 <div className="flex items-center gap-2">
                   <span className="text-slate-500 font-mono text-xl">{selectedStock.id}</span>
-                  <span className="text-slate-600 text-sm font-medium">| 更新：{selectedStock.lastUpdate}</span>
+                  <span className="text-slate-600 text-sm font-medium">
+                    | {liveQuote
+                      ? `${quoteSource === 'simulated' ? '模擬' : '盤中'}報價 ${new Date(liveQuote.time).toLocaleTimeString('zh-TW', { hour12: false })}`
+                      : `更新：${selectedStock.lastUpdate}`}
+                  </span>
                 </div>
               </div>
               <div className="h-12 w-[1px] bg-slate-800 hidden sm:block"></div>
               <div>
-                <div className={`text-4xl font-black font-mono tracking-tighter ${selectedStock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{selectedStock.price}</div>
-                <div className={`font-bold ${selectedStock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>
-                  {selectedStock.change > 0 ? '+' : ''}{selectedStock.change} ({selectedStock.pct}%)
+                <div className={`text-4xl font-black font-mono tracking-tighter ${liveStock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{liveStock.price}</div>
+                <div className={`font-bold ${liveStock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>
+                  {liveStock.change > 0 ? '+' : ''}{liveStock.change} ({liveStock.pct}%)
                 </div>
               </div>
             </div>
@@ -377,69 +759,113 @@ export default function App() {
               </div>
               <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800 min-w-[100px]">
                 <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">成交量 Vol</div>
-                <div className="text-lg font-bold text-white font-mono">{Math.round(selectedStock.volume / 1000).toLocaleString()}K</div>
+                <div className="text-lg font-bold text-white font-mono">{Math.round(liveStock.volume / 1000).toLocaleString()}K</div>
               </div>
               <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800 min-w-[100px]">
                 <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">股淨比 PBR</div>
                 <div className="text-lg font-bold text-white font-mono">{selectedStock.pbr || '--'}</div>
               </div>
+              <ExportMenu onExport={handleExport} />
             </div>
           </div>
 
           {/* Left: Charts and Analysis */}
           <div className="lg:col-span-8 space-y-6">
-            <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
-              <div className="flex items-center justify-between mb-8">
-                <h3 className="font-bold text-white flex items-center gap-2">
-                  <BarChart2 className="w-5 h-5 text-blue-500" /> 技術走勢與 AI 預測軌跡
-                </h3>
-                <div className="flex items-center gap-4 text-xs">
-                  <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500"></span> 收盤價</span>
-                  <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-blue-500 opacity-30"></span> 均線參考</span>
-                </div>
-              </div>
-
-              <div className="h-[400px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <ComposedChart data={chartData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-                    <XAxis dataKey="date" stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} />
-                    <YAxis domain={['auto', 'auto']} stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" />
-                    <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' }} />
-                    <Bar dataKey="close" shape={<CustomCandle />} />
-                    <Line type="monotone" dataKey="close" stroke="#3b82f6" strokeWidth={2} dot={false} opacity={0.3} />
-                  </ComposedChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="flex gap-1 bg-slate-900/50 border border-slate-800 rounded-2xl p-1 w-fit">
+              {([['technical', '技術與籌碼'], ['fundamentals', '基本面']] as ['technical' | 'fundamentals', string][]).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setDetailTab(key)}
+                  className={`px-4 py-2 rounded-xl text-sm font-bold transition ${detailTab === key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
+            {detailTab === 'technical' ? (
+              <>
+                <TechnicalChart
+                  stockId={selectedStock.id}
+                  history={selectedStock.rawHistory ?? selectedStock.history}
+                  actions={selectedStock.actions ?? []}
+                  range={chartRange}
+                  interval={stockRoute?.interval ?? RANGE_PRESETS.find(r => r.key === chartRange)!.interval}
+                  onTimeframeChange={handleTimeframeChange}
+                />
+                <InstitutionalFlowPanel stockId={selectedStock.id} initial={institutionalData} />
+                <MarginPanel margin={marginData} />
+              </>
+            ) : (
+              <FundamentalsTab stock={selectedStock} fundamentals={fundamentals} />
+            )}
 
             <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
               <div className="flex items-center gap-3 mb-8 pb-4 border-b border-slate-800">
                 <Cpu className="w-6 h-6 text-purple-500" />
-                <h3 className="text-xl font-bold text-white">Gemini 深度分析報告</h3>
+                <h3 className="text-xl font-bold text-white">AI 深度分析報告</h3>
+                <span className="ml-auto text-[10px] text-slate-500 font-bold">{reportMeta.model}</span>
+                <button onClick={reanalyze} className="p-1.5 text-slate-500 hover:text-white transition" title="重新分析">
+                  <RefreshCw className="w-4 h-4" />
+                </button>
               </div>
 
+              {viewingArchived && (
+                <div className="mb-8 p-4 bg-blue-500/10 border border-blue-500/30 rounded-2xl text-xs text-blue-300 flex items-center gap-2">
+                  <History className="w-4 h-4 flex-shrink-0" />
+                  歷史報告：產生於 {new Date(reportMeta.generatedAt).toLocaleString('zh-TW', { hour12: false })}，依據 {archived.input.lastUpdate} 收盤 {archived.input.price} 的數據；圖表與籌碼為最新資料。
+                </div>
+              )}
+
+              {analysis.partial && (
+                <div className="mb-8 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-2xl text-xs text-yellow-300">
+                  <div className="font-bold mb-2 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> 部分報告：模型輸出重試後仍未通過驗證，以下欄位已剔除或以標記取代</div>
+                  <ul className="list-disc list-inside space-y-1 text-yellow-200/80">
+                    {(analysis.issues || []).map((issue, i) => <li key={i}>{issue}</li>)}
+                  </ul>
+                </div>
+              )}
+
               <div className="space-y-8">
                 <section>
                   <h4 className="text-blue-400 font-bold mb-3 flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-blue-400"></div> 技術與籌碼面分析
+                    <div className="w-1.5 h-1.5 rounded-full bg-blue-400"></div> {SECTION_TITLES.summary}
                   </h4>
                   <p className="text-slate-300 leading-relaxed text-sm">{analysis.summary}</p>
                 </section>
                 <section>
                   <h4 className="text-green-400 font-bold mb-3 flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-green-400"></div> 基本面價值評估
+                    <div className="w-1.5 h-1.5 rounded-full bg-green-400"></div> {SECTION_TITLES.financial}
                   </h4>
                   <p className="text-slate-300 leading-relaxed text-sm">{analysis.financial}</p>
                 </section>
                 <section>
                   <h4 className="text-yellow-400 font-bold mb-3 flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div> 市場信心與資金動能
+                    <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div> {SECTION_TITLES.institutional}
                   </h4>
                   <p className="text-slate-300 leading-relaxed text-sm">{analysis.institutional}</p>
                 </section>
+                <section>
+                  <h4 className="text-cyan-400 font-bold mb-3 flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 rounded-full bg-cyan-400"></div> {SECTION_TITLES.leverage}
+                  </h4>
+                  <p className="text-slate-300 leading-relaxed text-sm">{analysis.leverage}</p>
+                </section>
               </div>
             </div>
+
+            <AnalysisHistory reports={savedReports} activeId={snapshotId} onOpen={openReport} onDelete={deleteReport} />
+
+            <ChatPanel
+              context={{
+                stock: selectedStock,
+                institutional: institutionalData,
+                branches: branchResult?.status === 'success' ? branchResult.data : null,
+                margin: marginData,
+                fundamentals,
+                analysis
+              }}
+              settings={aiSettings}
+            />
           </div>
 
           {/* Right: Scores and Predictions */}
@@ -460,6 +886,9 @@ export default function App() {
                 <TrendingUp className="w-5 h-5 text-blue-500" /> AI 短線價格預測
               </h3>
               <div className="space-y-4">
+                {analysis.prediction.days.length === 0 && (
+                  <div className="p-4 bg-slate-950 rounded-2xl border border-yellow-500/30 text-xs text-yellow-300">【資料不完整】模型未提供有效的價格預測</div>
+                )}
                 {analysis.prediction.days.map((p, i) => (
                   <div key={i} className="flex items-center justify-between p-4 bg-slate-950 rounded-2xl border border-slate-800 hover:border-blue-500/30 transition-colors">
                     <div className="text-sm font-bold text-slate-400">{p.date}</div>
@@ -472,29 +901,32 @@ export default function App() {
               </div>
             </div>
 
-            <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
-              <h3 className="text-white font-bold mb-6 flex items-center gap-2">
-                <Users className="w-5 h-5 text-pink-500" /> 推薦關注主力券商
-              </h3>
-              <div className="space-y-3">
-                {analysis.brokerages.map((b, i) => (
-                  <div key={i} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800">
-                    <div className="text-sm text-slate-300 font-bold">{b.name}</div>
-                    <div className={`text-xs font-black px-3 py-1 rounded-full ${b.type === '買超' ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
-                      {b.type} {b.amount}張
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+            <BranchPanel stockId={selectedStock.id} endDate={selectedStock.lastUpdate} initial={branchResult} />
+
+            <StockTrackRecord records={predictionRecords.filter(r => r.stockId === selectedStock.id)} />
 
             <div className="p-6 bg-blue-900/10 border border-blue-500/20 rounded-3xl text-xs text-blue-300 leading-relaxed italic">
-              <span className="font-bold not-italic">免責聲明：</span> 以上內容均為 Gemini AI 模型基於歷史數據產出之分析報告，僅供參考，不構成任何形式之具體投資建議。投資有風險，入市需謹慎並自行評估。
+              <span className="font-bold not-italic">免責聲明：</span> 以上內容均為 AI 模型（或規則式模擬）基於歷史數據產出之分析報告，僅供參考，不構成任何形式之具體投資建議。投資有風險，入市需謹慎並自行評估。
             </div>
           </div>
         </main>
       )}
 
+      {/* ALERT TOASTS */}
+      {alertToasts.length > 0 && (
+        <div className="fixed bottom-6 right-6 z-50 space-y-2 w-80">
+          {alertToasts.map(t => (
+            <div key={t.id} className="flex items-start gap-3 p-4 bg-slate-900 border border-yellow-500/30 rounded-2xl shadow-2xl text-sm animate-fade-in-up">
+              <BellRing className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 text-slate-200">{t.message}</div>
+              <button onClick={() => setAlertToasts(prev => prev.filter(x => x.id !== t.id))} className="text-slate-500 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* FOOTER */}
       <footer className="border-t border-slate-800 py-12 px-4 text-center mt-auto">
         <div className="max-w-xl mx-auto">
@@ -502,7 +934,7 @@ export default function App() {
             <Activity className="w-5 h-5" />
             <span className="font-bold text-lg">TW Stock AI Pro 台股戰情室</span>
           </div>
-          <p className="text-slate-500 text-sm">技術支援：Google Gemini 3 與 FinMind 開放數據 API。即時市場數據可能因來源端而有延遲。</p>
+          <p className="text-slate-500 text-sm">技術支援：Google Gemini / OpenAI 相容模型與 FinMind 開放數據 API。即時市場數據可能因來源端而有延遲。</p>
           <p className="text-slate-600 text-xs mt-4">© 2024 AI Stock Lab. 版權所有。</p>
         </div>
       </footer>
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Bell, BellRing, Plus, Trash2, RefreshCw, History } from 'lucide-react';
+import { AlertEvent, AlertRule, AlertRuleType } from '../types';
+import { resolveStockId } from '../services/finmind';
+import { ALERT_RULE_LABELS, describeRule, requestNotificationPermission } from '../services/alerts';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  checking: boolean;
+  onRulesChange: (rules: AlertRule[]) => void;
+  onClearHistory: () => void;
+  onCheck: () => void;
+}
+
+const DEFAULT_THRESHOLDS: Record<AlertRuleType, string> = {
+  price_above: '',
+  price_below: '',
+  rsi_above: '70',
+  rsi_below: '30',
+  foreign_buy_streak: '3',
+  foreign_sell_streak: '3',
+  volume_spike: '2'
+};
+
+export const AlertsPanel = ({ rules, history, checking, onRulesChange, onClearHistory, onCheck }: AlertsPanelProps) => {
+  const [stock, setStock] = useState('');
+  const [type, setType] = useState<AlertRuleType>('price_above');
+  const [threshold, setThreshold] = useState('');
+  const [error, setError] = useState('');
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  const handleAdd = async () => {
+    setError('');
+    const resolved = await resolveStockId(stock);
+    const value = parseFloat(threshold);
+    if (resolved.status === 'error') return setError(resolved.message);
+    const { stockId } = resolved;
+    if (!Number.isFinite(value)) return setError('請輸入門檻數值');
+    onRulesChange([...rules, {
+      id: `rule-${Date.now()}`,
+      stockId,
+      type,
+      threshold: value,
+      enabled: true,
+      createdAt: new Date().toISOString()
+    }]);
+    setStock('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <Bell className="w-5 h-5 text-yellow-500" /> 價格與籌碼警示規則
+          </h3>
+          <div className="flex items-center gap-2">
+            {permission !== 'granted' && permission !== 'unsupported' && (
+              <button
+                onClick={async () => setPermission(await requestNotificationPermission())}
+                className="text-xs text-slate-300 px-3 py-1.5 border border-slate-700 rounded-lg hover:text-white"
+              >
+                啟用瀏覽器通知
+              </button>
+            )}
+            <button onClick={onCheck} className="flex items-center gap-1 text-xs text-slate-300 px-3 py-1.5 border border-slate-700 rounded-lg hover:text-white">
+              <RefreshCw className={`w-3 h-3 ${checking ? 'animate-spin' : ''}`} /> 立即檢查
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-sm mb-2">
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="名稱或代號" value={stock} onChange={(e) => setStock(e.target.value)} />
+          <select
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white"
+            value={type}
+            onChange={(e) => {
+              const next = e.target.value as AlertRuleType;
+              setType(next);
+              setThreshold(DEFAULT_THRESHOLDS[next]);
+            }}
+          >
+            {(Object.keys(ALERT_RULE_LABELS) as AlertRuleType[]).map(t => (
+              <option key={t} value={t}>{ALERT_RULE_LABELS[t].label}</option>
+            ))}
+          </select>
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" type="number" placeholder={`門檻 ${ALERT_RULE_LABELS[type].unit}`} value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+          <button onClick={handleAdd} className="flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg transition">
+            <Plus className="w-4 h-4" /> 新增規則
+          </button>
+        </div>
+        {error && <p className="text-red-400 text-xs font-bold mb-2">{error}</p>}
+
+        <div className="space-y-2 mt-6">
+          {rules.length === 0 && <p className="text-slate-600 text-sm">尚未設定任何警示規則。每次重新整理及開啟頁面期間每 5 分鐘會自動檢查。</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800 text-sm">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => onRulesChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                />
+                <span className={rule.enabled ? 'text-white font-bold' : 'text-slate-500 line-through'}>{describeRule(rule)}</span>
+              </label>
+              <div className="flex items-center gap-3">
+                {rule.lastTriggeredDate && <span className="text-[10px] text-yellow-500 font-bold">最近觸發 {rule.lastTriggeredDate}</span>}
+                <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="text-slate-600 hover:text-red-400">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <History className="w-5 h-5 text-slate-400" /> 警示紀錄
+          </h3>
+          {history.length > 0 && <button onClick={onClearHistory} className="text-xs text-slate-500 hover:text-white">清除紀錄</button>}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-slate-600 text-sm">尚無觸發紀錄。</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {history.map(e => (
+              <div key={e.id} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800 text-xs">
+                <span className="flex items-center gap-2 text-slate-200"><BellRing className="w-3 h-3 text-yellow-500" /> {e.message}</span>
+                <span className="text-slate-500 font-mono">資料日 {e.dataDate} · {new Date(e.firedAt).toLocaleString('zh-TW')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
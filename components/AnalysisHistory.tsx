@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Trash2, FolderOpen, GitCompare } from 'lucide-react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { SavedAnalysis } from '../types';
+import { SECTION_TITLES, diffAnalyses } from '../services/analysisHistory';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const signed = (v: number, suffix = '') => `${v > 0 ? '+' : ''}${v}${suffix}`;
+const changeColor = (v: number) => v > 0 ? 'text-red-400' : v < 0 ? 'text-green-400' : 'text-slate-400';
+
+const DiffView = ({ before, after }: { before: SavedAnalysis; after: SavedAnalysis }) => {
+  const diff = useMemo(() => diffAnalyses(before, after), [before, after]);
+  const flowBefore = before.input.institutional?.total;
+  const flowAfter = after.input.institutional?.total;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-800 space-y-6">
+      <div className="text-xs text-slate-500">
+        {formatTime(before.meta.generatedAt)}（資料 {before.input.lastUpdate}）→ {formatTime(after.meta.generatedAt)}（資料 {after.input.lastUpdate}）
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+        <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800">
+          <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">評分</div>
+          <div className="font-mono text-sm text-white">{before.analysis.score} → {after.analysis.score}</div>
+          <div className={`text-xs font-bold ${changeColor(diff.scoreChange)}`}>{signed(diff.scoreChange)}</div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800">
+          <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">收盤</div>
+          <div className="font-mono text-sm text-white">{before.input.price} → {after.input.price}</div>
+          <div className={`text-xs font-bold ${changeColor(diff.priceChange)}`}>
+            {signed(diff.priceChange)}{diff.pricePct !== null && ` (${signed(diff.pricePct, '%')})`}
+          </div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800">
+          <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">PER / PBR</div>
+          <div className="font-mono text-sm text-white">{before.input.per ?? '--'} → {after.input.per ?? '--'}</div>
+          <div className="font-mono text-xs text-slate-400">{before.input.pbr ?? '--'} → {after.input.pbr ?? '--'}</div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded-2xl border border-slate-800">
+          <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">法人合計(張)</div>
+          <div className="font-mono text-sm text-white">
+            {flowBefore === undefined ? '--' : Math.round(flowBefore / 1000)} → {flowAfter === undefined ? '--' : Math.round(flowAfter / 1000)}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-slate-400 text-xs font-bold mb-2">預測變化</h4>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-800">
+              <th className="text-left py-2">日期</th>
+              <th className="text-right py-2">較早報告</th>
+              <th className="text-right py-2">較新報告</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.predictions.map(p => (
+              <tr key={p.date} className="border-b border-slate-800/50">
+                <td className="py-2 text-slate-400">{p.date}</td>
+                <td className="py-2 text-right font-mono text-slate-300">{p.before ? `${p.before.price} (${p.before.low}~${p.before.high})` : '--'}</td>
+                <td className="py-2 text-right font-mono text-slate-300">{p.after ? `${p.after.price} (${p.after.low}~${p.after.high})` : '--'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {diff.changedSections.length === 0 ? (
+        <p className="text-xs text-slate-500">兩份報告的分析內容相同。</p>
+      ) : diff.changedSections.map(key => (
+        <div key={key}>
+          <h4 className="text-slate-400 text-xs font-bold mb-2">{SECTION_TITLES[key]}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs leading-relaxed">
+            <p className="p-3 bg-slate-950 rounded-xl border border-slate-800 text-slate-500">{before.analysis[key]}</p>
+            <p className="p-3 bg-slate-950 rounded-xl border border-blue-500/20 text-slate-300">{after.analysis[key]}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface AnalysisHistoryProps {
+  reports: SavedAnalysis[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * 個股歷史報告：評分趨勢、重新開啟已保存的報告（不再呼叫模型），以及任選兩份比較差異
+ */
+export const AnalysisHistory = ({ reports, activeId, onOpen, onDelete }: AnalysisHistoryProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelected(prev => prev.filter(id => reports.some(r => r.id === id)));
+  }, [reports]);
+
+  const trend = useMemo(() => [...reports].reverse().map(r => ({
+    time: formatTime(r.meta.generatedAt),
+    score: r.analysis.score,
+    price: r.input.price
+  })), [reports]);
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const compared = reports
+    .filter(r => selected.includes(r.id))
+    .sort((a, b) => a.meta.generatedAt.localeCompare(b.meta.generatedAt));
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <h3 className="text-white font-bold mb-6 flex items-center gap-2">
+        <History className="w-5 h-5 text-blue-500" /> 歷史分析報告
+      </h3>
+
+      {trend.length > 1 && (
+        <div className="h-[200px] mb-6">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+              <XAxis dataKey="time" stroke="#475569" fontSize={10} minTickGap={20} />
+              <YAxis yAxisId="score" stroke="#475569" fontSize={10} width={30} domain={[0, 100]} />
+              <YAxis yAxisId="price" orientation="right" stroke="#475569" fontSize={10} width={50} domain={['auto', 'auto']} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line yAxisId="score" type="monotone" dataKey="score" name="AI 評分" stroke="#a855f7" strokeWidth={2} />
+              <Line yAxisId="price" type="monotone" dataKey="price" name="收盤價" stroke="#64748b" strokeDasharray="4 3" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-[320px] overflow-y-auto pr-1">
+        {reports.map(r => (
+          <div
+            key={r.id}
+            className={`flex items-center gap-3 p-3 bg-slate-950 rounded-xl border text-xs ${r.id === activeId ? 'border-blue-500/40' : 'border-slate-800'}`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(r.id)}
+              onChange={() => toggleSelect(r.id)}
+              title="選取兩份報告比較"
+              className="accent-blue-500"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-slate-300 font-bold">{formatTime(r.meta.generatedAt)}</div>
+              <div className="text-slate-500 truncate">資料 {r.input.lastUpdate} · {r.meta.model}</div>
+            </div>
+            <div className="font-mono text-slate-400">{r.input.price}</div>
+            <div className="font-mono font-black text-white w-8 text-right">{r.analysis.score}</div>
+            {r.id === activeId ? (
+              <span className="text-blue-400 font-bold w-12 text-center">目前</span>
+            ) : (
+              <button onClick={() => onOpen(r.id)} className="text-slate-400 hover:text-white flex items-center gap-1 w-12 justify-center transition" title="開啟此報告">
+                <FolderOpen className="w-3 h-3" /> 開啟
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(r.id)}
+              disabled={r.id === activeId}
+              className="text-slate-600 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-600 transition"
+              title={r.id === activeId ? '無法刪除目前顯示的報告' : '刪除'}
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {compared.length === 2 ? (
+        <DiffView before={compared[0]} after={compared[1]} />
+      ) : reports.length > 1 && (
+        <p className="mt-4 text-[10px] text-slate-500 flex items-center gap-1">
+          <GitCompare className="w-3 h-3" /> 勾選兩份報告即可比較評分、預測與分析內容的變化
+        </p>
+      )}
+    </div>
+  );
+};
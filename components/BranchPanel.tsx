@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Users, Upload, Loader } from 'lucide-react';
+import { BranchFlow, BranchSummary, FinMindResult } from '../types';
+import { describeFinMindError } from '../services/finmind';
+import { BRANCH_WINDOWS, DEFAULT_BRANCH_WINDOW, fetchBranchSummary, importBranchCsv } from '../services/branches';
+
+interface BranchPanelProps {
+  stockId: string;
+  endDate: string;
+  // 分析時已取得的預設區間結果，避免重複請求
+  initial: FinMindResult<BranchSummary> | null;
+}
+
+const lots = (shares: number) => Math.round(shares / 1000).toLocaleString();
+
+export const BranchPanel = ({ stockId, endDate, initial }: BranchPanelProps) => {
+  const [sessions, setSessions] = useState(DEFAULT_BRANCH_WINDOW);
+  const [result, setResult] = useState<FinMindResult<BranchSummary> | null>(initial);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [importDate, setImportDate] = useState(endDate);
+  const [importMessage, setImportMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  // 只採用最後一次查詢的結果，切換個股或區間後先前的查詢結果直接捨棄
+  const requestRef = useRef(0);
+
+  const load = async (count: number) => {
+    const requestId = ++requestRef.current;
+    setProgress({ done: 0, total: count });
+    try {
+      const summary = await fetchBranchSummary(stockId, endDate, count, (done, total) => {
+        if (requestId === requestRef.current) setProgress({ done, total });
+      });
+      if (requestId === requestRef.current) setResult(summary);
+    } finally {
+      if (requestId === requestRef.current) setProgress(null);
+    }
+  };
+
+  useEffect(() => {
+    setSessions(DEFAULT_BRANCH_WINDOW);
+    setImportDate(endDate);
+    setImportMessage('');
+    if (initial) {
+      requestRef.current++;
+      setProgress(null);
+      setResult(initial);
+    } else {
+      load(DEFAULT_BRANCH_WINDOW);
+    }
+  }, [stockId, endDate, initial]);
+
+  const handleWindow = (count: number) => {
+    setSessions(count);
+    load(count);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = await importBranchCsv(file, stockId, importDate);
+      setImportMessage(`已匯入 ${importDate} 共 ${count} 筆分點成交`);
+      await load(sessions);
+    } catch (e) {
+      setImportMessage(e instanceof Error ? e.message : '匯入失敗');
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const renderRows = (rows: BranchFlow[]) => rows.length === 0
+    ? <div className="text-xs text-slate-600 py-2">無</div>
+    : rows.map(b => (
+      <div key={b.id} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800">
+        <div>
+          <div className="text-sm text-slate-300 font-bold">{b.name} <span className="text-[10px] text-slate-600 font-mono">{b.id}</span></div>
+          <div className="text-[10px] text-slate-500 font-mono">買均 {b.avgBuyPrice ?? '--'} / 賣均 {b.avgSellPrice ?? '--'}</div>
+        </div>
+        <div className={`text-xs font-black px-3 py-1 rounded-full ${b.net > 0 ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
+          {b.net > 0 ? '買超' : '賣超'} {lots(Math.abs(b.net))}張
+        </div>
+      </div>
+    ));
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Users className="w-5 h-5 text-pink-500" /> 主力分點買賣超
+        </h3>
+        {progress && <Loader className="w-4 h-4 text-slate-500 animate-spin" />}
+      </div>
+
+      <div className="flex gap-1 mb-4">
+        {BRANCH_WINDOWS.map(w => (
+          <button
+            key={w}
+            onClick={() => handleWindow(w)}
+            disabled={!!progress}
+            className={`px-3 py-1 rounded-lg text-xs font-bold transition ${sessions === w ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+          >
+            {w === 1 ? '當日' : `${w}日`}
+          </button>
+        ))}
+      </div>
+
+      {progress && <p className="text-xs text-slate-500 mb-3">下載分點明細 {progress.done}/{progress.total}</p>}
+
+      {result?.status === 'success' && (
+        <div className="space-y-4">
+          <p className="text-[10px] text-slate-500">
+            {result.data.dates[0]} ~ {result.data.dates[result.data.dates.length - 1]}，共 {result.data.dates.length} 個交易日
+            {result.data.missingDates.length > 0 && `（缺 ${result.data.missingDates.join('、')}）`}
+          </p>
+          <div>
+            <div className="text-[10px] text-red-400 font-bold uppercase mb-2">買超前五</div>
+            <div className="space-y-2">{renderRows(result.data.topBuyers)}</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-green-400 font-bold uppercase mb-2">賣超前五</div>
+            <div className="space-y-2">{renderRows(result.data.topSellers)}</div>
+          </div>
+        </div>
+      )}
+
+      {result?.status === 'error' && (
+        <p className="text-xs text-slate-400 leading-relaxed">
+          無法取得分點資料：{describeFinMindError(result.error)}。FinMind 分點資料需贊助會員權限，也可匯入證交所「買賣日報表」CSV。
+        </p>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-slate-800 flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={importDate}
+          onChange={(e) => setImportDate(e.target.value)}
+          className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-white text-xs"
+        />
+        <button onClick={() => fileInput.current?.click()} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-1.5 border border-slate-800 rounded-lg">
+          <Upload className="w-3 h-3" /> 匯入買賣日報表 CSV
+        </button>
+        <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+        {importMessage && <span className="text-[10px] text-slate-500 w-full">{importMessage}</span>}
+      </div>
+    </div>
+  );
+};
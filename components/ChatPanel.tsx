@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Loader, Trash2 } from 'lucide-react';
+import { AISettings, ChatContext, ChatMessage } from '../types';
+import { getAnalysisProvider } from '../services/aiProviders';
+import { getChat, saveChat } from '../services/chatHistory';
+
+const SUGGESTIONS = ['支撐與壓力在哪裡？', '如果外資持續賣超會怎樣？', '融資水位是否過高？', '營收成長能支撐目前的估值嗎？'];
+
+interface ChatPanelProps {
+  context: ChatContext;
+  settings: AISettings;
+}
+
+/**
+ * 針對已分析個股的多輪追問（回覆以串流顯示，對話依個股保存）
+ */
+export const ChatPanel = ({ context, settings }: ChatPanelProps) => {
+  const stockId = context.stock.id;
+  const [messages, setMessages] = useState<ChatMessage[]>(() => getChat(stockId));
+  const [input, setInput] = useState('');
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // 進行中的串流；切換個股或離開頁面時中止，避免舊回覆出現在其他個股
+  const streamRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setMessages(getChat(stockId));
+    setDraft(null);
+    setError('');
+    return () => {
+      streamRef.current?.abort();
+      streamRef.current = null;
+    };
+  }, [stockId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, draft]);
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || draft !== null) return;
+    const history: ChatMessage[] = [...messages, { role: 'user', content: question, time: new Date().toISOString() }];
+    setMessages(history);
+    saveChat(stockId, history);
+    setInput('');
+    setError('');
+    setDraft('');
+    const controller = new AbortController();
+    streamRef.current = controller;
+
+    try {
+      const reply = await getAnalysisProvider(settings).chat(context, history, settings, chunk => {
+        if (!controller.signal.aborted) setDraft(prev => (prev ?? '') + chunk);
+      }, controller.signal);
+      if (controller.signal.aborted) return;
+      const updated: ChatMessage[] = [...history, { role: 'assistant', content: reply, time: new Date().toISOString() }];
+      saveChat(stockId, updated);
+      setMessages(updated);
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : 'AI 回覆失敗，請稍後再試');
+    } finally {
+      if (streamRef.current === controller) {
+        streamRef.current = null;
+        setDraft(null);
+      }
+    }
+  };
+
+  const clear = () => {
+    setMessages([]);
+    saveChat(stockId, []);
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-blue-500" /> 追問 AI
+        </h3>
+        {messages.length > 0 && (
+          <button onClick={clear} disabled={draft !== null} className="text-slate-500 hover:text-red-400 text-xs flex items-center gap-1 transition">
+            <Trash2 className="w-3 h-3" /> 清除對話
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4 max-h-[420px] overflow-y-auto pr-1 mb-4">
+        {messages.length === 0 && draft === null && (
+          <p className="text-xs text-slate-500">可針對本報告與上方數據繼續提問，例如情境推演或關鍵價位。</p>
+        )}
+        {messages.map((m, i) => (
+          <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap ${
+              m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-slate-950 border border-slate-800 text-slate-300'
+            }`}>
+              {m.content}
+            </div>
+          </div>
+        ))}
+        {draft !== null && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap bg-slate-950 border border-slate-800 text-slate-300">
+              {draft || <Loader className="w-4 h-4 text-slate-500 animate-spin" />}
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+
+      {error && <p className="text-red-400 text-xs font-bold mb-2">{error}</p>}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUGGESTIONS.map(q => (
+            <button
+              key={q}
+              onClick={() => send(q)}
+              disabled={draft !== null}
+              className="px-3 py-1 rounded-full border border-slate-700 text-xs text-slate-400 hover:text-white hover:border-slate-500 transition"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={e => { e.preventDefault(); send(input); }} className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="輸入問題，例如：跌破月線該怎麼看？"
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={draft !== null || !input.trim()}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl px-4 py-2 transition"
+        >
+          {draft !== null ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GitCompare, X, Cpu, Loader } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { AISettings, ComparisonAnalysis, InstitutionalData, PriceBar, StockInfo } from '../types';
+import {
+  describeFinMindError, fetchPriceBars, fetchStockData, fetchStockInstitutionalData, resolveStockId
+} from '../services/finmind';
+import { computeComparisonMetrics, correlationMatrix, normalizedReturns } from '../services/compare';
+import { describeProvider, getAnalysisProvider } from '../services/aiProviders';
+import { validateComparison } from '../services/analysisValidator';
+
+const MAX_SYMBOLS = 6;
+const COLORS = ['#3b82f6', '#f59e0b', '#a855f7', '#06b6d4', '#ec4899', '#84cc16'];
+
+const correlationColor = (v: number | null) => {
+  if (v === null) return 'transparent';
+  return v >= 0 ? `rgba(239, 68, 68, ${Math.abs(v) * 0.6})` : `rgba(34, 197, 94, ${Math.abs(v) * 0.6})`;
+};
+
+interface CompareViewProps {
+  initialIds?: string[];
+  aiSettings: AISettings;
+  onSelect: (stockId: string) => void;
+}
+
+export const CompareView = ({ initialIds = [], aiSettings, onSelect }: CompareViewProps) => {
+  const [ids, setIds] = useState<string[]>(initialIds.slice(0, MAX_SYMBOLS));
+  const [input, setInput] = useState('');
+  const [stocks, setStocks] = useState<StockInfo[]>([]);
+  const [index, setIndex] = useState<PriceBar[]>([]);
+  const [institutional, setInstitutional] = useState<Record<string, InstitutionalData | null>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [aiResult, setAiResult] = useState<ComparisonAnalysis | null>(null);
+  const [aiLoading, setAiLoading] = useState(false);
+  // 每次變更清單或重新比較即遞增，讓進行中的舊請求結果被捨棄
+  const run = useRef(0);
+
+  // 比較結果與 AI 排名只對應產生時的個股組合，清單變動即清除
+  const updateIds = (next: string[]) => {
+    run.current++;
+    setIds(next);
+    setStocks([]);
+    setIndex([]);
+    setInstitutional({});
+    setAiResult(null);
+    setLoading(false);
+  };
+
+  const handleAdd = async () => {
+    if (!input.trim()) return;
+    if (ids.length >= MAX_SYMBOLS) return setError(`最多比較 ${MAX_SYMBOLS} 檔`);
+    const resolved = await resolveStockId(input);
+    if (resolved.status === 'error') return setError(resolved.message);
+    const { stockId } = resolved;
+    if (!ids.includes(stockId)) updateIds([...ids, stockId]);
+    setInput('');
+    setError('');
+  };
+
+  const handleCompare = async () => {
+    if (ids.length < 2) return setError('請至少加入 2 檔個股');
+    const current = ++run.current;
+    setLoading(true);
+    setError('');
+    setAiResult(null);
+    try {
+      const results = await Promise.all(ids.map(id => fetchStockData(id)));
+      if (current !== run.current) return;
+      const failed = results.find(r => r.status === 'error');
+      if (failed && failed.status === 'error') setError(describeFinMindError(failed.error));
+      const loaded = results.flatMap(r => r.status === 'success' ? [r.data] : []);
+      if (loaded.length === 0) {
+        setStocks([]);
+        setIndex([]);
+        return;
+      }
+
+      const startDate = loaded.map(s => s.history[0]?.date).filter(Boolean).sort()[0];
+      const indexResult = await fetchPriceBars('TAIEX', startDate);
+      const instResults = await Promise.all(loaded.map(s => fetchStockInstitutionalData(s.id)));
+      if (current !== run.current) return;
+
+      setStocks(loaded);
+      setIndex(indexResult.status === 'success' ? indexResult.data : []);
+      setInstitutional(Object.fromEntries(loaded.map((s, i) => {
+        const r = instResults[i];
+        return [s.id, r.status === 'success' ? r.data : null];
+      })));
+    } finally {
+      if (current === run.current) setLoading(false);
+    }
+  };
+
+  const returns = useMemo(() => index.length > 0 ? normalizedReturns(stocks, index) : [], [stocks, index]);
+  const matrix = useMemo(() => correlationMatrix(stocks), [stocks]);
+  const metrics = useMemo(() => index.length > 0 ? computeComparisonMetrics(stocks, index, institutional) : [], [stocks, index, institutional]);
+
+  const handleAiSummary = async () => {
+    const current = run.current;
+    setAiLoading(true);
+    setError('');
+    try {
+      const result = await getAnalysisProvider(aiSettings).compare(metrics, aiSettings);
+      if (current === run.current) setAiResult(validateComparison(result, metrics.map(m => m.id)));
+    } catch (e) {
+      if (current === run.current) setError('AI 比較分析發生錯誤，請稍後再試');
+    } finally {
+      setAiLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <h3 className="text-white font-bold mb-6 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-500" /> 多檔個股比較
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {ids.map((id, i) => (
+            <span key={id} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold border border-slate-700 text-slate-200">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[i] }}></span>
+              {stocks.find(s => s.id === id)?.name || id}
+              <button onClick={() => updateIds(ids.filter(x => x !== id))} className="text-slate-500 hover:text-white"><X className="w-3 h-3" /></button>
+            </span>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder="加入個股 (名稱或代號)"
+            className="bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-white placeholder-slate-600 outline-none focus:border-blue-500 w-64"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <button onClick={handleAdd} className="bg-slate-800 hover:bg-slate-700 text-white text-sm font-bold px-4 py-2 rounded-xl transition">加入</button>
+          <button onClick={handleCompare} disabled={loading} className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold px-6 py-2 rounded-xl transition disabled:opacity-50">
+            {loading ? '載入中...' : '開始比較'}
+          </button>
+          {error && <span className="text-red-400 text-xs font-bold">{error}</span>}
+        </div>
+      </div>
+
+      {returns.length > 0 && (
+        <>
+          <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+            <h4 className="text-white font-bold mb-6">累積報酬率 (共同起始日 {returns[0].date})</h4>
+            <div className="h-[360px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={returns}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="date" stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" unit="%" />
+                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' }} />
+                  <Legend wrapperStyle={{ fontSize: '12px' }} />
+                  <ReferenceLine y={0} stroke="#334155" />
+                  <Line type="monotone" dataKey="TAIEX" name="加權指數" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                  {stocks.map((s, i) => (
+                    <Line key={s.id} type="monotone" dataKey={s.id} name={s.name} stroke={COLORS[ids.indexOf(s.id)] || COLORS[i]} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl overflow-x-auto">
+            <h4 className="text-white font-bold mb-4">指標並列</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+                  <th className="text-left pb-2">個股</th>
+                  <th className="text-right pb-2">區間報酬</th>
+                  <th className="text-right pb-2">RS (vs 大盤)</th>
+                  <th className="text-right pb-2">PER</th>
+                  <th className="text-right pb-2">PBR</th>
+                  <th className="text-right pb-2">20 日均量</th>
+                  <th className="text-right pb-2">外資</th>
+                  <th className="text-right pb-2">投信</th>
+                  <th className="text-right pb-2">自營商</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.map(m => (
+                  <tr key={m.id} className="border-t border-slate-800 hover:bg-slate-900 cursor-pointer" onClick={() => onSelect(m.id)}>
+                    <td className="py-3">
+                      <div className="font-bold text-white">{m.name}</div>
+                      <div className="text-xs text-slate-500 font-mono">{m.id}</div>
+                    </td>
+                    <td className={`text-right font-mono ${m.periodReturn >= 0 ? 'text-red-400' : 'text-green-400'}`}>{m.periodReturn}%</td>
+                    <td className={`text-right font-mono ${m.relativeStrength >= 1 ? 'text-red-400' : 'text-green-400'}`}>{m.relativeStrength}</td>
+                    <td className="text-right font-mono">{m.per ?? '--'}</td>
+                    <td className="text-right font-mono">{m.pbr ?? '--'}</td>
+                    <td className="text-right font-mono">{Math.round(m.avgVolume / 1000).toLocaleString()}K</td>
+                    <td className={`text-right font-mono ${m.foreignNet >= 0 ? 'text-red-400' : 'text-green-400'}`}>{Math.round(m.foreignNet / 1000).toLocaleString()}</td>
+                    <td className={`text-right font-mono ${m.trustNet >= 0 ? 'text-red-400' : 'text-green-400'}`}>{Math.round(m.trustNet / 1000).toLocaleString()}</td>
+                    <td className={`text-right font-mono ${m.dealerNet >= 0 ? 'text-red-400' : 'text-green-400'}`}>{Math.round(m.dealerNet / 1000).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-[10px] text-slate-600 mt-3">法人買賣超為近期累計張數。</p>
+          </div>
+
+          <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl overflow-x-auto">
+            <h4 className="text-white font-bold mb-4">日報酬相關係數</h4>
+            <table className="text-xs font-mono">
+              <thead>
+                <tr>
+                  <th></th>
+                  {stocks.map(s => <th key={s.id} className="px-3 pb-2 text-slate-400">{s.id}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {stocks.map((s, i) => (
+                  <tr key={s.id}>
+                    <td className="pr-3 py-2 text-slate-400 font-bold">{s.id}</td>
+                    {matrix[i].map((v, j) => (
+                      <td key={j} className="px-3 py-2 text-center text-white rounded" style={{ backgroundColor: correlationColor(v) }}>
+                        {v ?? '--'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-white font-bold flex items-center gap-2"><Cpu className="w-5 h-5 text-purple-500" /> AI 比較分析 <span className="text-[10px] text-slate-500 font-normal">{describeProvider(aiSettings)}</span></h4>
+              <button onClick={handleAiSummary} disabled={aiLoading} className="flex items-center gap-2 bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold px-4 py-2 rounded-xl transition disabled:opacity-50">
+                {aiLoading && <Loader className="w-3 h-3 animate-spin" />} 產生排名
+              </button>
+            </div>
+            {aiResult ? (
+              <div className="space-y-4">
+                <p className="text-slate-300 leading-relaxed text-sm">{aiResult.summary}</p>
+                {[...aiResult.ranking].sort((a, b) => a.rank - b.rank).map(r => (
+                  <div key={r.id} className="flex items-start gap-4 p-3 bg-slate-950 rounded-xl border border-slate-800 text-sm">
+                    <span className="text-2xl font-black text-blue-400 w-8">{r.rank}</span>
+                    <div>
+                      <div className="font-bold text-white">{stocks.find(s => s.id === r.id)?.name || r.id}</div>
+                      <div className="text-slate-400 text-xs mt-1">{r.reason}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : <p className="text-slate-600 text-sm">選用功能：由 AI 綜合比較上方數據並排名。</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Download, FileText, FileCode, Printer, Table } from 'lucide-react';
+import { ExportFormat } from '../services/reportExport';
+
+const OPTIONS: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown 報告', icon: <FileText className="w-4 h-4" /> },
+  { format: 'html', label: 'HTML 報告（含 K 線圖）', icon: <FileCode className="w-4 h-4" /> },
+  { format: 'pdf', label: '列印 / 另存 PDF', icon: <Printer className="w-4 h-4" /> },
+  { format: 'csv', label: '價格與法人資料 CSV', icon: <Table className="w-4 h-4" /> }
+];
+
+/**
+ * 詳細頁的報告匯出選單
+ */
+export const ExportMenu = ({ onExport }: { onExport: (format: ExportFormat) => void }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-slate-950 hover:bg-slate-800 border border-slate-800 rounded-2xl px-4 py-3 text-sm font-bold text-slate-300 transition"
+      >
+        <Download className="w-4 h-4" /> 匯出
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-30 py-2">
+          {OPTIONS.map(o => (
+            <button
+              key={o.format}
+              onClick={() => { setOpen(false); onExport(o.format); }}
+              className="w-full flex items-center gap-3 px-4 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition"
+            >
+              {o.icon} {o.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Coins, Layers, Waves } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { FundamentalsData, StockInfo } from '../types';
+import { RIVER_QUANTILES, cashYield, computeValuationRiver, trailingEps } from '../services/fundamentals';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+const RIVER_COLORS = ['#22c55e', '#84cc16', '#eab308', '#f97316', '#ef4444'];
+const CARD = 'bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl';
+
+type RiverMetric = 'PER' | 'PBR';
+
+const signedPct = (v: number | null) => v === null ? '--' : `${v > 0 ? '+' : ''}${v}%`;
+const growthColor = (v: number | null) => v === null ? 'text-slate-500' : v > 0 ? 'text-red-400' : v < 0 ? 'text-green-400' : 'text-slate-400';
+const toYi = (v: number | null) => v === null ? '--' : (v / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * 月營收與 MoM / YoY
+ */
+const RevenueChart = ({ fundamentals }: { fundamentals: FundamentalsData }) => {
+  const data = useMemo(() => fundamentals.revenue.slice(-13).map(r => ({ ...r, revenueYi: parseFloat((r.revenue / 1e8).toFixed(2)) })), [fundamentals]);
+  const latest = data[data.length - 1];
+  return (
+    <div className={CARD}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-500" /> 月營收
+        </h3>
+        {latest && (
+          <div className="text-xs font-mono text-slate-400">
+            {latest.month}：{latest.revenueYi} 億 · MoM <span className={growthColor(latest.mom)}>{signedPct(latest.mom)}</span>
+            {' '}· YoY <span className={growthColor(latest.yoy)}>{signedPct(latest.yoy)}</span>
+          </div>
+        )}
+      </div>
+      {data.length > 0 ? (
+        <div className="h-[240px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+              <XAxis dataKey="month" stroke="#475569" fontSize={10} tickFormatter={(m: string) => m.slice(2)} />
+              <YAxis yAxisId="revenue" stroke="#475569" fontSize={10} width={50} unit="億" />
+              <YAxis yAxisId="growth" orientation="right" stroke="#475569" fontSize={10} width={45} unit="%" />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <ReferenceLine yAxisId="growth" y={0} stroke="#334155" />
+              <Bar yAxisId="revenue" dataKey="revenueYi" name="營收 (億)" fill="#3b82f6" opacity={0.7} />
+              <Line yAxisId="growth" type="monotone" dataKey="mom" name="MoM %" stroke="#f59e0b" dot={false} strokeWidth={2} connectNulls />
+              <Line yAxisId="growth" type="monotone" dataKey="yoy" name="YoY %" stroke="#a855f7" dot={false} strokeWidth={2} connectNulls />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ) : <p className="text-xs text-slate-500">無月營收資料</p>}
+    </div>
+  );
+};
+
+/**
+ * 近 8 季 EPS 與毛利率、營業利益率
+ */
+const QuarterTable = ({ fundamentals }: { fundamentals: FundamentalsData }) => {
+  const ttm = trailingEps(fundamentals.quarters);
+  const rows = fundamentals.quarters.slice(-8).reverse();
+  return (
+    <div className={CARD}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Layers className="w-5 h-5 text-purple-500" /> 季度財報
+        </h3>
+        <div className="text-xs font-mono text-slate-400">近四季 EPS：{ttm ?? '--'}</div>
+      </div>
+      {rows.length > 0 ? (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+              <th className="text-left pb-2">季度</th>
+              <th className="text-right pb-2">營收 (億)</th>
+              <th className="text-right pb-2">EPS</th>
+              <th className="text-right pb-2">毛利率</th>
+              <th className="text-right pb-2">營益率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(q => (
+              <tr key={q.date} className="border-t border-slate-800">
+                <td className="py-2 font-bold text-slate-300">{q.label}</td>
+                <td className="text-right font-mono text-slate-300">{toYi(q.revenue)}</td>
+                <td className={`text-right font-mono font-bold ${growthColor(q.eps)}`}>{q.eps ?? '--'}</td>
+                <td className="text-right font-mono text-slate-300">{q.grossMargin ?? '--'}{q.grossMargin !== null && '%'}</td>
+                <td className="text-right font-mono text-slate-300">{q.operatingMargin ?? '--'}{q.operatingMargin !== null && '%'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : <p className="text-xs text-slate-500">無季度財報資料</p>}
+    </div>
+  );
+};
+
+/**
+ * 歷年股利與以現價計算的殖利率
+ */
+const DividendTable = ({ fundamentals, price }: { fundamentals: FundamentalsData; price: number }) => (
+  <div className={CARD}>
+    <h3 className="text-white font-bold flex items-center gap-2 mb-4">
+      <Coins className="w-5 h-5 text-yellow-500" /> 股利政策
+    </h3>
+    {fundamentals.dividends.length > 0 ? (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+            <th className="text-left pb-2">所屬年度</th>
+            <th className="text-right pb-2">現金股利</th>
+            <th className="text-right pb-2">股票股利</th>
+            <th className="text-right pb-2">除息日</th>
+            <th className="text-right pb-2">殖利率 (現價)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fundamentals.dividends.map(d => (
+            <tr key={d.year} className="border-t border-slate-800">
+              <td className="py-2 font-bold text-slate-300">{d.year} 年</td>
+              <td className="text-right font-mono text-slate-300">{d.cash}</td>
+              <td className="text-right font-mono text-slate-300">{d.stock}</td>
+              <td className="text-right font-mono text-slate-500">{d.exDate ?? '--'}</td>
+              <td className="text-right font-mono font-bold text-yellow-400">{cashYield(d, price) ?? '--'}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ) : <p className="text-xs text-slate-500">近年無配息紀錄</p>}
+  </div>
+);
+
+/**
+ * 本益比 / 股淨比河流圖
+ */
+const ValuationRiver = ({ stock }: { stock: StockInfo }) => {
+  const [metric, setMetric] = useState<RiverMetric>('PER');
+  const river = useMemo(() => computeValuationRiver(stock.rawHistory ?? stock.history, stock.valuation || [], metric), [stock, metric]);
+  const data = useMemo(() => river.points.map(p => ({
+    date: p.date,
+    close: p.close,
+    ...Object.fromEntries(p.bands.map((b, i) => [`band${i}`, b]))
+  })), [river]);
+
+  return (
+    <div className={CARD}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Waves className="w-5 h-5 text-cyan-500" /> {metric === 'PER' ? '本益比' : '股淨比'}河流圖
+        </h3>
+        <div className="flex gap-1">
+          {(['PER', 'PBR'] as RiverMetric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition ${metric === key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+      {data.length > 0 ? (
+        <>
+          <p className="text-xs text-slate-400 mb-4">
+            目前 {metric} <span className="font-mono font-bold text-white">{river.current}</span> 倍，
+            位於近 {river.points.length} 個交易日區間的第 <span className="font-mono font-bold text-white">{river.percentile}</span> 百分位
+          </p>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey="date" stroke="#475569" fontSize={10} tickFormatter={(d: string) => d.slice(5)} minTickGap={20} />
+                <YAxis stroke="#475569" fontSize={10} width={50} domain={['auto', 'auto']} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {river.multiples.map((m, i) => (
+                  <Line
+                    key={i}
+                    type="monotone"
+                    dataKey={`band${i}`}
+                    name={`${m} 倍 (P${RIVER_QUANTILES[i] * 100})`}
+                    stroke={RIVER_COLORS[i]}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    strokeWidth={1}
+                  />
+                ))}
+                <Line type="monotone" dataKey="close" name="收盤價" stroke="#f8fafc" dot={false} strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : <p className="text-xs text-slate-500">無{metric}資料（可能為 ETF 或虧損）</p>}
+    </div>
+  );
+};
+
+interface FundamentalsTabProps {
+  stock: StockInfo;
+  fundamentals: FundamentalsData | null;
+}
+
+/**
+ * 個股基本面分頁：月營收、季度財報、股利與估值河流圖
+ */
+export const FundamentalsTab = ({ stock, fundamentals }: FundamentalsTabProps) => (
+  <div className="space-y-6">
+    {fundamentals && fundamentals.errors.length > 0 && (
+      <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-2xl text-xs text-yellow-300">
+        {fundamentals.errors.map(e => <div key={e}>{e}</div>)}
+      </div>
+    )}
+    {fundamentals && <RevenueChart fundamentals={fundamentals} />}
+    {fundamentals && <QuarterTable fundamentals={fundamentals} />}
+    {fundamentals && <DividendTable fundamentals={fundamentals} price={stock.price} />}
+    <ValuationRiver stock={stock} />
+  </div>
+);
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Briefcase, Loader } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { InstitutionalData, InstitutionalDay, InvestorKey } from '../types';
+import { INSTITUTIONAL_WINDOWS, describeFinMindError, fetchStockInstitutionalData } from '../services/finmind';
+import { INVESTOR_COLORS, INVESTOR_LABELS, computeFlowStats, describeStreak } from '../services/institutionalFlow';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+const STACKED: Exclude<InvestorKey, 'total'>[] = ['foreign', 'trust', 'dealer'];
+
+const signed = (v: number, digits = 0) => `${v > 0 ? '+' : ''}${v.toLocaleString(undefined, { maximumFractionDigits: digits })}`;
+const flowColor = (v: number) => v > 0 ? 'text-red-400' : v < 0 ? 'text-green-400' : 'text-slate-500';
+
+/**
+ * 三大法人買賣超堆疊長條圖
+ */
+const FlowBars = ({ data, height, unit }: { data: InstitutionalDay[]; height: number; unit: string }) => (
+  <div style={{ height }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data} stackOffset="sign">
+        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+        <XAxis dataKey="date" stroke="#475569" fontSize={10} tickFormatter={(d: string) => d.slice(5)} minTickGap={20} />
+        <YAxis stroke="#475569" fontSize={10} width={50} />
+        <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(v: number) => `${signed(v, 2)} ${unit}`} />
+        <Legend wrapperStyle={{ fontSize: 11 }} />
+        <ReferenceLine y={0} stroke="#475569" />
+        {STACKED.map(key => (
+          <Bar key={key} dataKey={key} name={INVESTOR_LABELS[key]} stackId="flow" fill={INVESTOR_COLORS[key]} />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const FlowStatsTable = ({ daily, unit }: { daily: InstitutionalDay[]; unit: string }) => {
+  const stats = useMemo(() => computeFlowStats(daily), [daily]);
+  return (
+    <table className="w-full text-xs mt-4">
+      <thead>
+        <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+          <th className="text-left pb-2">法人</th>
+          <th className="text-right pb-2">近 5 日 ({unit})</th>
+          <th className="text-right pb-2">近 20 日 ({unit})</th>
+          <th className="text-right pb-2">連續</th>
+        </tr>
+      </thead>
+      <tbody>
+        {(Object.keys(INVESTOR_LABELS) as InvestorKey[]).map(key => (
+          <tr key={key} className="border-t border-slate-800">
+            <td className="py-2 font-bold text-slate-300">{INVESTOR_LABELS[key]}</td>
+            <td className={`text-right font-mono ${flowColor(stats[key].sum5)}`}>{signed(stats[key].sum5, 2)}</td>
+            <td className={`text-right font-mono ${flowColor(stats[key].sum20)}`}>{signed(stats[key].sum20, 2)}</td>
+            <td className={`text-right font-bold ${flowColor(stats[key].streak)}`}>{describeStreak(stats[key].streak)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const toLots = (daily: InstitutionalDay[]): InstitutionalDay[] => daily.map(d => ({
+  date: d.date,
+  foreign: Math.round(d.foreign / 1000),
+  trust: Math.round(d.trust / 1000),
+  dealer: Math.round(d.dealer / 1000),
+  total: Math.round(d.total / 1000)
+}));
+
+interface InstitutionalFlowPanelProps {
+  stockId: string;
+  // 分析時已取得的預設區間資料
+  initial: InstitutionalData | null;
+}
+
+/**
+ * 個股三大法人每日買賣超（可切換區間）
+ */
+export const InstitutionalFlowPanel = ({ stockId, initial }: InstitutionalFlowPanelProps) => {
+  const [sessions, setSessions] = useState(INSTITUTIONAL_WINDOWS[0]);
+  const [data, setData] = useState<InstitutionalData | null>(initial);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setSessions(INSTITUTIONAL_WINDOWS[0]);
+    setData(initial);
+    setError('');
+  }, [stockId, initial]);
+
+  const handleWindow = async (count: number) => {
+    setSessions(count);
+    setLoading(true);
+    const result = await fetchStockInstitutionalData(stockId, count);
+    setLoading(false);
+    if (result.status === 'success') {
+      setData(result.data);
+      setError('');
+    } else {
+      setError(describeFinMindError(result.error));
+    }
+  };
+
+  const lots = useMemo(() => data ? toLots(data.daily) : [], [data]);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Briefcase className="w-5 h-5 text-purple-500" /> 三大法人買賣超
+          {loading && <Loader className="w-4 h-4 text-slate-500 animate-spin" />}
+        </h3>
+        <div className="flex gap-1">
+          {INSTITUTIONAL_WINDOWS.map(w => (
+            <button
+              key={w}
+              onClick={() => handleWindow(w)}
+              disabled={loading}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition ${sessions === w ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {w}日
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-red-400 text-xs font-bold mb-2">{error}</p>}
+      {lots.length > 0 ? (
+        <>
+          <FlowBars data={lots} height={200} unit="張" />
+          <FlowStatsTable daily={lots} unit="張" />
+        </>
+      ) : <p className="text-xs text-slate-500">無法人買賣超資料</p>}
+    </div>
+  );
+};
+
+/**
+ * 首頁全市場法人買賣超趨勢（單位：億元）
+ */
+export const MarketFlowTrend = ({ daily }: { daily: InstitutionalDay[] }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+    <div className="text-slate-500 text-sm font-bold uppercase tracking-widest mb-4 flex items-center gap-2">
+      <Briefcase className="w-4 h-4 text-purple-500" /> 全市場法人買賣超趨勢（近 {daily.length} 個交易日）
+    </div>
+    <FlowBars data={daily} height={180} unit="億" />
+    <FlowStatsTable daily={daily} unit="億" />
+  </div>
+);
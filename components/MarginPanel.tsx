@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Scale } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { MarginData } from '../types';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+
+type MarginView = 'balance' | 'ratio';
+
+const signed = (v: number) => `${v > 0 ? '+' : ''}${v.toLocaleString()}`;
+const flowColor = (v: number) => v > 0 ? 'text-red-400' : v < 0 ? 'text-green-400' : 'text-slate-500';
+
+/**
+ * 融資融券餘額、增減與使用率 / 券資比
+ */
+export const MarginPanel = ({ margin }: { margin: MarginData | null }) => {
+  const [view, setView] = useState<MarginView>('balance');
+
+  const changes = useMemo(() => {
+    if (!margin) return null;
+    const base = (n: number) => margin.daily[Math.max(margin.daily.length - 1 - n, 0)];
+    return {
+      margin5: margin.marginBalance - base(5).marginBalance,
+      margin20: margin.marginBalance - base(20).marginBalance,
+      short5: margin.shortBalance - base(5).shortBalance,
+      short20: margin.shortBalance - base(20).shortBalance
+    };
+  }, [margin]);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Scale className="w-5 h-5 text-cyan-500" /> 融資融券
+        </h3>
+        <div className="flex gap-1">
+          {([['balance', '餘額與增減'], ['ratio', '使用率 / 券資比']] as [MarginView, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition ${view === key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {margin && changes ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 text-sm">
+            <div className="p-3 bg-slate-950 rounded-xl border border-slate-800">
+              <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">融資餘額 (張)</div>
+              <div className="font-mono font-bold text-white">{margin.marginBalance.toLocaleString()}</div>
+              <div className={`text-[10px] font-mono ${flowColor(margin.marginChange)}`}>當日 {signed(margin.marginChange)} · 5日 {signed(changes.margin5)}</div>
+            </div>
+            <div className="p-3 bg-slate-950 rounded-xl border border-slate-800">
+              <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">融券餘額 (張)</div>
+              <div className="font-mono font-bold text-white">{margin.shortBalance.toLocaleString()}</div>
+              <div className={`text-[10px] font-mono ${flowColor(margin.shortChange)}`}>當日 {signed(margin.shortChange)} · 5日 {signed(changes.short5)}</div>
+            </div>
+            <div className="p-3 bg-slate-950 rounded-xl border border-slate-800">
+              <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">融資使用率</div>
+              <div className="font-mono font-bold text-white">{margin.marginUsage ?? '--'}%</div>
+              <div className={`text-[10px] font-mono ${flowColor(changes.margin20)}`}>20日增減 {signed(changes.margin20)} 張</div>
+            </div>
+            <div className="p-3 bg-slate-950 rounded-xl border border-slate-800">
+              <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">券資比</div>
+              <div className="font-mono font-bold text-white">{margin.shortMarginRatio ?? '--'}%</div>
+              <div className={`text-[10px] font-mono ${flowColor(changes.short20)}`}>融券20日 {signed(changes.short20)} 張</div>
+            </div>
+          </div>
+
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={margin.daily}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey="date" stroke="#475569" fontSize={10} tickFormatter={(d: string) => d.slice(5)} minTickGap={20} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {view === 'balance' ? (
+                  <>
+                    <YAxis yAxisId="balance" stroke="#475569" fontSize={10} width={60} />
+                    <YAxis yAxisId="change" orientation="right" stroke="#475569" fontSize={10} width={50} />
+                    <ReferenceLine yAxisId="change" y={0} stroke="#334155" />
+                    <Bar yAxisId="change" dataKey="marginChange" name="融資增減" fill="#ef4444" opacity={0.6} />
+                    <Bar yAxisId="change" dataKey="shortChange" name="融券增減" fill="#22c55e" opacity={0.6} />
+                    <Line yAxisId="balance" type="monotone" dataKey="marginBalance" name="融資餘額" stroke="#f59e0b" dot={false} strokeWidth={2} />
+                    <Line yAxisId="balance" type="monotone" dataKey="shortBalance" name="融券餘額" stroke="#06b6d4" dot={false} strokeWidth={2} />
+                  </>
+                ) : (
+                  <>
+                    <YAxis stroke="#475569" fontSize={10} width={40} unit="%" />
+                    <Line type="monotone" dataKey="marginUsage" name="融資使用率" stroke="#f59e0b" dot={false} strokeWidth={2} />
+                    <Line type="monotone" dataKey="shortMarginRatio" name="券資比" stroke="#06b6d4" dot={false} strokeWidth={2} />
+                  </>
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : <p className="text-xs text-slate-500">此標的無融資融券資料（可能為不可信用交易之個股）</p>}
+    </div>
+  );
+};
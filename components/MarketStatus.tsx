@@ -0,0 +1,54 @@
+import React from 'react';
+import { Wifi, WifiOff, Radio, Clock } from 'lucide-react';
+import { MarketSession, describeSession, sessionsBehind } from '../services/marketSession';
+
+interface MarketStatusProps {
+  session: MarketSession;
+  connectionStatus: 'connected' | 'error' | 'loading';
+  connectionError: string;
+  // 收盤資料的日期（加權指數最新一筆）
+  dataDate: string | null;
+  // 最近一次盤中報價的取得時間
+  intradayTime: string | null;
+  simulated: boolean;
+  now: number;
+}
+
+const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds} 秒前`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} 分鐘前` : `${Math.round(minutes / 60)} 小時前`;
+};
+
+/**
+ * 頁首的市場狀態與資料新鮮度：盤中顯示報價時間，其餘時段顯示收盤資料日期與落後的交易日數
+ */
+export const MarketStatus = ({ session, connectionStatus, connectionError, dataDate, intradayTime, simulated, now }: MarketStatusProps) => {
+  const live = !!intradayTime && (session.phase === 'trading' || session.phase === 'after-hours');
+  const behind = dataDate ? sessionsBehind(dataDate, session) : 0;
+
+  let detail = '資料載入中';
+  if (connectionStatus === 'error') detail = '連線異常';
+  else if (live) detail = `${simulated ? '模擬報價' : '即時報價'} · ${formatAge(now - Date.parse(intradayTime!))}`;
+  else if (dataDate) detail = `收盤資料 ${dataDate.slice(5).replace('-', '/')}${behind > 0 ? `（落後 ${behind} 個交易日）` : ''}`;
+
+  const tone = connectionStatus === 'error'
+    ? 'bg-red-500/10 text-red-400 border-red-500/20'
+    : behind > 0 ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20'
+    : 'bg-green-500/10 text-green-400 border-green-500/20';
+
+  return (
+    <div
+      title={connectionError || `台北時間 ${session.date} ${session.time}`}
+      className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-semibold ${tone}`}
+    >
+      {connectionStatus === 'error' ? <WifiOff className="w-3 h-3" />
+        : session.phase === 'trading' ? <Radio className="w-3 h-3 animate-pulse" />
+        : connectionStatus === 'loading' ? <Clock className="w-3 h-3" />
+        : <Wifi className="w-3 h-3" />}
+      <span>{describeSession(session)}</span>
+      <span className="hidden md:inline opacity-80 font-medium">· {detail}</span>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Upload, Trash2, Wallet } from 'lucide-react';
+import { PortfolioTransaction, StockInfo } from '../types';
+import { resolveStockId } from '../services/finmind';
+import { computePositions, estimateCosts, exportPortfolio, importPortfolio } from '../services/portfolio';
+import { taipeiToday } from '../services/tradingCalendar';
+
+interface PortfolioProps {
+  transactions: PortfolioTransaction[];
+  quotes: Record<string, StockInfo>;
+  onChange: (transactions: PortfolioTransaction[]) => void;
+  onSelect: (stockId: string) => void;
+}
+
+const formatMoney = (v: number | null) => v === null ? '--' : Math.round(v).toLocaleString();
+const pnlColor = (v: number | null) => v === null ? 'text-slate-500' : v >= 0 ? 'text-red-400' : 'text-green-400';
+const signed = (v: number | null) => v === null ? '--' : `${v >= 0 ? '+' : ''}${formatMoney(v)}`;
+
+export const Portfolio = ({ transactions, quotes, onChange, onSelect }: PortfolioProps) => {
+  const [form, setForm] = useState({ stock: '', side: 'buy' as 'buy' | 'sell', shares: '1000', price: '', date: taipeiToday(), fee: '', tax: '' });
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const positions = useMemo(() => computePositions(transactions, quotes), [transactions, quotes]);
+  const totals = useMemo(() => positions.reduce((t, p) => ({
+    cost: t.cost + p.costBasis,
+    value: t.value + (p.marketValue ?? 0),
+    unrealized: t.unrealized + (p.unrealizedPnL ?? 0),
+    realized: t.realized + p.realizedPnL,
+    daily: t.daily + (p.dailyChange ?? 0)
+  }), { cost: 0, value: 0, unrealized: 0, realized: 0, daily: 0 }), [positions]);
+
+  // 輸入可能是名稱，解析為代號後才能判斷 ETF 稅率
+  const [stockId, setStockId] = useState('');
+
+  const withCosts = (f: typeof form, id: string) => {
+    const est = estimateCosts(id, f.side, parseFloat(f.price) || 0, parseInt(f.shares) || 0);
+    return { ...f, fee: String(est.fee), tax: String(est.tax) };
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    resolveStockId(form.stock).then(r => {
+      if (!cancelled) setStockId(r.status === 'success' ? r.stockId : '');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form.stock]);
+
+  // 代號解析完成後依其稅率重新估算（尚未填價格時不預填）
+  useEffect(() => {
+    setForm(f => f.price ? withCosts(f, stockId) : f);
+  }, [stockId]);
+
+  const update = (patch: Partial<typeof form>) => {
+    const next = { ...form, ...patch };
+    // 數量、價格或買賣別變動時重新估算費用
+    setForm('shares' in patch || 'price' in patch || 'side' in patch ? withCosts(next, stockId) : next);
+  };
+
+  const handleAdd = async () => {
+    setError('');
+    const resolved = await resolveStockId(form.stock);
+    const shares = parseInt(form.shares);
+    const price = parseFloat(form.price);
+    if (resolved.status === 'error') return setError(resolved.message);
+    const { stockId } = resolved;
+    if (!(shares > 0) || !(price > 0)) return setError('請輸入正確的股數與成交價');
+    onChange([...transactions, {
+      id: `tx-${Date.now()}`,
+      stockId,
+      side: form.side,
+      shares,
+      price,
+      date: form.date,
+      fee: parseFloat(form.fee) || 0,
+      tax: parseFloat(form.tax) || 0
+    }]);
+    setForm({ ...form, stock: '', price: '', fee: '', tax: '' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPortfolio(transactions)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `portfolio-${taipeiToday()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(importPortfolio(await file.text()));
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '匯入失敗');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: '總市值', value: formatMoney(totals.value), color: 'text-white' },
+          { label: '未實現損益', value: signed(totals.unrealized), color: pnlColor(totals.unrealized) },
+          { label: '已實現損益', value: signed(totals.realized), color: pnlColor(totals.realized) },
+          { label: '今日損益', value: signed(totals.daily), color: pnlColor(totals.daily) }
+        ].map(t => (
+          <div key={t.label} className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5">
+            <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t.label}</div>
+            <div className={`text-2xl font-black font-mono ${t.color}`}>{t.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6 overflow-x-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-white font-bold flex items-center gap-2"><Wallet className="w-4 h-4 text-blue-500" /> 持股明細</h4>
+          <div className="flex gap-2">
+            <button onClick={handleExport} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-1.5 border border-slate-800 rounded-lg">
+              <Download className="w-3 h-3" /> 匯出 JSON
+            </button>
+            <button onClick={() => fileInput.current?.click()} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-1.5 border border-slate-800 rounded-lg">
+              <Upload className="w-3 h-3" /> 匯入 JSON
+            </button>
+            <input ref={fileInput} type="file" accept="application/json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+          </div>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+              <th className="text-left pb-2">個股</th>
+              <th className="text-right pb-2">股數</th>
+              <th className="text-right pb-2">均價</th>
+              <th className="text-right pb-2">現價</th>
+              <th className="text-right pb-2">市值</th>
+              <th className="text-right pb-2">未實現</th>
+              <th className="text-right pb-2">已實現</th>
+              <th className="text-right pb-2">今日</th>
+              <th className="text-right pb-2">權重</th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.map(p => (
+              <tr key={p.stockId} className="border-t border-slate-800 hover:bg-slate-900 cursor-pointer" onClick={() => onSelect(p.stockId)}>
+                <td className="py-3">
+                  <div className="font-bold text-white">{quotes[p.stockId]?.name || p.stockId}</div>
+                  <div className="text-xs text-slate-500 font-mono">{p.stockId}</div>
+                </td>
+                <td className="text-right font-mono">{p.shares.toLocaleString()}</td>
+                <td className="text-right font-mono">{p.avgCost.toFixed(2)}</td>
+                <td className="text-right font-mono">{quotes[p.stockId]?.price ?? '--'}</td>
+                <td className="text-right font-mono">{formatMoney(p.marketValue)}</td>
+                <td className={`text-right font-mono ${pnlColor(p.unrealizedPnL)}`}>
+                  {signed(p.unrealizedPnL)}
+                  {p.unrealizedPct !== null && <div className="text-[10px]">{p.unrealizedPct.toFixed(2)}%</div>}
+                </td>
+                <td className={`text-right font-mono ${pnlColor(p.realizedPnL)}`}>{signed(p.realizedPnL)}</td>
+                <td className={`text-right font-mono ${pnlColor(p.dailyChange)}`}>{signed(p.dailyChange)}</td>
+                <td className="text-right font-mono">{p.weight === null ? '--' : `${p.weight.toFixed(1)}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {positions.length === 0 && <p className="text-slate-600 text-sm mt-4">尚無交易紀錄。</p>}
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6">
+        <h4 className="text-white font-bold mb-4">新增交易</h4>
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-2 text-sm">
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="名稱或代號" value={form.stock} onChange={(e) => update({ stock: e.target.value })} />
+          <select className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" value={form.side} onChange={(e) => update({ side: e.target.value as 'buy' | 'sell' })}>
+            <option value="buy">買進</option>
+            <option value="sell">賣出</option>
+          </select>
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="股數" type="number" value={form.shares} onChange={(e) => update({ shares: e.target.value })} />
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="成交價" type="number" value={form.price} onChange={(e) => update({ price: e.target.value })} />
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" type="date" value={form.date} onChange={(e) => update({ date: e.target.value })} />
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="手續費" type="number" value={form.fee} onChange={(e) => update({ fee: e.target.value })} />
+          <input className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white" placeholder="交易稅" type="number" value={form.tax} onChange={(e) => update({ tax: e.target.value })} />
+        </div>
+        <div className="flex items-center gap-4 mt-4">
+          <button onClick={handleAdd} className="bg-blue-600 hover:bg-blue-500 text-white font-bold px-6 py-2 rounded-xl transition text-sm">新增</button>
+          {error && <span className="text-red-400 text-xs font-bold">{error}</span>}
+        </div>
+
+        {transactions.length > 0 && (
+          <div className="mt-6 space-y-2 max-h-64 overflow-y-auto">
+            {[...transactions].sort((a, b) => b.date.localeCompare(a.date)).map(t => (
+              <div key={t.id} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800 text-xs">
+                <span className="text-slate-400 font-mono">{t.date}</span>
+                <span className={`font-bold ${t.side === 'buy' ? 'text-red-400' : 'text-green-400'}`}>{t.side === 'buy' ? '買進' : '賣出'}</span>
+                <span className="text-white font-mono">{t.stockId}</span>
+                <span className="text-slate-300 font-mono">{t.shares.toLocaleString()} 股 @ {t.price}</span>
+                <span className="text-slate-500 font-mono">費 {t.fee} / 稅 {t.tax}</span>
+                <button onClick={() => onChange(transactions.filter(x => x.id !== t.id))} className="text-slate-600 hover:text-red-400">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import { Target, CheckCircle2, XCircle, Clock } from 'lucide-react';
+import { PredictionRecord, AccuracyStats } from '../types';
+import { computeAccuracy, accuracyByStock, accuracyByScore } from '../services/predictionTracker';
+
+const formatPct = (v: number | null) => v === null ? '--' : `${v}%`;
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-slate-950 p-4 rounded-2xl border border-slate-800">
+    <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">{label}</div>
+    <div className="text-2xl font-black text-white font-mono">{value}</div>
+  </div>
+);
+
+const StatsTable = ({ title, rows }: { title: string; rows: { label: string; sub?: string; reports: number; stats: AccuracyStats }[] }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl overflow-x-auto">
+    <h3 className="text-white font-bold mb-4">{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+          <th className="text-left pb-2 font-bold">分類</th>
+          <th className="text-right pb-2 font-bold">報告數</th>
+          <th className="text-right pb-2 font-bold">已驗證</th>
+          <th className="text-right pb-2 font-bold">區間命中率</th>
+          <th className="text-right pb-2 font-bold">MAE</th>
+          <th className="text-right pb-2 font-bold">方向正確率</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ label, sub, reports, stats }) => (
+          <tr key={label + (sub || '')} className="border-t border-slate-800">
+            <td className="py-3 pr-4">
+              <div className="font-bold text-white">{label}</div>
+              {sub && <div className="text-xs text-slate-500 font-mono">{sub}</div>}
+            </td>
+            <td className="py-3 px-2 text-right font-mono text-slate-400">{reports}</td>
+            <td className="py-3 px-2 text-right font-mono text-slate-400">{stats.samples}</td>
+            <td className="py-3 px-2 text-right font-mono text-white">{formatPct(stats.hitRate)}</td>
+            <td className="py-3 px-2 text-right font-mono text-white">{stats.mae ?? '--'}</td>
+            <td className="py-3 pl-2 text-right font-mono text-white">{formatPct(stats.directionAccuracy)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * 全部 AI 預測的準確度總覽（依個股與評分區間拆分）
+ */
+export const AccuracyDashboard = ({ records }: { records: PredictionRecord[] }) => {
+  const overall = useMemo(() => computeAccuracy(records), [records]);
+  const byStock = useMemo(() => accuracyByStock(records), [records]);
+  const byScore = useMemo(() => accuracyByScore(records), [records]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <h3 className="text-white font-bold mb-6 flex items-center gap-2">
+          <Target className="w-5 h-5 text-blue-500" /> AI 預測準確度總覽
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <StatTile label="已驗證預測" value={`${overall.samples}`} />
+          <StatTile label="區間命中率" value={formatPct(overall.hitRate)} />
+          <StatTile label="平均絕對誤差" value={`${overall.mae ?? '--'}`} />
+          <StatTile label="方向正確率" value={formatPct(overall.directionAccuracy)} />
+        </div>
+        {records.length === 0 && <p className="text-slate-500 text-sm mt-6">尚無預測紀錄，完成個股分析後將自動保存。</p>}
+      </div>
+      <StatsTable
+        title="依個股"
+        rows={byStock.map(({ stockId, stockName, reports, ...stats }) => ({ label: stockName, sub: stockId, reports, stats }))}
+      />
+      <StatsTable
+        title="依 AI 評分區間"
+        rows={byScore.map(({ label, reports, ...stats }) => ({ label, reports, stats }))}
+      />
+    </div>
+  );
+};
+
+/**
+ * 詳細頁中顯示單一個股的過往預測戰績
+ */
+export const StockTrackRecord = ({ records }: { records: PredictionRecord[] }) => {
+  const stats = useMemo(() => computeAccuracy(records), [records]);
+  const recent = records.flatMap(r => r.days).slice(0, 9);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <h3 className="text-white font-bold mb-6 flex items-center gap-2">
+        <Target className="w-5 h-5 text-cyan-500" /> 過往預測戰績
+      </h3>
+      {records.length === 0 ? (
+        <p className="text-slate-500 text-sm">此個股尚無歷史預測紀錄。</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-6 text-center">
+            <div>
+              <div className="text-[10px] text-slate-500 font-bold uppercase">命中率</div>
+              <div className="text-lg font-black text-white font-mono">{formatPct(stats.hitRate)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-slate-500 font-bold uppercase">MAE</div>
+              <div className="text-lg font-black text-white font-mono">{stats.mae ?? '--'}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-slate-500 font-bold uppercase">方向</div>
+              <div className="text-lg font-black text-white font-mono">{formatPct(stats.directionAccuracy)}</div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {recent.map((d, i) => {
+              const pending = d.actual === undefined;
+              const hit = !pending && d.actual !== null && d.actual >= d.low && d.actual <= d.high;
+              return (
+                <div key={i} className="flex items-center justify-between p-3 bg-slate-950 rounded-xl border border-slate-800 text-xs">
+                  <div className="text-slate-400 font-bold">{d.date}</div>
+                  <div className="font-mono text-slate-300">預 {d.price.toFixed(2)} / 實 {d.actual ?? '--'}</div>
+                  {pending ? <Clock className="w-4 h-4 text-slate-500" />
+                    : hit ? <CheckCircle2 className="w-4 h-4 text-red-400" />
+                    : <XCircle className="w-4 h-4 text-slate-600" />}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Filter, Save, Trash2, ArrowUpDown, Loader } from 'lucide-react';
+import { ScreenerFilters, ScreenerPreset, ScreenerRow } from '../types';
+import {
+  EMPTY_FILTERS, MARKET_LABELS, getScreenerPresets, listIndustries, runScreener, saveScreenerPresets
+} from '../services/screener';
+
+type NumericKey = 'perMin' | 'perMax' | 'pbrMin' | 'pbrMax' | 'priceMin' | 'priceMax' | 'minVolumeLots'
+  | 'volumeSpike' | 'foreignBuyStreak' | 'trustBuyStreak' | 'rsiMin' | 'rsiMax';
+type SortKey = keyof ScreenerRow;
+
+const NUMERIC_FIELDS: { label: string; min?: NumericKey; max?: NumericKey; single?: NumericKey; hint?: string }[] = [
+  { label: '本益比 PER', min: 'perMin', max: 'perMax' },
+  { label: '股淨比 PBR', min: 'pbrMin', max: 'pbrMax' },
+  { label: '收盤價', min: 'priceMin', max: 'priceMax' },
+  { label: 'RSI(14)', min: 'rsiMin', max: 'rsiMax' },
+  { label: '最低成交量', single: 'minVolumeLots', hint: '張' },
+  { label: '量能放大', single: 'volumeSpike', hint: '倍 20 日均量' },
+  { label: '外資連買', single: 'foreignBuyStreak', hint: '日' },
+  { label: '投信連買', single: 'trustBuyStreak', hint: '日' }
+];
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'id', label: '代號' },
+  { key: 'name', label: '名稱' },
+  { key: 'industry', label: '產業' },
+  { key: 'close', label: '收盤' },
+  { key: 'pct', label: '漲跌%' },
+  { key: 'volume', label: '成交量(張)' },
+  { key: 'per', label: 'PER' },
+  { key: 'pbr', label: 'PBR' },
+  { key: 'foreignStreak', label: '外資連續' },
+  { key: 'trustStreak', label: '投信連續' },
+  { key: 'rsi', label: 'RSI' }
+];
+
+const inputClass = 'bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white text-sm w-full';
+
+export const Screener = ({ onSelect }: { onSelect: (stockId: string) => void }) => {
+  const [filters, setFilters] = useState<ScreenerFilters>(EMPTY_FILTERS);
+  const [industries, setIndustries] = useState<string[]>([]);
+  const [presets, setPresets] = useState<ScreenerPreset[]>(() => getScreenerPresets());
+  const [rows, setRows] = useState<ScreenerRow[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'pct', desc: true });
+
+  useEffect(() => { listIndustries().then(setIndustries); }, []);
+  useEffect(() => { saveScreenerPresets(presets); }, [presets]);
+
+  const setNumber = (key: NumericKey, value: string) => {
+    const n = parseFloat(value);
+    setFilters(prev => ({ ...prev, [key]: Number.isFinite(n) ? n : undefined }));
+  };
+
+  const toggleIn = (key: 'markets' | 'industries', value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+    }));
+  };
+
+  const handleRun = async () => {
+    setError('');
+    setProgress({ done: 0, total: 1 });
+    try {
+      setRows(await runScreener(filters, (done, total) => setProgress({ done, total })));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '篩選失敗');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt('條件組合名稱');
+    if (name) setPresets([...presets, { id: `preset-${Date.now()}`, name, filters }]);
+  };
+
+  const sortedRows = useMemo(() => {
+    if (!rows) return [];
+    return [...rows].sort((a, b) => {
+      const va = a[sort.key], vb = b[sort.key];
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+      return sort.desc ? -cmp : cmp;
+    });
+  }, [rows, sort]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <Filter className="w-5 h-5 text-blue-500" /> 全市場選股器
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {presets.map(p => (
+              <span key={p.id} className="flex items-center gap-1 text-xs border border-slate-700 rounded-full pl-3 pr-1 py-1">
+                <button onClick={() => setFilters({ ...EMPTY_FILTERS, ...p.filters })} className="text-slate-300 hover:text-white font-bold">{p.name}</button>
+                <button onClick={() => setPresets(presets.filter(x => x.id !== p.id))} className="p-1 text-slate-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+              </span>
+            ))}
+            <button onClick={handleSavePreset} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-3 py-1.5 border border-slate-800 rounded-lg">
+              <Save className="w-3 h-3" /> 儲存條件
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+          {Object.entries(MARKET_LABELS).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-slate-300">
+              <input type="checkbox" checked={filters.markets.includes(key)} onChange={() => toggleIn('markets', key)} /> {label}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={filters.excludeEtf} onChange={() => setFilters({ ...filters, excludeEtf: !filters.excludeEtf })} /> 排除 ETF
+          </label>
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={!!filters.kdGoldenCross} onChange={() => setFilters({ ...filters, kdGoldenCross: !filters.kdGoldenCross })} /> KD 黃金交叉
+          </label>
+          <label className="flex items-center gap-2 text-slate-300">
+            <input type="checkbox" checked={!!filters.aboveMa20} onChange={() => setFilters({ ...filters, aboveMa20: !filters.aboveMa20 })} /> 站上 MA20
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5 mb-6 max-h-32 overflow-y-auto">
+          {industries.map(ind => (
+            <button
+              key={ind}
+              onClick={() => toggleIn('industries', ind)}
+              className={`px-2.5 py-1 rounded-full text-[11px] font-bold border transition ${
+                filters.industries.includes(ind) ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-800 text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {ind}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {NUMERIC_FIELDS.map(f => (
+            <div key={f.label}>
+              <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">{f.label}{f.hint && ` (${f.hint})`}</div>
+              {f.single ? (
+                <input className={inputClass} type="number" value={filters[f.single] ?? ''} onChange={(e) => setNumber(f.single!, e.target.value)} />
+              ) : (
+                <div className="flex gap-1">
+                  <input className={inputClass} type="number" placeholder="最小" value={filters[f.min!] ?? ''} onChange={(e) => setNumber(f.min!, e.target.value)} />
+                  <input className={inputClass} type="number" placeholder="最大" value={filters[f.max!] ?? ''} onChange={(e) => setNumber(f.max!, e.target.value)} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button onClick={handleRun} disabled={!!progress} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-bold px-6 py-2 rounded-xl transition text-sm disabled:opacity-50">
+            {progress && <Loader className="w-4 h-4 animate-spin" />} 開始篩選
+          </button>
+          {progress && <span className="text-xs text-slate-500">批次下載全市場資料 {progress.done}/{progress.total}</span>}
+          {error && <span className="text-red-400 text-xs font-bold">{error}</span>}
+        </div>
+      </div>
+
+      {rows && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl overflow-x-auto">
+          <h4 className="text-white font-bold mb-4">篩選結果 <span className="text-slate-500 text-sm">({rows.length} 檔)</span></h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] text-slate-500 uppercase tracking-wider">
+                {COLUMNS.map(c => (
+                  <th key={c.key} className="pb-2 text-right first:text-left cursor-pointer hover:text-white" onClick={() => setSort({ key: c.key, desc: sort.key === c.key ? !sort.desc : true })}>
+                    <span className="inline-flex items-center gap-1">{c.label}{sort.key === c.key && <ArrowUpDown className="w-3 h-3" />}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.slice(0, 300).map(r => (
+                <tr key={r.id} className="border-t border-slate-800 hover:bg-slate-900 cursor-pointer" onClick={() => onSelect(r.id)}>
+                  <td className="py-2 font-mono text-slate-400">{r.id}</td>
+                  <td className="text-right font-bold text-white">{r.name}</td>
+                  <td className="text-right text-slate-500 text-xs">{MARKET_LABELS[r.market] || r.market} · {r.industry}</td>
+                  <td className="text-right font-mono">{r.close}</td>
+                  <td className={`text-right font-mono ${r.pct >= 0 ? 'text-red-400' : 'text-green-400'}`}>{r.pct}%</td>
+                  <td className="text-right font-mono">{Math.round(r.volume / 1000).toLocaleString()}</td>
+                  <td className="text-right font-mono">{r.per ?? '--'}</td>
+                  <td className="text-right font-mono">{r.pbr ?? '--'}</td>
+                  <td className="text-right font-mono">{r.foreignStreak ?? '--'}</td>
+                  <td className="text-right font-mono">{r.trustStreak ?? '--'}</td>
+                  <td className="text-right font-mono">{r.rsi ?? '--'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > 300 && <p className="text-[10px] text-slate-600 mt-3">僅顯示排序後前 300 檔。</p>}
+        </div>
+      )}
+    </div>
+  );
+};
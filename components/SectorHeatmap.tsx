@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LayoutGrid, Loader, ArrowLeft, Compass } from 'lucide-react';
+import {
+  Treemap, ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ReferenceLine, LabelList,
+  ScatterPointItem, TreemapNode
+} from 'recharts';
+import { SectorRotationRow, SectorSummary } from '../types';
+import {
+  FLOW_WINDOWS, ROTATION_REQUEST_COST, ROTATION_WINDOWS, fetchSectorRotation, fetchSectorSnapshot
+} from '../services/sectors';
+import { MARKET_LABELS } from '../services/screener';
+import { describeFinMindError } from '../services/finmind';
+import { getRequestBudget } from '../services/finmindClient';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+
+/**
+ * 台股慣例紅漲綠跌，漲跌幅達 scale 時顏色最深
+ */
+const heatColor = (pct: number, scale: number) => {
+  if (pct === 0) return 'rgba(100, 116, 139, 0.35)';
+  const alpha = 0.2 + 0.7 * Math.min(Math.abs(pct) / scale, 1);
+  return pct > 0 ? `rgba(239, 68, 68, ${alpha.toFixed(2)})` : `rgba(34, 197, 94, ${alpha.toFixed(2)})`;
+};
+
+const formatTurnover = (v: number) => `${(v / 1e8).toFixed(v >= 1e10 ? 0 : 1)} 億`;
+const signedPct = (v: number | null) => v === null ? '--' : `${v > 0 ? '+' : ''}${v}%`;
+const pctColor = (v: number | null) => v === null || v === 0 ? 'text-slate-400' : v > 0 ? 'text-red-400' : 'text-green-400';
+
+// Treemap 以 cloneElement 傳入節點版面與原始資料欄位（pct）
+interface HeatTileProps extends Partial<TreemapNode> {
+  pct?: number;
+  scale: number;
+}
+
+const HeatTile = ({ x, y, width, height, depth, name, pct, scale }: HeatTileProps) => {
+  if (depth !== 1 || width <= 0 || height <= 0) return null;
+  const showLabel = width > 48 && height > 28;
+  return (
+    <g className="cursor-pointer">
+      <rect x={x} y={y} width={width} height={height} fill={heatColor(pct, scale)} stroke="#020617" strokeWidth={2} rx={4} />
+      {showLabel && (
+        <>
+          <text x={x + width / 2} y={y + height / 2 - 2} textAnchor="middle" fill="#f8fafc" fontSize={Math.min(13, width / 6)} fontWeight={700}>
+            {name}
+          </text>
+          <text x={x + width / 2} y={y + height / 2 + 13} textAnchor="middle" fill="#e2e8f0" fontSize={11}>
+            {pct > 0 ? '+' : ''}{pct}%
+          </text>
+        </>
+      )}
+    </g>
+  );
+};
+
+interface HeatmapProps {
+  items: { id: string; name: string; size: number; pct: number }[];
+  // 顏色達最深時的漲跌幅
+  scale: number;
+  height: number;
+  onSelect: (key: string) => void;
+}
+
+/**
+ * 面積依成交金額、顏色依漲跌幅的熱力圖
+ */
+const Heatmap = ({ items, scale, height, onSelect }: HeatmapProps) => (
+  <div style={{ height }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <Treemap
+        data={items.filter(i => i.size > 0)}
+        dataKey="size"
+        nameKey="name"
+        isAnimationActive={false}
+        content={<HeatTile scale={scale} />}
+        onClick={(node: TreemapNode) => typeof node?.id === 'string' && onSelect(node.id)}
+      />
+    </ResponsiveContainer>
+  </div>
+);
+
+const useSectorSnapshot = () => {
+  const [snapshot, setSnapshot] = useState<{ date: string; sectors: SectorSummary[] } | null>(null);
+  const [error, setError] = useState('');
+  useEffect(() => {
+    let cancelled = false;
+    fetchSectorSnapshot().then(result => {
+      if (cancelled) return;
+      if (result.status === 'success') setSnapshot(result.data);
+      else setError(describeFinMindError(result.error));
+    });
+    return () => { cancelled = true; };
+  }, []);
+  return { snapshot, error };
+};
+
+const sectorItems = (sectors: SectorSummary[]) =>
+  sectors.map(s => ({ id: s.industry, name: s.industry, size: s.turnover, pct: s.pct }));
+
+/**
+ * 首頁的產業熱力圖，點擊產業開啟產業頁
+ */
+export const SectorHeatmapCard = ({ onSelect }: { onSelect: (industry: string) => void }) => {
+  const { snapshot, error } = useSectorSnapshot();
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="text-slate-500 text-sm font-bold uppercase tracking-widest mb-4 flex items-center gap-2">
+        <LayoutGrid className="w-4 h-4 text-blue-500" /> 產業熱力圖{snapshot && <span className="normal-case tracking-normal text-xs font-medium">（{snapshot.date}，面積為成交金額）</span>}
+      </div>
+      {error ? <p className="text-red-400 text-xs font-bold">{error}</p>
+        : snapshot ? <Heatmap items={sectorItems(snapshot.sectors)} scale={3} height={320} onSelect={onSelect} />
+        : <div className="h-[320px] flex items-center justify-center text-slate-600"><Loader className="w-5 h-5 animate-spin" /></div>}
+    </div>
+  );
+};
+
+const SectorDrillDown = ({ sector, onSelectStock }: { sector: SectorSummary; onSelectStock: (stockId: string) => void }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+    <div className="flex flex-wrap items-baseline gap-4 mb-4">
+      <h3 className="text-white font-bold text-lg">{sector.industry}</h3>
+      <span className={`font-bold ${pctColor(sector.pct)}`}>{signedPct(sector.pct)}</span>
+      <span className="text-xs text-slate-500">
+        成交 {formatTurnover(sector.turnover)} · {sector.stocks.length} 檔 · 上漲 {sector.advancers} / 下跌 {sector.decliners}
+      </span>
+    </div>
+    <Heatmap
+      items={sector.stocks.map(s => ({ id: s.id, name: s.name, size: s.turnover, pct: s.pct }))}
+      scale={7}
+      height={300}
+      onSelect={onSelectStock}
+    />
+    <div className="mt-6 max-h-[360px] overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-slate-900">
+          <tr className="text-slate-500 border-b border-slate-800">
+            <th className="text-left py-2">代號</th>
+            <th className="text-left py-2">名稱</th>
+            <th className="text-left py-2">市場</th>
+            <th className="text-right py-2">收盤</th>
+            <th className="text-right py-2">漲跌%</th>
+            <th className="text-right py-2">成交金額</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sector.stocks.map(s => (
+            <tr key={s.id} onClick={() => onSelectStock(s.id)} className="border-b border-slate-800/50 hover:bg-slate-800/40 cursor-pointer">
+              <td className="py-2 font-mono text-slate-400">{s.id}</td>
+              <td className="py-2 text-white font-bold">{s.name}</td>
+              <td className="py-2 text-slate-500">{MARKET_LABELS[s.market] || s.market}</td>
+              <td className="py-2 text-right font-mono text-slate-300">{s.close}</td>
+              <td className={`py-2 text-right font-mono font-bold ${pctColor(s.pct)}`}>{signedPct(s.pct)}</td>
+              <td className="py-2 text-right font-mono text-slate-400">{formatTurnover(s.turnover)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+/**
+ * 產業輪動：x 軸為相對加權指數的報酬、y 軸為法人買賣超，四象限判讀資金流向
+ */
+const SectorRotation = ({ onSelect }: { onSelect: (industry: string) => void }) => {
+  const [rotation, setRotation] = useState<{ date: string; rows: SectorRotationRow[]; errors: string[] } | null>(null);
+  const [windowDays, setWindowDays] = useState(FLOW_WINDOWS[FLOW_WINDOWS.length - 1]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const budget = getRequestBudget();
+
+  const load = async () => {
+    setError('');
+    setProgress({ done: 0, total: 1 });
+    try {
+      setRotation(await fetchSectorRotation((done, total) => setProgress({ done, total })));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '產業輪動資料載入失敗');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const points = useMemo(() => (rotation?.rows || [])
+    .filter(r => r.performance[windowDays] !== null && r.flow[windowDays] !== null)
+    .map(r => ({ industry: r.industry, performance: r.performance[windowDays], flow: r.flow[windowDays] })), [rotation, windowDays]);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Compass className="w-5 h-5 text-purple-500" /> 產業輪動
+          {rotation && <span className="text-xs text-slate-500 font-medium">（截至 {rotation.date}）</span>}
+        </h3>
+        {rotation && (
+          <div className="flex gap-1 text-xs">
+            {FLOW_WINDOWS.map(w => (
+              <button
+                key={w}
+                onClick={() => setWindowDays(w)}
+                className={`px-3 py-1 rounded-lg font-bold transition ${windowDays === w ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+              >
+                {w} 日
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!rotation && (
+        <div className="text-center py-8">
+          <p className="text-xs text-slate-500 mb-4">
+            需逐日查詢近 {Math.max(...FLOW_WINDOWS)} 個交易日的全市場法人買賣超，首次載入最多送出 {ROTATION_REQUEST_COST} 次 FinMind 請求
+            （本小時已用 {budget.used} / {budget.limit} 次；已過交易日會長期快取，之後載入幾乎不需請求）。
+          </p>
+          {budget.limit - budget.used < ROTATION_REQUEST_COST && (
+            <p className="text-yellow-400 text-xs font-bold mb-3">本小時剩餘請求額度可能不足，部分日期可能無法取得。</p>
+          )}
+          <button
+            onClick={load}
+            disabled={!!progress}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-bold px-6 py-2 rounded-xl transition inline-flex items-center gap-2"
+          >
+            {progress ? <><Loader className="w-4 h-4 animate-spin" /> 載入中 {progress.done}/{progress.total}</> : '載入輪動分析'}
+          </button>
+          {error && <p className="text-red-400 text-xs font-bold mt-3">{error}</p>}
+        </div>
+      )}
+
+      {rotation && (
+        <>
+          {rotation.errors.length > 0 && (
+            <div className="mb-4 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20 text-yellow-400 text-xs">
+              <p className="font-bold mb-1">部分日期資料取得失敗，受影響區間不列出數值：</p>
+              {rotation.errors.map(e => <p key={e}>{e}</p>)}
+            </div>
+          )}
+          <div className="h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis type="number" dataKey="performance" name="相對報酬" unit="%" stroke="#475569" fontSize={10} />
+                <YAxis type="number" dataKey="flow" name="法人買賣超" unit="億" stroke="#475569" fontSize={10} width={60} />
+                <ZAxis range={[60, 60]} />
+                <ReferenceLine x={0} stroke="#475569" />
+                <ReferenceLine y={0} stroke="#475569" />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ strokeDasharray: '3 3' }} />
+                <Scatter data={points} fill="#3b82f6" onClick={(p: ScatterPointItem) => p?.payload?.industry && onSelect(p.payload.industry)} className="cursor-pointer">
+                  <LabelList dataKey="industry" position="top" fill="#94a3b8" fontSize={10} />
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[10px] text-slate-500 mt-2">
+            右上：強於大盤且法人買超；左下：弱於大盤且法人賣超。報酬為產業內個股等權平均減加權指數報酬（未還原除權息），法人金額以最新收盤估算。
+          </p>
+
+          <table className="w-full text-xs mt-6">
+            <thead>
+              <tr className="text-slate-500 border-b border-slate-800">
+                <th className="text-left py-2">產業</th>
+                {ROTATION_WINDOWS.map(w => <th key={w} className="text-right py-2">{w} 日相對報酬</th>)}
+                {FLOW_WINDOWS.map(w => <th key={`f${w}`} className="text-right py-2">{w} 日法人(億)</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {[...rotation.rows].sort((a, b) => (b.performance[windowDays] ?? -Infinity) - (a.performance[windowDays] ?? -Infinity)).map(r => (
+                <tr key={r.industry} onClick={() => onSelect(r.industry)} className="border-b border-slate-800/50 hover:bg-slate-800/40 cursor-pointer">
+                  <td className="py-2 text-white font-bold">{r.industry}</td>
+                  {ROTATION_WINDOWS.map(w => (
+                    <td key={w} className={`py-2 text-right font-mono ${pctColor(r.performance[w])}`}>{signedPct(r.performance[w])}</td>
+                  ))}
+                  {FLOW_WINDOWS.map(w => (
+                    <td key={`f${w}`} className={`py-2 text-right font-mono ${pctColor(r.flow[w])}`}>{r.flow[w] ?? '--'}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface SectorViewProps {
+  industry?: string;
+  onSelectIndustry: (industry: string | undefined) => void;
+  onSelectStock: (stockId: string) => void;
+}
+
+/**
+ * 產業頁：全市場熱力圖、單一產業個股展開與產業輪動
+ */
+export const SectorView = ({ industry, onSelectIndustry, onSelectStock }: SectorViewProps) => {
+  const { snapshot, error } = useSectorSnapshot();
+  const sector = snapshot?.sectors.find(s => s.industry === industry);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <LayoutGrid className="w-5 h-5 text-blue-500" /> 產業熱力圖
+            {snapshot && <span className="text-xs text-slate-500 font-medium">（{snapshot.date}，面積為成交金額、顏色為漲跌幅）</span>}
+          </h3>
+          {industry && (
+            <button onClick={() => onSelectIndustry(undefined)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1 transition">
+              <ArrowLeft className="w-3 h-3" /> 全部產業
+            </button>
+          )}
+        </div>
+        {error ? <p className="text-red-400 text-xs font-bold">{error}</p>
+          : snapshot ? <Heatmap items={sectorItems(snapshot.sectors)} scale={3} height={420} onSelect={onSelectIndustry} />
+          : <div className="h-[420px] flex items-center justify-center text-slate-600"><Loader className="w-5 h-5 animate-spin" /></div>}
+      </div>
+
+      {sector && <SectorDrillDown sector={sector} onSelectStock={onSelectStock} />}
+      {snapshot && industry && !sector && <p className="text-xs text-slate-500">查無產業「{industry}」的報價資料。</p>}
+
+      <SectorRotation onSelect={onSelectIndustry} />
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Settings, Cpu, Radio } from 'lucide-react';
+import { AIProviderId, AISettings, QuoteSourceId } from '../types';
+import { AI_PROVIDERS, describeProvider } from '../services/aiProviders';
+import { QUOTE_ADAPTERS } from '../services/quoteAdapters';
+
+const inputClass = 'bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-white text-sm w-full';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  quoteSource: QuoteSourceId;
+  onQuoteSourceChange: (source: QuoteSourceId) => void;
+}
+
+export const SettingsPanel = ({ settings, onChange, quoteSource, onQuoteSourceChange }: SettingsPanelProps) => {
+  const selectProvider = (id: AIProviderId) => {
+    onChange({ ...settings, provider: id, model: AI_PROVIDERS[id].defaultModel });
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl space-y-6">
+      <h3 className="text-white font-bold flex items-center gap-2">
+        <Settings className="w-5 h-5 text-blue-500" /> AI 分析設定
+      </h3>
+
+      <div>
+        <div className="text-[10px] text-slate-500 font-bold uppercase mb-2">分析引擎</div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {Object.values(AI_PROVIDERS).map(p => (
+            <button
+              key={p.id}
+              onClick={() => selectProvider(p.id)}
+              className={`flex items-center gap-2 p-4 rounded-xl border text-sm font-bold transition ${
+                settings.provider === p.id ? 'bg-blue-600/10 border-blue-500 text-white' : 'border-slate-800 text-slate-400 hover:text-white'
+              }`}
+            >
+              <Cpu className="w-4 h-4" /> {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <div>
+          <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">模型名稱</div>
+          <input className={inputClass} value={settings.model} onChange={(e) => onChange({ ...settings, model: e.target.value })} />
+        </div>
+      )}
+
+      {settings.provider === 'openai' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">API Base URL</div>
+            <input className={inputClass} value={settings.baseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })} />
+          </div>
+          <div>
+            <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">API Key（本地模型可留空）</div>
+            <input className={inputClass} type="password" value={settings.apiKey} onChange={(e) => onChange({ ...settings, apiKey: e.target.value })} />
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        目前使用：<span className="text-slate-300 font-bold">{describeProvider(settings)}</span>
+        {settings.provider === 'mock' && '。規則式模擬僅依技術指標與法人數據產生報告，不呼叫任何模型，適合離線開發與展示。'}
+        {settings.provider === 'gemini' && '。Gemini 模型需列於伺服器的 GEMINI_MODELS 允許清單。'}
+        {settings.provider === 'openai' && '。可連接 Ollama、LM Studio、vLLM 等任何提供 /chat/completions 的服務。'}
+      </p>
+
+      <div className="pt-6 border-t border-slate-800">
+        <div className="text-[10px] text-slate-500 font-bold uppercase mb-2">盤中報價來源</div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {Object.values(QUOTE_ADAPTERS).map(a => (
+            <button
+              key={a.id}
+              onClick={() => onQuoteSourceChange(a.id)}
+              className={`flex items-center gap-2 p-4 rounded-xl border text-sm font-bold transition ${
+                quoteSource === a.id ? 'bg-blue-600/10 border-blue-500 text-white' : 'border-slate-800 text-slate-400 hover:text-white'
+              }`}
+            >
+              <Radio className="w-4 h-4" /> {a.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-3">{QUOTE_ADAPTERS[quoteSource].description}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { SecurityKind, StockCandidate } from '../types';
+import { searchStocks } from '../services/finmind';
+import { SECURITY_KIND_LABELS, pickCandidate } from '../services/stockSearch';
+import { MARKET_LABELS } from '../services/screener';
+
+interface StockSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  // 傳入選定的代號；無候選時傳入原始輸入，由呼叫端驗證並顯示錯誤
+  onSubmit: (query: string) => void;
+}
+
+// 可切換顯示的證券類別（普通股一律顯示）
+const FILTER_KINDS: SecurityKind[] = ['etf', 'warrant', 'etn'];
+
+const KIND_TONES: Record<SecurityKind, string> = {
+  stock: 'bg-slate-800 text-slate-400',
+  etf: 'bg-blue-500/10 text-blue-400',
+  warrant: 'bg-purple-500/10 text-purple-400',
+  etn: 'bg-amber-500/10 text-amber-400'
+};
+
+/**
+ * 首頁搜尋框：輸入時列出排序後的候選，支援方向鍵選取與證券類別篩選
+ */
+export const StockSearch = ({ value, onChange, onSubmit }: StockSearchProps) => {
+  const [candidates, setCandidates] = useState<StockCandidate[]>([]);
+  const [highlight, setHighlight] = useState(-1);
+  const [open, setOpen] = useState(false);
+  const [ambiguous, setAmbiguous] = useState(false);
+  // 預設顯示 ETF，權證與 ETN 數量龐大且少有人查詢，預設隱藏
+  const [hidden, setHidden] = useState<SecurityKind[]>(['warrant', 'etn']);
+
+  useEffect(() => {
+    if (!value.trim()) {
+      setCandidates([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const list = await searchStocks(value, hidden);
+      if (cancelled) return;
+      setCandidates(list);
+      setHighlight(-1);
+      setAmbiguous(false);
+    }, 120);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, hidden]);
+
+  const select = (candidate: StockCandidate) => {
+    setOpen(false);
+    onChange(candidate.id);
+    onSubmit(candidate.id);
+  };
+
+  const submit = async () => {
+    if (highlight >= 0 && candidates[highlight]) return select(candidates[highlight]);
+    // 清單有延遲更新，送出時以目前輸入重新排序，避免採用前一次輸入的候選
+    const latest = await searchStocks(value, hidden);
+    setCandidates(latest);
+    setHighlight(-1);
+    if (latest.length === 0) {
+      setOpen(false);
+      return onSubmit(value);
+    }
+    // 完全相符或只有一檔時直接採用，否則要求使用者從清單選擇
+    const picked = pickCandidate(latest);
+    if (picked) return select(picked);
+    setOpen(true);
+    setAmbiguous(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (candidates.length === 0) return;
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight(h => (h + step + candidates.length) % candidates.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setHighlight(-1);
+    }
+  };
+
+  const toggleKind = (kind: SecurityKind) =>
+    setHidden(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+
+  const showList = open && value.trim() !== '';
+
+  return (
+    <div className="relative">
+      <div className="flex items-center bg-slate-900 border border-slate-800 rounded-2xl p-2 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all shadow-2xl">
+        <Search className="w-6 h-6 text-slate-500 ml-4 mr-3" />
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={showList}
+          aria-autocomplete="list"
+          placeholder="輸入名稱或代號 (如: 台積電, 2330)"
+          className="bg-transparent border-none outline-none w-full text-lg py-2 placeholder-slate-600 text-white"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+            setHighlight(-1);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+        <button
+          onClick={submit}
+          className="bg-blue-600 hover:bg-blue-500 text-white font-bold px-8 py-3 rounded-xl transition shadow-lg shadow-blue-500/20 shrink-0"
+        >
+          AI 深度分析
+        </button>
+      </div>
+
+      {showList && (
+        <div className="absolute z-30 left-0 right-0 mt-2 bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl overflow-hidden">
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-800 text-xs">
+            <span className="text-slate-500">顯示</span>
+            {FILTER_KINDS.map(kind => (
+              <button
+                key={kind}
+                // 以 onMouseDown 阻止輸入框失焦，讓清單保持開啟
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  toggleKind(kind);
+                }}
+                className={`px-2 py-0.5 rounded-md border transition ${hidden.includes(kind) ? 'border-slate-700 text-slate-500' : 'border-blue-500/40 bg-blue-500/10 text-blue-400'}`}
+              >
+                {SECURITY_KIND_LABELS[kind]}
+              </button>
+            ))}
+            {ambiguous && <span className="ml-auto text-yellow-400 font-semibold">符合多檔，請選擇</span>}
+          </div>
+          {candidates.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500">沒有符合的股票</p>
+          ) : (
+            <ul role="listbox">
+              {candidates.map((c, i) => (
+                <li
+                  key={c.id}
+                  role="option"
+                  aria-selected={i === highlight}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    select(c);
+                  }}
+                  onMouseEnter={() => setHighlight(i)}
+                  className={`flex items-center gap-3 px-4 py-2.5 cursor-pointer ${i === highlight ? 'bg-blue-500/10' : ''}`}
+                >
+                  <span className="font-mono text-sm text-slate-400 w-16">{c.id}</span>
+                  <span className="text-white font-semibold flex-1 truncate">{c.name}</span>
+                  <span className="text-xs text-slate-500 truncate">{MARKET_LABELS[c.market] || c.market} · {c.industry || '—'}</span>
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${KIND_TONES[c.kind]}`}>{SECURITY_KIND_LABELS[c.kind]}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart2, Loader } from 'lucide-react';
+import {
+  ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell, Brush
+} from 'recharts';
+import { computeIndicators } from '../services/indicators';
+import { describeFinMindError, fetchCorporateActions, fetchPriceHistory } from '../services/finmind';
+import { adjustHistory } from '../services/adjustedPrices';
+import {
+  CANDLE_INTERVALS, CandleInterval, RANGE_PRESETS, RangePreset, aggregateBars, bucketKey, fetchStart, rangeStart
+} from '../services/timeframes';
+import { CorporateAction, CorporateActionKind, PriceBar } from '../types';
+
+type Overlay = 'ma5' | 'ma20' | 'ma60' | 'boll';
+type SubPanel = 'kd' | 'macd' | 'rsi';
+
+const OVERLAYS: { key: Overlay; label: string; color: string }[] = [
+  { key: 'ma5', label: 'MA5', color: '#f59e0b' },
+  { key: 'ma20', label: 'MA20', color: '#a855f7' },
+  { key: 'ma60', label: 'MA60', color: '#06b6d4' },
+  { key: 'boll', label: '布林通道', color: '#64748b' }
+];
+
+const SUB_PANELS: { key: SubPanel; label: string }[] = [
+  { key: 'kd', label: 'KD' },
+  { key: 'macd', label: 'MACD' },
+  { key: 'rsi', label: 'RSI' }
+];
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '12px' };
+
+export const CustomCandle = (props: any) => {
+  const { x, y, width, height, payload, yAxis } = props;
+  if (!yAxis || !yAxis.scale || !payload) return null;
+  const isUp = payload.close >= payload.open;
+  const color = isUp ? '#ef4444' : '#22c55e';
+  const yHigh = yAxis.scale(payload.max || payload.high || payload.price);
+  const yLow = yAxis.scale(payload.min || payload.low || payload.price);
+  const yOpen = yAxis.scale(payload.open);
+  const yClose = yAxis.scale(payload.close);
+  const candleHeight = Math.max(Math.abs(yOpen - yClose), 2);
+  const candleY = Math.min(yOpen, yClose);
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} y1={yHigh} x2={centerX} y2={yLow} stroke={color} strokeWidth={1} />
+      <rect x={x + 2} y={candleY} width={Math.max(width - 4, 1)} height={candleHeight} fill={color} />
+    </g>
+  );
+};
+
+interface TechnicalChartProps {
+  stockId: string;
+  // 分析時取得的近期原始日 K 與除權息 / 減資事件，長區間時另行補抓
+  history: PriceBar[];
+  actions: CorporateAction[];
+  // 區間與 K 線週期由網址參數控制，變更時回報給上層
+  range: RangePreset;
+  interval: CandleInterval;
+  onTimeframeChange: (range: RangePreset, interval: CandleInterval) => void;
+}
+
+type BrushWindow = { startIndex: number; endIndex: number };
+type PriceMode = 'adjusted' | 'raw';
+
+const ACTION_MARKS: Record<CorporateActionKind, { short: string; color: string }> = {
+  dividend: { short: '息', color: '#eab308' },
+  rights: { short: '權', color: '#f97316' },
+  reduction: { short: '減', color: '#a855f7' }
+};
+
+/**
+ * 與近期日 K 合併：長期資料的當年度段可能是較早的快取，以近期資料補齊最新交易日
+ */
+const mergeHistory = (older: PriceBar[], recent: PriceBar[]) => {
+  const last = older[older.length - 1]?.date ?? '';
+  return [...older, ...recent.filter(b => b.date > last)];
+};
+
+const mergeActions = (older: CorporateAction[], recent: CorporateAction[]) => {
+  const seen = new Set(older.map(a => `${a.date}:${a.kind}`));
+  return [...older, ...recent.filter(a => !seen.has(`${a.date}:${a.kind}`))].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const TechnicalChart = ({
+  stockId, history, actions, range, interval: candleInterval, onTimeframeChange
+}: TechnicalChartProps) => {
+  const [overlays, setOverlays] = useState<Overlay[]>(['ma5', 'ma20']);
+  const [subPanel, setSubPanel] = useState<SubPanel | null>('kd');
+  const [priceMode, setPriceMode] = useState<PriceMode>('adjusted');
+  const [extended, setExtended] = useState<{ bars: PriceBar[]; actions: CorporateAction[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [brush, setBrush] = useState<BrushWindow | null>(null);
+
+  const lastDate = history[history.length - 1]?.date ?? '';
+  const needStart = lastDate ? fetchStart(lastDate, range, candleInterval) : '';
+
+  useEffect(() => {
+    setExtended(null);
+    setError('');
+  }, [stockId]);
+
+  // 所需區間超出已取得的資料時才補抓（依年度快取）
+  useEffect(() => {
+    const covered = (bars: PriceBar[] | undefined) => !!bars && bars.length > 0 && bars[0].date <= needStart;
+    if (!needStart || covered(history) || covered(extended?.bars)) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([fetchPriceHistory(stockId, needStart), fetchCorporateActions(stockId, needStart)]).then(([prices, events]) => {
+      if (cancelled) return;
+      setLoading(false);
+      if (prices.status === 'success') {
+        setExtended({ bars: prices.data, actions: events.status === 'success' ? events.data : [] });
+        setError('');
+      } else {
+        setError(describeFinMindError(prices.error));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [stockId, needStart, history, extended]);
+
+  // 補抓的長期資料於每次近期資料更新時重新合併，避免沿用舊的近期日 K
+  const merged = useMemo(() => extended && {
+    bars: mergeHistory(extended.bars, history),
+    actions: mergeActions(extended.actions, actions)
+  }, [extended, history, actions]);
+
+  const useExtended = !!merged && merged.bars[0].date < history[0]?.date;
+  const rawSource = useExtended ? merged.bars : history;
+  const sourceActions = useExtended ? merged.actions : actions;
+
+  // 指標以完整歷史（含暖機區間）計算，再截取顯示區間，避免長週期均線在圖表起點缺值
+  const chartData = useMemo(() => {
+    const daily = priceMode === 'adjusted' ? adjustHistory(rawSource, sourceActions) : rawSource;
+    const bars = aggregateBars(daily, candleInterval);
+    const indicators = computeIndicators(bars);
+    const start = lastDate ? rangeStart(lastDate, range) : '';
+    return bars.map((d, i) => ({
+      ...indicators[i],
+      date: d.date,
+      open: d.open,
+      close: d.close,
+      max: d.max,
+      min: d.min,
+      volume: Math.round(d.Trading_Volume / 1000)
+    })).filter(d => d.date >= start);
+  }, [rawSource, sourceActions, priceMode, candleInterval, range, lastDate]);
+
+  // 事件標在事件日所在的 K 棒（週 / 月 K 為該期）；早於第一根 K 棒所屬期別的事件不在圖表範圍內
+  const markers = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const firstBucket = bucketKey(chartData[0].date, candleInterval);
+    return sourceActions.flatMap(action => {
+      if (action.date < chartData[0].date && bucketKey(action.date, candleInterval) !== firstBucket) return [];
+      const bar = chartData.find(d => d.date >= action.date);
+      return bar ? [{ date: bar.date, action }] : [];
+    });
+  }, [sourceActions, chartData, candleInterval]);
+
+  useEffect(() => { setBrush(null); }, [chartData]);
+
+  const visible = brush ? chartData.slice(brush.startIndex, brush.endIndex + 1) : chartData;
+  const longRange = RANGE_PRESETS.find(r => r.key === range)!.months > 12;
+  const formatDate = (d: string) => longRange ? d.slice(0, 7) : d.slice(5);
+
+  const toggleOverlay = (key: Overlay) => {
+    setOverlays(prev => prev.includes(key) ? prev.filter(o => o !== key) : [...prev, key]);
+  };
+
+  const selectRange = (key: RangePreset) => onTimeframeChange(key, RANGE_PRESETS.find(r => r.key === key)!.interval);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <BarChart2 className="w-5 h-5 text-blue-500" /> 技術走勢
+          {loading && <Loader className="w-4 h-4 text-slate-500 animate-spin" />}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {OVERLAYS.map(o => (
+            <button
+              key={o.key}
+              onClick={() => toggleOverlay(o.key)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition ${
+                overlays.includes(o.key) ? 'border-slate-600 text-slate-200 bg-slate-800' : 'border-slate-800 text-slate-500'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: o.color }}></span> {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6 text-xs">
+        <div className="flex gap-1">
+          {RANGE_PRESETS.map(r => (
+            <button
+              key={r.key}
+              onClick={() => selectRange(r.key)}
+              className={`px-3 py-1 rounded-lg font-bold transition ${range === r.key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {r.key}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {([['adjusted', '還原'], ['raw', '原始']] as [PriceMode, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setPriceMode(key)}
+              className={`px-3 py-1 rounded-lg font-bold transition ${priceMode === key ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+          <span className="w-px bg-slate-800 mx-1"></span>
+          {CANDLE_INTERVALS.map(c => (
+            <button
+              key={c.key}
+              onClick={() => onTimeframeChange(range, c.key)}
+              className={`px-3 py-1 rounded-lg font-bold transition ${candleInterval === c.key ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-red-400 text-xs font-bold mb-2">長區間資料載入失敗：{error}（目前顯示近期資料）</p>}
+      {markers.length > 0 && (
+        <div className="flex flex-wrap gap-3 mb-2 text-[10px] text-slate-500">
+          {markers.map(m => (
+            <span key={`${m.action.date}-${m.action.kind}`}>
+              <span className="font-bold" style={{ color: ACTION_MARKS[m.action.kind].color }}>{ACTION_MARKS[m.action.kind].short}</span>
+              {' '}{m.action.date} {m.action.label}（{m.action.before} → {m.action.after}）
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="h-[400px]" data-export="price-chart">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={visible} syncId="technical">
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="date" stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} tickFormatter={formatDate} minTickGap={20} />
+            <YAxis domain={['auto', 'auto']} stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Bar dataKey="close" name="收盤價" shape={<CustomCandle />} />
+            {overlays.includes('boll') && (
+              <>
+                <Line type="monotone" dataKey="bbUpper" name="布林上軌" stroke="#64748b" strokeDasharray="4 4" dot={false} connectNulls />
+                <Line type="monotone" dataKey="bbMiddle" name="布林中軌" stroke="#64748b" dot={false} connectNulls />
+                <Line type="monotone" dataKey="bbLower" name="布林下軌" stroke="#64748b" strokeDasharray="4 4" dot={false} connectNulls />
+              </>
+            )}
+            {OVERLAYS.filter(o => o.key !== 'boll' && overlays.includes(o.key)).map(o => (
+              <Line key={o.key} type="monotone" dataKey={o.key} name={o.label} stroke={o.color} strokeWidth={1.5} dot={false} connectNulls />
+            ))}
+            {markers.filter(m => visible.some(d => d.date === m.date)).map(m => (
+              <ReferenceLine
+                key={`${m.action.date}-${m.action.kind}`}
+                x={m.date}
+                stroke={ACTION_MARKS[m.action.kind].color}
+                strokeDasharray="2 4"
+                label={{ value: ACTION_MARKS[m.action.kind].short, position: 'insideTopLeft', fill: ACTION_MARKS[m.action.kind].color, fontSize: 10 }}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-[90px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={visible} syncId="technical">
+            <XAxis dataKey="date" hide />
+            <YAxis stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" width={60} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(v: number) => `${v.toLocaleString()} 張`} />
+            <Bar dataKey="volume" name="成交量">
+              {visible.map((d, i) => (
+                <Cell key={i} fill={d.close >= d.open ? '#ef4444' : '#22c55e'} opacity={0.6} />
+              ))}
+            </Bar>
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {chartData.length > 1 && (
+        <div className="h-[50px] mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <Brush
+                dataKey="date"
+                height={40}
+                stroke="#334155"
+                fill="#020617"
+                travellerWidth={8}
+                tickFormatter={formatDate}
+                startIndex={brush?.startIndex ?? 0}
+                endIndex={brush?.endIndex ?? chartData.length - 1}
+                onChange={({ startIndex, endIndex }) => setBrush({ startIndex, endIndex })}
+              >
+                <ComposedChart>
+                  <Line type="monotone" dataKey="close" stroke="#3b82f6" dot={false} />
+                </ComposedChart>
+              </Brush>
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-6 mb-2 text-xs">
+        {SUB_PANELS.map(p => (
+          <button
+            key={p.key}
+            onClick={() => setSubPanel(subPanel === p.key ? null : p.key)}
+            className={`px-3 py-1 rounded-lg font-bold transition ${
+              subPanel === p.key ? 'bg-blue-600 text-white' : 'bg-slate-950 text-slate-500 border border-slate-800'
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {subPanel && (
+        <div className="h-[140px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visible} syncId="technical">
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+              <XAxis dataKey="date" hide />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              {subPanel === 'kd' && (
+                <>
+                  <YAxis domain={[0, 100]} ticks={[20, 50, 80]} stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" />
+                  <ReferenceLine y={80} stroke="#7f1d1d" strokeDasharray="3 3" />
+                  <ReferenceLine y={20} stroke="#14532d" strokeDasharray="3 3" />
+                  <Line type="monotone" dataKey="k" name="K" stroke="#f59e0b" dot={false} connectNulls />
+                  <Line type="monotone" dataKey="d" name="D" stroke="#3b82f6" dot={false} connectNulls />
+                </>
+              )}
+              {subPanel === 'macd' && (
+                <>
+                  <YAxis domain={['auto', 'auto']} stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" />
+                  <ReferenceLine y={0} stroke="#334155" />
+                  <Bar dataKey="osc" name="OSC">
+                    {visible.map((d, i) => (
+                      <Cell key={i} fill={(d.osc ?? 0) >= 0 ? '#ef4444' : '#22c55e'} />
+                    ))}
+                  </Bar>
+                  <Line type="monotone" dataKey="dif" name="DIF" stroke="#f59e0b" dot={false} connectNulls />
+                  <Line type="monotone" dataKey="macd" name="MACD" stroke="#3b82f6" dot={false} connectNulls />
+                </>
+              )}
+              {subPanel === 'rsi' && (
+                <>
+                  <YAxis domain={[0, 100]} ticks={[30, 50, 70]} stroke="#475569" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} orientation="right" />
+                  <ReferenceLine y={70} stroke="#7f1d1d" strokeDasharray="3 3" />
+                  <ReferenceLine y={30} stroke="#14532d" strokeDasharray="3 3" />
+                  <Line type="monotone" dataKey="rsi" name="RSI(14)" stroke="#a855f7" dot={false} connectNulls />
+                </>
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Plus, X, Pencil, Trash2, Star } from 'lucide-react';
+import { StockInfo, Watchlist } from '../types';
+import { resolveStockId } from '../services/finmind';
+import {
+  addToWatchlist, createWatchlist, deleteWatchlist, removeFromWatchlist, renameWatchlist
+} from '../services/watchlist';
+
+interface WatchlistsProps {
+  watchlists: Watchlist[];
+  activeId: string;
+  quotes: Record<string, StockInfo>;
+  onChange: (lists: Watchlist[]) => void;
+  onActivate: (id: string) => void;
+  onSelect: (stockId: string) => void;
+}
+
+export const Watchlists = ({ watchlists, activeId, quotes, onChange, onActivate, onSelect }: WatchlistsProps) => {
+  const [newStock, setNewStock] = useState('');
+  const [error, setError] = useState('');
+  const active = watchlists.find(l => l.id === activeId) || watchlists[0];
+
+  const handleAdd = async () => {
+    if (!newStock.trim() || !active) return;
+    setError('');
+    const resolved = await resolveStockId(newStock);
+    if (resolved.status === 'error') {
+      setError(resolved.message);
+      return;
+    }
+    const { stockId } = resolved;
+    onChange(addToWatchlist(watchlists, active.id, stockId));
+    setNewStock('');
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('新清單名稱');
+    if (!name) return;
+    const lists = createWatchlist(watchlists, name);
+    onChange(lists);
+    onActivate(lists[lists.length - 1].id);
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('重新命名清單', active.name);
+    if (name) onChange(renameWatchlist(watchlists, active.id, name));
+  };
+
+  const handleDelete = () => {
+    if (watchlists.length <= 1 || !window.confirm(`確定刪除「${active.name}」？`)) return;
+    const lists = deleteWatchlist(watchlists, active.id);
+    onChange(lists);
+    onActivate(lists[0].id);
+  };
+
+  if (!active) return null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {watchlists.map(l => (
+          <button
+            key={l.id}
+            onClick={() => onActivate(l.id)}
+            className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-xs font-bold transition ${
+              l.id === active.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 border border-slate-800 hover:text-white'
+            }`}
+          >
+            <Star className="w-3 h-3" /> {l.name}
+            <span className="opacity-60">{l.stockIds.length}</span>
+          </button>
+        ))}
+        <button onClick={handleCreate} className="p-1.5 rounded-full text-slate-500 hover:text-white border border-slate-800" title="新增清單">
+          <Plus className="w-4 h-4" />
+        </button>
+        <div className="flex-1"></div>
+        <button onClick={handleRename} className="p-1.5 text-slate-500 hover:text-white" title="重新命名">
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button onClick={handleDelete} disabled={watchlists.length <= 1} className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-30" title="刪除清單">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-6">
+        <input
+          type="text"
+          placeholder="加入個股 (名稱或代號)"
+          className="bg-slate-900 border border-slate-800 rounded-xl px-4 py-2 text-sm text-white placeholder-slate-600 outline-none focus:border-blue-500 w-64"
+          value={newStock}
+          onChange={(e) => setNewStock(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <button onClick={handleAdd} className="bg-slate-800 hover:bg-slate-700 text-white text-sm font-bold px-4 py-2 rounded-xl transition">加入</button>
+        {error && <span className="text-red-400 text-xs font-bold">{error}</span>}
+      </div>
+
+      {active.stockIds.length === 0 ? (
+        <p className="text-slate-600 text-sm">此清單尚無個股。</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {active.stockIds.map(id => {
+            const stock = quotes[id];
+            return (
+              <div key={id} className="relative group">
+                <button onClick={() => onSelect(id)} className="w-full bg-slate-900/40 border border-slate-800 hover:border-blue-500/30 p-5 rounded-2xl flex items-center justify-between transition-all">
+                  <div className="flex items-center gap-3 overflow-hidden">
+                    <div className="w-12 h-12 bg-slate-800 rounded-xl flex-shrink-0 flex items-center justify-center font-bold text-slate-400 group-hover:bg-blue-600 group-hover:text-white transition-colors">
+                      {stock?.name ? stock.name.charAt(0) : id.charAt(0)}
+                    </div>
+                    <div className="text-left">
+                      <div className="font-bold text-white group-hover:text-blue-400 transition-colors truncate max-w-[120px]">{stock?.name || id}</div>
+                      <div className="text-xs text-slate-500 font-mono">{id}</div>
+                    </div>
+                  </div>
+                  {stock ? (
+                    <div className="text-right flex-shrink-0">
+                      <div className={`font-bold font-mono text-lg ${stock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{stock.price}</div>
+                      <div className={`text-xs font-bold ${stock.change >= 0 ? 'text-red-400' : 'text-green-400'}`}>{stock.pct}%</div>
+                    </div>
+                  ) : <div className="text-xs text-slate-600">載入中...</div>}
+                </button>
+                <button
+                  onClick={() => onChange(removeFromWatchlist(watchlists, active.id, id))}
+                  className="absolute -top-2 -right-2 p-1 rounded-full bg-slate-800 text-slate-400 hover:text-white opacity-0 group-hover:opacity-100 transition"
+                  title="移出清單"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
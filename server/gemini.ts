@@ -0,0 +1,126 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { buildAnalysisPrompt, buildChatSystemPrompt, buildComparisonPrompt } from "../services/prompts";
+import { parseModelJson } from "../services/analysisValidator";
+import { DEFAULT_GEMINI_MODEL } from "../services/gemini";
+import { AnalysisContext, ChatContext, ChatMessage, ComparisonAnalysis, ComparisonMetrics } from "../types";
+
+// 金鑰只存在於伺服器端環境變數，不會被打包進前端
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!process.env.GEMINI_API_KEY) throw new Error('伺服器未設定 GEMINI_API_KEY');
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
+
+export const generateAnalysis = async (
+  context: AnalysisContext,
+  model = DEFAULT_GEMINI_MODEL,
+  correction = ''
+): Promise<unknown> => {
+  const prompt = buildAnalysisPrompt(context, correction);
+
+  try {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            financial: { type: Type.STRING },
+            institutional: { type: Type.STRING },
+            leverage: { type: Type.STRING },
+            prediction: {
+              type: Type.OBJECT,
+              properties: {
+                days: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      date: { type: Type.STRING },
+                      price: { type: Type.NUMBER },
+                      low: { type: Type.NUMBER },
+                      high: { type: Type.NUMBER }
+                    }
+                  }
+                }
+              }
+            },
+            score: { type: Type.NUMBER }
+          },
+          required: ["summary", "financial", "institutional", "leverage", "prediction", "score"]
+        }
+      }
+    });
+
+    // 截斷或格式錯誤的回覆交由前端驗證並重試
+    return parseModelJson(response.text);
+  } catch (error) {
+    console.error("Gemini Analysis Failed:", error);
+    throw error;
+  }
+};
+
+export const generateComparison = async (metrics: ComparisonMetrics[], model = DEFAULT_GEMINI_MODEL): Promise<ComparisonAnalysis> => {
+  const prompt = buildComparisonPrompt(metrics);
+
+  try {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            ranking: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  rank: { type: Type.NUMBER },
+                  reason: { type: Type.STRING }
+                }
+              }
+            }
+          },
+          required: ["summary", "ranking"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  } catch (error) {
+    console.error("Gemini Comparison Failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * 追問對話：逐段回傳模型輸出，由呼叫端寫入串流回應
+ */
+export const streamChat = async (
+  context: ChatContext,
+  messages: ChatMessage[],
+  onChunk: (text: string) => void,
+  model = DEFAULT_GEMINI_MODEL
+): Promise<void> => {
+  try {
+    const stream = await getClient().models.generateContentStream({
+      model,
+      contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      config: { systemInstruction: buildChatSystemPrompt(context) }
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) onChunk(chunk.text);
+    }
+  } catch (error) {
+    console.error("Gemini Chat Failed:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,216 @@
+import http from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { generateAnalysis, generateComparison, streamChat } from './gemini';
+import { createRateLimiter } from './rateLimiter';
+import { DEFAULT_GEMINI_MODEL } from '../services/gemini';
+import { ChatMessage } from '../types';
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.API_PORT || 8787);
+const FINMIND_API_BASE = "https://api.finmindtrade.com/api/v4";
+// 允許轉送的 FinMind 端點（/api/finmind 對應通用的 /data）
+const FINMIND_ENDPOINTS = new Set(['data', 'taiwan_stock_trading_daily_report']);
+const DIST_DIR = path.resolve('dist');
+const MAX_BODY_BYTES = 1024 * 1024;
+// 追問只送出最近的對話輪次，避免上下文無限增長
+const CHAT_MAX_MESSAGES = 20;
+// 用戶端可指定的 Gemini 模型（GEMINI_MODELS 以逗號分隔覆寫），避免以伺服器的金鑰呼叫任意模型
+const ALLOWED_MODELS = new Set(
+  (process.env.GEMINI_MODELS || DEFAULT_GEMINI_MODEL).split(',').map(m => m.trim()).filter(Boolean)
+);
+
+// AI 分析成本高，限制較嚴；FinMind 代理需容納選股器的批次請求
+const aiLimiter = createRateLimiter(Number(process.env.AI_RATE_LIMIT || 10), 60 * 1000);
+const finmindLimiter = createRateLimiter(Number(process.env.FINMIND_RATE_LIMIT || 120), 60 * 1000);
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * 驗證對話內容並只保留最近的輪次；截斷後從第一則使用者發言開始，最後一則須為使用者提問
+ */
+const recentChatMessages = (messages: any[]): ChatMessage[] => {
+  const valid = messages.every(m => !!m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string');
+  if (!valid) throw new HttpError(400, '對話內容格式不正確');
+  const recent: ChatMessage[] = messages.slice(-CHAT_MAX_MESSAGES)
+    .map(m => ({ role: m.role, content: m.content, time: typeof m.time === 'string' ? m.time : '' }));
+  const firstUser = recent.findIndex(m => m.role === 'user');
+  if (firstUser < 0 || recent[recent.length - 1].role !== 'user') throw new HttpError(400, '對話須以使用者提問結尾');
+  return recent.slice(firstUser);
+};
+
+/**
+ * 檢查用戶端指定的模型；未指定時由 server/gemini.ts 使用預設模型
+ */
+const allowedModel = (model: unknown): string | undefined => {
+  if (model === undefined || model === null || model === '') return undefined;
+  if (typeof model !== 'string' || !ALLOWED_MODELS.has(model)) {
+    throw new HttpError(400, `不支援的模型，可用模型：${[...ALLOWED_MODELS].join('、')}`);
+  }
+  return model;
+};
+
+// 僅在部署於反向代理之後時信任 X-Forwarded-For，否則用戶端可任意偽造來繞過限流
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+const clientKey = (req: http.IncomingMessage) => {
+  const forwarded = TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: http.IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, '請求內容過大');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch (e) {
+    throw new HttpError(400, '請求內容不是有效的 JSON');
+  }
+};
+
+const enforceLimit = (limiter: ReturnType<typeof createRateLimiter>, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const retryAfter = limiter.hit(clientKey(req));
+  if (retryAfter > 0) {
+    res.setHeader('Retry-After', String(retryAfter));
+    throw new HttpError(429, `請求過於頻繁（每分鐘上限 ${limiter.limit} 次），請 ${retryAfter} 秒後再試`);
+  }
+};
+
+/**
+ * 轉送 FinMind 查詢並由伺服器附上 Token，回應原樣回傳（狀態碼與 JSON 內容）
+ */
+const proxyFinMind = async (url: URL, res: http.ServerResponse) => {
+  const endpoint = url.pathname.replace(/^\/api\/finmind\/?/, '') || 'data';
+  if (!FINMIND_ENDPOINTS.has(endpoint)) throw new HttpError(404, '找不到 API 端點');
+  if (endpoint === 'data' && !url.searchParams.get('dataset')) throw new HttpError(400, '缺少 dataset 參數');
+  const token = process.env.FINMIND_TOKEN;
+  const upstream = await fetch(`${FINMIND_API_BASE}/${endpoint}?${url.searchParams}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+  res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+/**
+ * 提供 vite build 的輸出；找不到檔案時回傳 index.html 讓前端路由處理
+ */
+const serveStatic = async (url: URL, res: http.ServerResponse) => {
+  if (!existsSync(DIST_DIR)) throw new HttpError(404, '找不到資源');
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.pathname);
+  } catch (e) {
+    throw new HttpError(400, '網址格式不正確');
+  }
+  const requested = path.resolve(DIST_DIR, `.${pathname}`);
+  // 以相對路徑判斷是否位於 dist 內，前綴比對會讓 dist-old 之類的相鄰目錄通過
+  const relative = path.relative(DIST_DIR, requested);
+  const insideDist = !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  const file = insideDist && path.extname(requested) && existsSync(requested)
+    ? requested
+    : path.join(DIST_DIR, 'index.html');
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  res.end(await readFile(file));
+};
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'POST' && url.pathname === '/api/analysis') {
+    enforceLimit(aiLimiter, req, res);
+    const { context, model, correction } = await readJsonBody(req);
+    if (!context?.stock?.id || !Array.isArray(context.stock.history)) throw new HttpError(400, '缺少個股資料');
+    const analysis = await generateAnalysis(
+      {
+        stock: context.stock,
+        institutional: context.institutional ?? null,
+        branches: context.branches ?? null,
+        margin: context.margin ?? null,
+        fundamentals: context.fundamentals ?? null
+      },
+      allowedModel(model),
+      typeof correction === 'string' ? correction : ''
+    );
+    return sendJson(res, 200, { analysis });
+  }
+  if (req.method === 'POST' && url.pathname === '/api/compare') {
+    enforceLimit(aiLimiter, req, res);
+    const { metrics, model } = await readJsonBody(req);
+    if (!Array.isArray(metrics) || metrics.length === 0) throw new HttpError(400, '缺少比較資料');
+    return sendJson(res, 200, await generateComparison(metrics, allowedModel(model)));
+  }
+  if (req.method === 'POST' && url.pathname === '/api/chat') {
+    enforceLimit(aiLimiter, req, res);
+    const { context, messages, model } = await readJsonBody(req);
+    if (!context?.stock?.id || !context.analysis) throw new HttpError(400, '缺少個股資料或分析報告');
+    if (!Array.isArray(messages) || messages.length === 0) throw new HttpError(400, '缺少對話內容');
+    const history = recentChatMessages(messages);
+    const chatModel = allowedModel(model);
+    // 首段輸出前的錯誤仍以 JSON 回應；開始串流後發生錯誤則直接結束回應
+    let started = false;
+    await streamChat(context, history, text => {
+      if (!started) {
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+        started = true;
+      }
+      res.write(text);
+    }, chatModel);
+    if (!started) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    return res.end();
+  }
+  if (req.method === 'GET' && (url.pathname === '/api/finmind' || url.pathname.startsWith('/api/finmind/'))) {
+    enforceLimit(finmindLimiter, req, res);
+    return proxyFinMind(url, res);
+  }
+  if (url.pathname.startsWith('/api/')) throw new HttpError(404, '找不到 API 端點');
+  if (req.method === 'GET') return serveStatic(url, res);
+  throw new HttpError(405, '不支援的請求方法');
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  res.on('finish', () => {
+    console.log(`${new Date().toISOString()} ${clientKey(req)} ${req.method} ${req.url} ${res.statusCode} ${Date.now() - started}ms`);
+  });
+
+  try {
+    await route(req, res);
+  } catch (e) {
+    const status = e instanceof HttpError ? e.status : 500;
+    if (status === 500) console.error('Request Failed:', e);
+    if (!res.headersSent) sendJson(res, status, { error: e instanceof Error ? e.message : '伺服器錯誤' });
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+  if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY 未設定，/api/analysis 與 /api/compare 將回傳錯誤');
+});
@@ -0,0 +1,33 @@
+/**
+ * 以滑動視窗計算的每用戶端請求限制（記憶體內，單一伺服器程序適用）
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (key: string, now: number) => {
+    const recent = (hits.get(key) || []).filter(t => now - t < windowMs);
+    if (recent.length > 0) hits.set(key, recent);
+    else hits.delete(key);
+    return recent;
+  };
+
+  // 定期清掉閒置用戶端，避免 Map 無限成長
+  setInterval(() => {
+    const now = Date.now();
+    [...hits.keys()].forEach(key => prune(key, now));
+  }, windowMs).unref();
+
+  return {
+    limit,
+    /**
+     * 記錄一次請求；超過上限時回傳需等待的秒數，否則回傳 0
+     */
+    hit(key: string): number {
+      const now = Date.now();
+      const recent = prune(key, now);
+      if (recent.length >= limit) return Math.ceil((windowMs - (now - recent[0])) / 1000);
+      hits.set(key, [...recent, now]);
+      return 0;
+    }
+  };
+};
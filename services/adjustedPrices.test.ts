@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { adjustHistory, toCorporateActions } from './adjustedPrices';
+import { CorporateAction, PriceBar } from '../types';
+
+const bar = (date: string, close: number): PriceBar => ({
+  date, stock_id: '2330', Trading_Volume: 1000, Trading_money: close * 1000,
+  open: close, max: close, min: close, close, spread: 0, Trading_turnover: 1
+});
+
+const action = (date: string, before: number, after: number): CorporateAction =>
+  ({ date, kind: 'dividend', label: '除息', before, after, factor: after / before });
+
+describe('toCorporateActions', () => {
+  it('merges dividends and capital reductions by date and skips rows without prices', () => {
+    const actions = toCorporateActions(
+      [
+        { date: '2026-06-10', stock_id: '2330', before_price: 100, after_price: 95, stock_and_cache_dividend: 5, stock_or_cache_dividend: '除息' },
+        { date: '2026-03-10', stock_id: '2330', before_price: 0, after_price: 95, stock_and_cache_dividend: 5, stock_or_cache_dividend: '除息' }
+      ],
+      [{ date: '2026-01-05', stock_id: '2330', ClosingPriceonTheLastTradingDay: 20, PostReductionReferencePrice: 40 }]
+    );
+    expect(actions.map(a => [a.date, a.kind])).toEqual([['2026-01-05', 'reduction'], ['2026-06-10', 'dividend']]);
+    expect(actions[1].factor).toBeCloseTo(0.95);
+    expect(actions[0].factor).toBe(2);
+  });
+});
+
+describe('adjustHistory', () => {
+  const bars = [bar('2026-06-08', 100), bar('2026-06-09', 100), bar('2026-06-10', 96), bar('2026-06-11', 97)];
+
+  it('returns the original bars when there are no actions', () => {
+    expect(adjustHistory(bars, [])).toBe(bars);
+  });
+
+  it('scales bars before the ex-date and keeps the latest prices unchanged', () => {
+    const adjusted = adjustHistory(bars, [action('2026-06-10', 100, 95)]);
+    expect(adjusted.map(b => b.close)).toEqual([95, 95, 96, 97]);
+    // 除息日的漲跌相對於還原後的前一日收盤
+    expect(adjusted[2].spread).toBe(1);
+    expect(adjusted[3]).toMatchObject({ open: 97, max: 97, min: 97, close: 97, spread: 1 });
+  });
+
+  it('compounds factors from several later events', () => {
+    const adjusted = adjustHistory(bars, [action('2026-06-11', 96, 48), action('2026-06-10', 100, 95)]);
+    expect(adjusted.map(b => b.close)).toEqual([47.5, 47.5, 48, 97]);
+  });
+});
@@ -0,0 +1,60 @@
+import { CapitalReductionRow, CorporateAction, DividendResultRow, PriceBar } from '../types';
+
+const round = (v: number) => parseFloat(v.toFixed(2));
+
+/**
+ * 將除權息結果與減資參考價整理為依日期排序的事件清單
+ */
+export const toCorporateActions = (dividends: DividendResultRow[], reductions: CapitalReductionRow[]): CorporateAction[] => {
+  const actions: CorporateAction[] = [];
+  dividends.forEach(d => {
+    if (!(d.before_price > 0 && d.after_price > 0)) return;
+    const rights = d.stock_or_cache_dividend.includes('權');
+    actions.push({
+      date: d.date,
+      kind: rights ? 'rights' : 'dividend',
+      label: `${d.stock_or_cache_dividend || '除息'} ${d.stock_and_cache_dividend}`,
+      before: d.before_price,
+      after: d.after_price,
+      factor: d.after_price / d.before_price
+    });
+  });
+  reductions.forEach(r => {
+    if (!(r.ClosingPriceonTheLastTradingDay > 0 && r.PostReductionReferencePrice > 0)) return;
+    actions.push({
+      date: r.date,
+      kind: 'reduction',
+      label: `減資${r.ReasonforCapitalReduction ? `（${r.ReasonforCapitalReduction}）` : ''}`,
+      before: r.ClosingPriceonTheLastTradingDay,
+      after: r.PostReductionReferencePrice,
+      factor: r.PostReductionReferencePrice / r.ClosingPriceonTheLastTradingDay
+    });
+  });
+  return actions.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 向後還原：事件日之前的開高低收乘上其後所有事件的還原因子，最新價格維持不變；
+ * 漲跌改以前一日還原收盤計算（除權息日即為相對參考價的漲跌）
+ */
+export const adjustHistory = (bars: PriceBar[], actions: CorporateAction[]): PriceBar[] => {
+  if (actions.length === 0) return bars;
+  const sorted = [...actions].sort((a, b) => a.date.localeCompare(b.date));
+  const adjusted: PriceBar[] = new Array(bars.length);
+  let factor = 1;
+  let j = sorted.length - 1;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+    while (j >= 0 && sorted[j].date > bar.date) factor *= sorted[j--].factor;
+    adjusted[i] = factor === 1 ? bar : {
+      ...bar,
+      open: round(bar.open * factor),
+      max: round(bar.max * factor),
+      min: round(bar.min * factor),
+      close: round(bar.close * factor),
+      spread: round(bar.spread * factor)
+    };
+  }
+  return adjusted.map((bar, i) => i === 0 ? bar : { ...bar, spread: round(bar.close - adjusted[i - 1].close) });
+};
+
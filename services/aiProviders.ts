@@ -0,0 +1,81 @@
+import { DEFAULT_GEMINI_MODEL, getComparativeAnalysis, getGeminiAnalysis, streamGeminiChat } from './gemini';
+import { DEFAULT_OPENAI_BASE_URL, getOpenAIAnalysis, getOpenAIComparison, streamOpenAIChat } from './openaiCompatible';
+import { getMockAnalysis, getMockComparison, streamMockChat } from './mockAnalysis';
+import { generateValidatedAnalysis } from './analysisValidator';
+import {
+  AIAnalysis, AIProviderId, AISettings, AnalysisContext, ChatContext, ChatMessage, ComparisonAnalysis, ComparisonMetrics
+} from '../types';
+
+const SETTINGS_KEY = 'twstock.aiSettings';
+
+export interface AnalysisProvider {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  analyze: (context: AnalysisContext, settings: AISettings) => Promise<AIAnalysis>;
+  compare: (metrics: ComparisonMetrics[], settings: AISettings) => Promise<ComparisonAnalysis>;
+  // 串流回覆追問，onChunk 逐段收到文字，完成後回傳完整回覆；signal 中止時以 AbortError 結束
+  chat: (
+    context: ChatContext, messages: ChatMessage[], settings: AISettings, onChunk: (text: string) => void, signal?: AbortSignal
+  ) => Promise<string>;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AnalysisProvider> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    analyze: (context, s) => generateValidatedAnalysis(context.stock, correction =>
+      getGeminiAnalysis(context, s.model || DEFAULT_GEMINI_MODEL, correction)),
+    compare: (metrics, s) => getComparativeAnalysis(metrics, s.model || DEFAULT_GEMINI_MODEL),
+    chat: (context, messages, s, onChunk, signal) => streamGeminiChat(context, messages, onChunk, s.model || DEFAULT_GEMINI_MODEL, signal)
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI 相容 / 本地模型',
+    defaultModel: 'llama3.1',
+    analyze: (context, s) => generateValidatedAnalysis(context.stock, correction =>
+      getOpenAIAnalysis({ baseUrl: s.baseUrl || DEFAULT_OPENAI_BASE_URL, apiKey: s.apiKey, model: s.model }, context, correction)),
+    compare: (metrics, s) => getOpenAIComparison({ baseUrl: s.baseUrl || DEFAULT_OPENAI_BASE_URL, apiKey: s.apiKey, model: s.model }, metrics),
+    chat: (context, messages, s, onChunk, signal) =>
+      streamOpenAIChat({ baseUrl: s.baseUrl || DEFAULT_OPENAI_BASE_URL, apiKey: s.apiKey, model: s.model }, context, messages, onChunk, signal)
+  },
+  mock: {
+    id: 'mock',
+    label: '規則式模擬（離線）',
+    defaultModel: 'rules',
+    analyze: (context) => getMockAnalysis(context),
+    compare: (metrics) => getMockComparison(metrics),
+    chat: (context, messages, s, onChunk, signal) => streamMockChat(context, messages, onChunk, signal)
+  }
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: DEFAULT_GEMINI_MODEL,
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: ''
+};
+
+export const getAISettings = (): AISettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved && AI_PROVIDERS[saved.provider as AIProviderId] ? { ...DEFAULT_AI_SETTINGS, ...saved } : DEFAULT_AI_SETTINGS;
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getAnalysisProvider = (settings: AISettings): AnalysisProvider => AI_PROVIDERS[settings.provider] || AI_PROVIDERS.gemini;
+
+/**
+ * 顯示用的供應商與模型名稱，例如「Google Gemini · gemini-3-flash-preview」
+ */
+export const describeProvider = (settings: AISettings) => {
+  const provider = getAnalysisProvider(settings);
+  return settings.provider === 'mock' ? provider.label : `${provider.label} · ${settings.model || provider.defaultModel}`;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRule } from './alerts';
+import { AlertRule, AlertRuleType, InstitutionalData, PriceBar, StockInfo } from '../types';
+
+const rule = (type: AlertRuleType, threshold: number): AlertRule =>
+  ({ id: 'r1', stockId: '2330', type, threshold, enabled: true, createdAt: '2026-10-01T00:00:00.000Z' });
+
+const bar = (date: string, close: number, volume: number): PriceBar => ({
+  date, stock_id: '2330', Trading_Volume: volume, Trading_money: 0, open: close, max: close, min: close, close, spread: 0, Trading_turnover: 0
+});
+
+const stock = (price: number, volume: number, history: PriceBar[] = []) =>
+  ({ id: '2330', name: '台積電', price, change: 0, pct: 0, volume, history, lastUpdate: '2026-10-16' } as StockInfo);
+
+const institutional = (foreign: number[]): InstitutionalData => {
+  const daily = foreign.map((f, i) => ({ date: `2026-10-${String(i + 1).padStart(2, '0')}`, foreign: f, trust: 0, dealer: 0, total: f }));
+  return { ...daily[daily.length - 1], daily };
+};
+
+describe('evaluateRule', () => {
+  it('compares the close with price thresholds', () => {
+    expect(evaluateRule(rule('price_above', 1000), stock(1010, 0), null)).toContain('高於 1000');
+    expect(evaluateRule(rule('price_below', 1000), stock(1010, 0), null)).toBeNull();
+  });
+
+  it('fires streak rules only when institutional data is present', () => {
+    const inst = institutional([-100, 200, 300, 400]);
+    expect(evaluateRule(rule('foreign_buy_streak', 3), stock(1000, 0), inst)).toContain('外資連續買超 3 日');
+    expect(evaluateRule(rule('foreign_sell_streak', 1), stock(1000, 0), inst)).toBeNull();
+    expect(evaluateRule(rule('foreign_buy_streak', 3), stock(1000, 0), null)).toBeNull();
+  });
+
+  it('measures volume against the prior 20-day average', () => {
+    const history = Array.from({ length: 21 }, (_, i) => bar(`2026-09-${String(i + 1).padStart(2, '0')}`, 100, 1000));
+    expect(evaluateRule(rule('volume_spike', 3), stock(100, 3500, history), null)).toContain('3.5 倍');
+    expect(evaluateRule(rule('volume_spike', 3), stock(100, 3500, history.slice(-10)), null)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { fetchStockData, fetchStockInstitutionalData } from './finmind';
+import { computeIndicators } from './indicators';
+import { netStreak } from './institutionalFlow';
+import { AlertEvent, AlertRule, AlertRuleType, InstitutionalData, StockInfo } from '../types';
+
+const RULES_KEY = 'twstock.alertRules';
+const HISTORY_KEY = 'twstock.alertHistory';
+const MAX_HISTORY = 200;
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, { label: string; unit: string }> = {
+  price_above: { label: '收盤價高於', unit: '元' },
+  price_below: { label: '收盤價低於', unit: '元' },
+  rsi_above: { label: 'RSI(14) 高於', unit: '' },
+  rsi_below: { label: 'RSI(14) 低於', unit: '' },
+  foreign_buy_streak: { label: '外資連續買超', unit: '日' },
+  foreign_sell_streak: { label: '外資連續賣超', unit: '日' },
+  volume_spike: { label: '成交量大於 20 日均量', unit: '倍' }
+};
+
+const needsInstitutional = (type: AlertRuleType) => type === 'foreign_buy_streak' || type === 'foreign_sell_streak';
+
+const load = <T>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch (e) {
+    console.error("無法讀取警示資料:", e);
+    return [];
+  }
+};
+
+export const getAlertRules = (): AlertRule[] => load<AlertRule>(RULES_KEY);
+export const saveAlertRules = (rules: AlertRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+export const getAlertHistory = (): AlertEvent[] => load<AlertEvent>(HISTORY_KEY);
+export const saveAlertHistory = (events: AlertEvent[]) =>
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(events.slice(0, MAX_HISTORY)));
+
+export const describeRule = (rule: AlertRule) => {
+  const meta = ALERT_RULE_LABELS[rule.type];
+  return `${rule.stockId} ${meta.label} ${rule.threshold}${meta.unit}`;
+};
+
+/**
+ * 判斷單一規則是否成立，成立時回傳通知訊息
+ */
+export const evaluateRule = (rule: AlertRule, stock: StockInfo, inst: InstitutionalData | null): string | null => {
+  const name = `${stock.name} (${stock.id})`;
+  switch (rule.type) {
+    case 'price_above':
+      return stock.price > rule.threshold ? `${name} 收盤 ${stock.price} 高於 ${rule.threshold}` : null;
+    case 'price_below':
+      return stock.price < rule.threshold ? `${name} 收盤 ${stock.price} 低於 ${rule.threshold}` : null;
+    case 'rsi_above':
+    case 'rsi_below': {
+      const points = computeIndicators(stock.history);
+      const rsi = points[points.length - 1]?.rsi;
+      if (rsi === null || rsi === undefined) return null;
+      if (rule.type === 'rsi_above' && rsi > rule.threshold) return `${name} RSI ${rsi} 高於 ${rule.threshold}`;
+      if (rule.type === 'rsi_below' && rsi < rule.threshold) return `${name} RSI ${rsi} 低於 ${rule.threshold}`;
+      return null;
+    }
+    case 'foreign_buy_streak':
+    case 'foreign_sell_streak': {
+      if (!inst) return null;
+      const streak = netStreak(inst.daily.map(d => d.foreign));
+      if (rule.type === 'foreign_buy_streak' && streak >= rule.threshold) return `${name} 外資連續買超 ${streak} 日`;
+      if (rule.type === 'foreign_sell_streak' && -streak >= rule.threshold) return `${name} 外資連續賣超 ${-streak} 日`;
+      return null;
+    }
+    case 'volume_spike': {
+      const volumes = stock.history.slice(-21, -1).map(h => h.Trading_Volume);
+      if (volumes.length < 20) return null;
+      const avg = volumes.reduce((a, b) => a + b, 0) / volumes.length;
+      const ratio = stock.volume / avg;
+      return ratio > rule.threshold ? `${name} 成交量達 20 日均量 ${ratio.toFixed(1)} 倍` : null;
+    }
+  }
+};
+
+/**
+ * 對所有啟用中的規則抓取最新資料並檢查。
+ * 同一規則在同一資料日只觸發一次，回傳更新後的規則與新觸發的事件。
+ */
+export const runAlertCheck = async (rules: AlertRule[]): Promise<{ rules: AlertRule[]; events: AlertEvent[] }> => {
+  const active = rules.filter(r => r.enabled);
+  const stockIds = [...new Set(active.map(r => r.stockId))];
+  const events: AlertEvent[] = [];
+  const updated = rules.map(r => ({ ...r }));
+
+  for (const stockId of stockIds) {
+    const stockRules = updated.filter(r => r.enabled && r.stockId === stockId);
+    const stockResult = await fetchStockData(stockId);
+    if (stockResult.status === 'error') continue;
+    const stock = stockResult.data;
+
+    let inst: InstitutionalData | null = null;
+    if (stockRules.some(r => needsInstitutional(r.type))) {
+      const instResult = await fetchStockInstitutionalData(stockId);
+      inst = instResult.status === 'success' ? instResult.data : null;
+    }
+
+    stockRules.forEach(rule => {
+      const dataDate = needsInstitutional(rule.type) ? inst?.date : stock.lastUpdate;
+      if (!dataDate || rule.lastTriggeredDate === dataDate) return;
+      const message = evaluateRule(rule, stock, inst);
+      if (!message) return;
+      rule.lastTriggeredDate = dataDate;
+      events.push({
+        id: `${rule.id}-${dataDate}`,
+        ruleId: rule.id,
+        stockId,
+        stockName: stock.name,
+        message,
+        dataDate,
+        firedAt: new Date().toISOString()
+      });
+    });
+  }
+
+  return { rules: updated, events };
+};
+
+/**
+ * 發送瀏覽器通知（需使用者先授權）
+ */
+export const sendBrowserNotification = (event: AlertEvent) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification('台股戰情室警示', { body: event.message, tag: event.id });
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  return Notification.requestPermission();
+};
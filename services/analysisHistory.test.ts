@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { diffAnalyses, getSavedAnalyses, saveAnalysis } from './analysisHistory';
+import { AIAnalysis, SavedAnalysis, StockInfo } from '../types';
+
+const analysis = (score: number, summary: string, days: AIAnalysis['prediction']['days']): AIAnalysis => ({
+  summary, financial: '財務穩健', institutional: '外資買超', leverage: '融資持平', prediction: { days }, score
+});
+
+const saved = (id: string, generatedAt: string, price: number, report: AIAnalysis): SavedAnalysis => ({
+  id,
+  stockId: '2330',
+  stockName: '台積電',
+  meta: { model: 'Google Gemini · test', generatedAt },
+  input: { lastUpdate: generatedAt.slice(0, 10), price, change: 0, pct: 0, volume: 0, institutional: null },
+  analysis: report
+});
+
+describe('diffAnalyses', () => {
+  it('reports score, price and section changes between two reports', () => {
+    const before = saved('a', '2026-10-13T08:00:00.000Z', 1000, analysis(60, '區間整理', []));
+    const after = saved('b', '2026-10-16T08:00:00.000Z', 1050, analysis(72, '突破整理區間', []));
+    expect(diffAnalyses(before, after)).toMatchObject({
+      scoreChange: 12, priceChange: 50, pricePct: 5, changedSections: ['summary']
+    });
+  });
+
+  it('ignores whitespace-only edits', () => {
+    const before = saved('a', '2026-10-13T08:00:00.000Z', 1000, analysis(60, '區間整理', []));
+    const after = saved('b', '2026-10-16T08:00:00.000Z', 1000, analysis(60, ' 區間整理\n', []));
+    expect(diffAnalyses(before, after).changedSections).toEqual([]);
+  });
+
+  it('aligns predictions by date', () => {
+    const day = (date: string, price: number) => ({ date, price, low: price - 10, high: price + 10 });
+    const before = saved('a', '2026-10-13T08:00:00.000Z', 1000, analysis(60, 'x', [day('2026-10-14', 1001), day('2026-10-15', 1002)]));
+    const after = saved('b', '2026-10-14T08:00:00.000Z', 1000, analysis(60, 'x', [day('2026-10-15', 1010), day('2026-10-16', 1020)]));
+    expect(diffAnalyses(before, after).predictions).toEqual([
+      { date: '2026-10-14', before: day('2026-10-14', 1001), after: null },
+      { date: '2026-10-15', before: day('2026-10-15', 1002), after: day('2026-10-15', 1010) },
+      { date: '2026-10-16', before: null, after: day('2026-10-16', 1020) }
+    ]);
+  });
+});
+
+describe('saveAnalysis', () => {
+  const storage = new Map<string, string>();
+  // 模擬 localStorage 容量：最多可存放的報告份數
+  let capacity = Infinity;
+
+  beforeEach(() => {
+    storage.clear();
+    capacity = Infinity;
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        const all: Record<string, SavedAnalysis[]> = JSON.parse(value);
+        const count = Object.keys(all).reduce((n, id) => n + all[id].length, 0);
+        if (count > capacity) throw new DOMException('quota', 'QuotaExceededError');
+        storage.set(key, value);
+      }
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const stock = (id: string) => ({ id, name: id, price: 100, change: 1, pct: 1, volume: 1000, history: [], lastUpdate: '2026-10-16' } as StockInfo);
+  const save = (id: string, generatedAt: string) =>
+    saveAnalysis(stock(id), analysis(60, id, []), { model: 'test', generatedAt }, null);
+
+  it('drops the oldest reports across stocks when storage is full', () => {
+    save('2330', '2026-10-01T08:00:00.000Z');
+    save('2317', '2026-10-02T08:00:00.000Z');
+    save('2330', '2026-10-03T08:00:00.000Z');
+    capacity = 3;
+    expect(save('2454', '2026-10-04T08:00:00.000Z')).not.toBeNull();
+    expect(getSavedAnalyses('2330').map(r => r.meta.generatedAt)).toEqual(['2026-10-03T08:00:00.000Z']);
+    expect(getSavedAnalyses('2317')).toHaveLength(1);
+    expect(getSavedAnalyses('2454')).toHaveLength(1);
+  });
+
+  it('returns null when even a single report does not fit', () => {
+    capacity = 0;
+    expect(save('2330', '2026-10-01T08:00:00.000Z')).toBeNull();
+    expect(getSavedAnalyses('2330')).toEqual([]);
+  });
+});
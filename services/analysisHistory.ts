@@ -0,0 +1,153 @@
+import { AIAnalysis, InstitutionalData, ReportMeta, SavedAnalysis, StockInfo } from '../types';
+
+const HISTORY_KEY = 'twstock.analyses';
+// 每檔個股保留的報告數上限
+const MAX_REPORTS_PER_STOCK = 30;
+
+export type AnalysisSection = 'summary' | 'financial' | 'institutional' | 'leverage';
+
+export const ANALYSIS_SECTIONS: AnalysisSection[] = ['summary', 'financial', 'institutional', 'leverage'];
+
+/**
+ * 報告段落標題，詳細頁、歷史比較與匯出共用
+ */
+export const SECTION_TITLES: Record<AnalysisSection, string> = {
+  summary: '技術與籌碼面分析',
+  financial: '基本面價值評估',
+  institutional: '市場信心與資金動能',
+  leverage: '槓桿水位與散戶情緒'
+};
+
+const readAll = (): Record<string, SavedAnalysis[]> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch (e) {
+    console.error("無法讀取歷史報告:", e);
+    return {};
+  }
+};
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * 移除所有個股中最舊的一份報告；只剩一份時不再移除
+ */
+const dropOldest = (all: Record<string, SavedAnalysis[]>) => {
+  let oldest: { stockId: string; index: number; at: string } | null = null;
+  let total = 0;
+  Object.keys(all).forEach(stockId => all[stockId].forEach((r, index) => {
+    total++;
+    if (!oldest || r.meta.generatedAt < oldest.at) oldest = { stockId, index, at: r.meta.generatedAt };
+  }));
+  if (!oldest || total <= 1) return false;
+  const { stockId, index } = oldest;
+  all[stockId].splice(index, 1);
+  if (all[stockId].length === 0) delete all[stockId];
+  return true;
+};
+
+/**
+ * 寫入所有報告；超過 localStorage 容量時由最舊的報告開始捨棄，仍無法寫入則放棄並回傳 false
+ */
+const writeAll = (all: Record<string, SavedAnalysis[]>): boolean => {
+  for (;;) {
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(all));
+      return true;
+    } catch (e) {
+      if (isQuotaError(e) && dropOldest(all)) continue;
+      console.error("無法保存歷史報告:", e);
+      return false;
+    }
+  }
+};
+
+/**
+ * 讀取個股的歷史報告（新到舊）
+ */
+export const getSavedAnalyses = (stockId: string): SavedAnalysis[] => {
+  const reports = readAll()[stockId];
+  return Array.isArray(reports) ? reports : [];
+};
+
+export const getSavedAnalysis = (stockId: string, id: string): SavedAnalysis | undefined =>
+  getSavedAnalyses(stockId).find(r => r.id === id);
+
+/**
+ * 保存一次分析的報告與當下的輸入數據；儲存空間不足而無法保存時回傳 null，不影響分析本身
+ */
+export const saveAnalysis = (
+  stock: StockInfo,
+  analysis: AIAnalysis,
+  meta: ReportMeta,
+  institutional: InstitutionalData | null
+): SavedAnalysis | null => {
+  const report: SavedAnalysis = {
+    id: `${stock.id}-${Date.now()}`,
+    stockId: stock.id,
+    stockName: stock.name,
+    meta,
+    input: {
+      lastUpdate: stock.lastUpdate,
+      price: stock.price,
+      change: stock.change,
+      pct: stock.pct,
+      volume: stock.volume,
+      per: stock.per,
+      pbr: stock.pbr,
+      institutional: institutional
+        ? { date: institutional.date, foreign: institutional.foreign, trust: institutional.trust, dealer: institutional.dealer, total: institutional.total }
+        : null
+    },
+    analysis
+  };
+  const all = readAll();
+  all[stock.id] = [report, ...(all[stock.id] || [])].slice(0, MAX_REPORTS_PER_STOCK);
+  return writeAll(all) ? report : null;
+};
+
+export const deleteSavedAnalysis = (stockId: string, id: string) => {
+  const all = readAll();
+  const remaining = (all[stockId] || []).filter(r => r.id !== id);
+  if (remaining.length === 0) {
+    delete all[stockId];
+  } else {
+    all[stockId] = remaining;
+  }
+  writeAll(all);
+};
+
+type PredictionDay = AIAnalysis['prediction']['days'][number];
+
+export interface AnalysisDiff {
+  scoreChange: number;
+  priceChange: number;
+  // 收盤價變動百分比
+  pricePct: number | null;
+  changedSections: AnalysisSection[];
+  // 依預測日期對齊，只出現在其中一份報告的日期另一側為 null
+  predictions: { date: string; before: PredictionDay | null; after: PredictionDay | null }[];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * 比較兩份報告（before 為較早的一份）的評分、價格、段落與預測差異
+ */
+export const diffAnalyses = (before: SavedAnalysis, after: SavedAnalysis): AnalysisDiff => {
+  const dates = [...new Set([...before.analysis.prediction.days, ...after.analysis.prediction.days].map(d => d.date))].sort();
+  const priceChange = after.input.price - before.input.price;
+  return {
+    scoreChange: after.analysis.score - before.analysis.score,
+    priceChange: round(priceChange),
+    pricePct: before.input.price ? round(priceChange / before.input.price * 100) : null,
+    changedSections: ANALYSIS_SECTIONS.filter(key => before.analysis[key].trim() !== after.analysis[key].trim()),
+    predictions: dates.map(date => ({
+      date,
+      before: before.analysis.prediction.days.find(d => d.date === date) ?? null,
+      after: after.analysis.prediction.days.find(d => d.date === date) ?? null
+    }))
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { PARTIAL_MARKER, parseModelJson, validateAnalysis, validateComparison } from './analysisValidator';
+import { StockInfo } from '../types';
+
+// 2026-10-16 為週五，之後三個交易日為 10/19–10/21
+const stock = { id: '2330', lastUpdate: '2026-10-16', price: 100 } as StockInfo;
+
+const validReport = {
+  summary: '技術面偏多',
+  financial: '財務穩健',
+  institutional: '外資買超',
+  leverage: '融資持平',
+  score: 72,
+  prediction: {
+    days: [
+      { date: '2026-10-19', price: 101, low: 99, high: 103 },
+      { date: '2026-10-20', price: 102, low: 99, high: 105 },
+      { date: '2026-10-21', price: 103, low: 100, high: 106 }
+    ]
+  }
+};
+
+describe('parseModelJson', () => {
+  it('returns null instead of throwing on truncated output', () => {
+    expect(parseModelJson('{"summary": "abc"')).toBeNull();
+    expect(parseModelJson(undefined)).toBeNull();
+    expect(parseModelJson('{"score": 1}')).toEqual({ score: 1 });
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('accepts a well-formed report without issues', () => {
+    const { analysis, issues } = validateAnalysis(validReport, stock);
+    expect(issues).toEqual([]);
+    expect(analysis.score).toBe(72);
+    expect(analysis.prediction.days).toHaveLength(3);
+  });
+
+  it('replaces missing sections with the partial marker and clamps the score', () => {
+    const { analysis, issues } = validateAnalysis({ ...validReport, financial: '', score: 140 }, stock);
+    expect(analysis.financial.startsWith(PARTIAL_MARKER)).toBe(true);
+    expect(analysis.score).toBe(100);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('drops prediction days on non-trading dates or beyond the daily price limit', () => {
+    const days = [
+      { date: '2026-10-18', price: 101, low: 99, high: 103 },
+      { date: '2026-10-20', price: 102, low: 99, high: 125 },
+      { date: '2026-10-21', price: 103, low: 100, high: 106 }
+    ];
+    const { analysis, issues } = validateAnalysis({ ...validReport, prediction: { days } }, stock);
+    expect(analysis.prediction.days.map(d => d.date)).toEqual(['2026-10-21']);
+    expect(issues).toHaveLength(2);
+  });
+
+  it('reports a non-object response', () => {
+    const { analysis, issues } = validateAnalysis(null, stock);
+    expect(analysis.score).toBe(50);
+    expect(issues[0]).toContain('JSON');
+  });
+});
+
+describe('validateComparison', () => {
+  it('keeps only ranking entries for compared stocks, once each', () => {
+    const result = validateComparison({
+      summary: '比較摘要',
+      ranking: [
+        { id: '2330', rank: 1, reason: '領先' },
+        { id: '9999', rank: 2, reason: '不在清單' },
+        { id: '2330', rank: 3, reason: '重複' },
+        { id: '2317', rank: '2', reason: '排名不是數字' },
+        { id: '2454', rank: 2 }
+      ]
+    }, ['2330', '2317', '2454']);
+    expect(result.ranking).toEqual([
+      { id: '2330', rank: 1, reason: '領先' },
+      { id: '2454', rank: 2, reason: '' }
+    ]);
+  });
+
+  it('tolerates a missing ranking but rejects non-object output', () => {
+    expect(validateComparison({ summary: '摘要' }, ['2330']).ranking).toEqual([]);
+    expect(() => validateComparison('text', ['2330'])).toThrow();
+  });
+});
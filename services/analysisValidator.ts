@@ -0,0 +1,143 @@
+import { nextTradingDays } from "./tradingCalendar";
+import { AIAnalysis, ComparisonAnalysis, StockInfo } from "../types";
+
+// 台股每日漲跌幅限制
+const DAILY_LIMIT = 0.1;
+const PREDICTION_DAYS = 3;
+
+export const PARTIAL_MARKER = '【資料不完整】';
+
+type PredictionDay = AIAnalysis['prediction']['days'][number];
+
+/**
+ * 解析模型回覆的 JSON；截斷或格式錯誤時回傳 null 而不是拋出例外，交由驗證流程處理
+ */
+export const parseModelJson = (text: string | undefined): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+/**
+ * 第 n 個交易日（由 1 起算）在連續漲停 / 跌停下可能到達的價格區間
+ */
+const limitRange = (lastClose: number, n: number) => ({
+  min: lastClose * Math.pow(1 - DAILY_LIMIT, n),
+  max: lastClose * Math.pow(1 + DAILY_LIMIT, n)
+});
+
+const validatePredictionDay = (day: any, index: number, expectedDate: string, lastClose: number): string | null => {
+  const label = `預測第 ${index + 1} 日`;
+  if (!day || typeof day.date !== 'string') return `${label}缺少日期`;
+  if (day.date !== expectedDate) return `${label}的日期應為交易日 ${expectedDate}，實際為 ${day.date}`;
+  if (![day.price, day.low, day.high].every(isFiniteNumber)) return `${label}的價格欄位缺漏或不是數字`;
+  if (!(day.low <= day.price && day.price <= day.high)) return `${label}需符合 low ≤ price ≤ high`;
+  const { min, max } = limitRange(lastClose, index + 1);
+  if (day.low < min - 0.01 || day.high > max + 0.01) {
+    return `${label}的價格區間 ${day.low}~${day.high} 超出漲跌幅限制 (${min.toFixed(2)}~${max.toFixed(2)})`;
+  }
+  return null;
+};
+
+/**
+ * 依 AIAnalysis 型別與台股交易規則檢查模型輸出，回傳問題清單與修補後可安全顯示的報告
+ * （無效欄位以標記文字取代、無效預測日被剔除、分數夾在 0–100）
+ */
+export const validateAnalysis = (raw: unknown, stock: StockInfo): { analysis: AIAnalysis; issues: string[] } => {
+  const issues: string[] = [];
+  const data: any = raw && typeof raw === 'object' ? raw : null;
+  if (!data) issues.push('回應不是有效的 JSON 物件');
+
+  const text = (key: 'summary' | 'financial' | 'institutional' | 'leverage', label: string) => {
+    if (isText(data?.[key])) return data[key] as string;
+    issues.push(`缺少${label}內容 (${key})`);
+    return `${PARTIAL_MARKER}模型未提供有效的${label}內容。`;
+  };
+  const summary = text('summary', '技術面分析');
+  const financial = text('financial', '財務面分析');
+  const institutional = text('institutional', '籌碼面分析');
+  const leverage = text('leverage', '融資融券與散戶情緒');
+
+  let score = 50;
+  if (isFiniteNumber(data?.score)) {
+    score = Math.round(Math.min(100, Math.max(0, data.score)));
+  } else {
+    issues.push('缺少 0–100 的數值評分 (score)');
+  }
+
+  const rawDays: any[] = Array.isArray(data?.prediction?.days) ? data.prediction.days : [];
+  if (rawDays.length !== PREDICTION_DAYS) issues.push(`預測天數應為 ${PREDICTION_DAYS} 天，實際為 ${rawDays.length} 天`);
+  const sessions = nextTradingDays(stock.lastUpdate, PREDICTION_DAYS);
+  const days: PredictionDay[] = [];
+  rawDays.slice(0, PREDICTION_DAYS).forEach((day, i) => {
+    const problem = validatePredictionDay(day, i, sessions[i], stock.price);
+    if (problem) {
+      issues.push(problem);
+      return;
+    }
+    days.push({ date: day.date, price: day.price, low: day.low, high: day.high });
+  });
+
+  return {
+    analysis: { summary, financial, institutional, leverage, prediction: { days }, score },
+    issues
+  };
+};
+
+/**
+ * 檢查多檔比較的模型輸出：排名只保留比較清單內的代號（每檔一筆），無效時排名為空而非直接顯示
+ */
+export const validateComparison = (raw: unknown, stockIds: string[]): ComparisonAnalysis => {
+  const data: any = raw && typeof raw === 'object' ? raw : null;
+  if (!data) throw new Error('AI 比較分析回應不是有效的 JSON 物件');
+  const seen = new Set<string>();
+  const ranking = (Array.isArray(data.ranking) ? data.ranking : []).flatMap((r: any) => {
+    if (!r || !stockIds.includes(r.id) || seen.has(r.id) || !isFiniteNumber(r.rank)) return [];
+    seen.add(r.id);
+    return [{ id: r.id as string, rank: r.rank as number, reason: isText(r.reason) ? r.reason as string : '' }];
+  });
+  return {
+    summary: isText(data.summary) ? data.summary : `${PARTIAL_MARKER}模型未提供有效的比較摘要。`,
+    ranking
+  };
+};
+
+/**
+ * 重試時附加在提示詞後的修正說明
+ */
+export const buildCorrectionPrompt = (issues: string[], stock: StockInfo) => `
+    你上一次的回覆未通過格式與合理性檢查，請修正以下問題後重新輸出完整 JSON：
+    ${issues.map(i => `- ${i}`).join('\n    ')}
+    注意：prediction.days 必須恰好 ${PREDICTION_DAYS} 筆，日期依序為 ${nextTradingDays(stock.lastUpdate, PREDICTION_DAYS).join('、')}，
+    每筆需符合 low ≤ price ≤ high，且價格不得超出前一日收盤 ±10% 的漲跌幅限制（最後收盤價 ${stock.price}）；score 為 0–100 的數字。
+  `;
+
+/**
+ * 產生並驗證分析報告：首次未通過驗證時帶修正說明重試一次，仍失敗則回傳標記為不完整的部分報告
+ */
+export const generateValidatedAnalysis = async (
+  stock: StockInfo,
+  generate: (correction?: string) => Promise<unknown>
+): Promise<AIAnalysis> => {
+  const first = validateAnalysis(await generate(), stock);
+  if (first.issues.length === 0) return first.analysis;
+  console.warn('AI 分析未通過驗證，重新產生：', first.issues);
+
+  let second = first;
+  try {
+    second = validateAnalysis(await generate(buildCorrectionPrompt(first.issues, stock)), stock);
+  } catch (e) {
+    console.error('AI 分析重試失敗：', e);
+  }
+  if (second.issues.length === 0) return second.analysis;
+
+  // 取問題較少的一次作為部分報告
+  const best = second.issues.length <= first.issues.length ? second : first;
+  return { ...best.analysis, partial: true, issues: best.issues };
+};
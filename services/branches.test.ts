@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseBranchCsv, summarizeBranches } from './branches';
+import { BrokerTradeRow } from '../types';
+
+const trade = (id: string, name: string, price: number, buy: number, sell: number): BrokerTradeRow =>
+  ({ stock_id: '2330', date: '2026-10-16', securities_trader_id: id, securities_trader: name, price, buy, sell });
+
+describe('parseBranchCsv', () => {
+  it('reads both side-by-side records on each row and skips headers', () => {
+    const csv = [
+      '券商買賣證券成交價量資訊',
+      '序號,券商,價格,買進股數,賣出股數,,序號,券商,價格,買進股數,賣出股數',
+      '1,1020合    庫,"1,010.00","2,000",0,,2,9200凱    基,1005.00,0,"3,000"',
+      '3,1020合    庫,1000.00,1000,500,,,,,,'
+    ].join('\r\n');
+    expect(parseBranchCsv(csv, '2330', '2026-10-16')).toEqual([
+      trade('1020', '合庫', 1010, 2000, 0),
+      trade('9200', '凱基', 1005, 0, 3000),
+      trade('1020', '合庫', 1000, 1000, 500)
+    ]);
+  });
+
+  it('accepts spreadsheet-style quoted cells', () => {
+    expect(parseBranchCsv('="1",="1020合庫",="1000",="100",="0"', '2330', '2026-10-16')).toEqual([
+      trade('1020', '合庫', 1000, 100, 0)
+    ]);
+  });
+});
+
+describe('summarizeBranches', () => {
+  it('nets each branch across rows and averages its buy and sell prices', () => {
+    const { topBuyers, topSellers } = summarizeBranches([
+      trade('1020', '合庫', 1010, 2000, 0),
+      trade('1020', '合庫', 1000, 1000, 500),
+      trade('9200', '凱基', 1005, 0, 3000),
+      trade('1440', '美林', 1000, 100, 100)
+    ]);
+    expect(topBuyers).toEqual([
+      { id: '1020', name: '合庫', buy: 3000, sell: 500, net: 2500, avgBuyPrice: 1006.67, avgSellPrice: 1000 }
+    ]);
+    expect(topSellers).toEqual([
+      { id: '9200', name: '凱基', buy: 0, sell: 3000, net: -3000, avgBuyPrice: null, avgSellPrice: 1005 }
+    ]);
+  });
+
+  it('keeps only the top entries by net amount', () => {
+    const rows = [100, 300, 200].map((buy, i) => trade(`10${i}0`, `分點${i}`, 10, buy, 0));
+    expect(summarizeBranches(rows, 2).topBuyers.map(b => b.net)).toEqual([300, 200]);
+  });
+});
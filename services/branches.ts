@@ -0,0 +1,151 @@
+import { fetchBranchReport } from './finmind';
+import { primeDataset, readCachedDataset } from './finmindClient';
+import { lastTradingDayOnOrBefore, previousTradingDay } from './tradingCalendar';
+import { BranchFlow, BranchSummary, BrokerTradeRow, FinMindError, FinMindResult } from '../types';
+
+export const BRANCH_WINDOWS = [1, 5, 10, 20];
+export const DEFAULT_BRANCH_WINDOW = 5;
+const TOP_COUNT = 5;
+
+/**
+ * 截至 endDate（含）的最近 N 個交易日，由舊到新
+ */
+const sessionDates = (endDate: string, sessions: number) => {
+  const dates = [lastTradingDayOnOrBefore(endDate)];
+  while (dates.length < sessions) dates.unshift(previousTradingDay(dates[0]));
+  return dates;
+};
+
+/**
+ * 依分點彙總買賣股數與成交均價，回傳買超與賣超前幾名
+ */
+export const summarizeBranches = (rows: BrokerTradeRow[], top = TOP_COUNT) => {
+  const byBranch = new Map<string, { id: string; name: string; buy: number; sell: number; buyValue: number; sellValue: number }>();
+  rows.forEach(r => {
+    const b = byBranch.get(r.securities_trader_id)
+      || { id: r.securities_trader_id, name: r.securities_trader, buy: 0, sell: 0, buyValue: 0, sellValue: 0 };
+    b.buy += r.buy;
+    b.sell += r.sell;
+    b.buyValue += r.buy * r.price;
+    b.sellValue += r.sell * r.price;
+    byBranch.set(r.securities_trader_id, b);
+  });
+
+  const flows: BranchFlow[] = [...byBranch.values()].map(b => ({
+    id: b.id,
+    name: b.name,
+    buy: b.buy,
+    sell: b.sell,
+    net: b.buy - b.sell,
+    avgBuyPrice: b.buy > 0 ? parseFloat((b.buyValue / b.buy).toFixed(2)) : null,
+    avgSellPrice: b.sell > 0 ? parseFloat((b.sellValue / b.sell).toFixed(2)) : null
+  }));
+  return {
+    topBuyers: flows.filter(f => f.net > 0).sort((a, b) => b.net - a.net).slice(0, top),
+    topSellers: flows.filter(f => f.net < 0).sort((a, b) => a.net - b.net).slice(0, top)
+  };
+};
+
+/**
+ * 逐日取回分點明細並彙總；部分日期缺資料時仍回傳其餘日期的結果
+ */
+export const fetchBranchSummary = async (
+  stockId: string,
+  endDate: string,
+  sessions = DEFAULT_BRANCH_WINDOW,
+  onProgress?: (done: number, total: number) => void
+): Promise<FinMindResult<BranchSummary>> => {
+  const dates = sessionDates(endDate, sessions);
+  const rows: BrokerTradeRow[] = [];
+  const found: string[] = [];
+  let firstError: FinMindError | null = null;
+
+  for (const [i, date] of dates.entries()) {
+    // 額度用盡或權限不足時後續日期也會失敗，之後只讀取快取（含匯入的 CSV）
+    const result: FinMindResult<BrokerTradeRow[]> = firstError && firstError.kind !== 'empty'
+      ? { status: 'success', data: (await readCachedDataset<BrokerTradeRow>('TaiwanStockTradingDailyReport', { data_id: stockId, date })) || [] }
+      : await fetchBranchReport(stockId, date);
+    onProgress?.(i + 1, dates.length);
+    if (result.status === 'error') {
+      if (!firstError || firstError.kind === 'empty') firstError = result.error;
+      continue;
+    }
+    if (result.data.length === 0) continue;
+    rows.push(...result.data);
+    found.push(date);
+  }
+
+  if (found.length === 0) {
+    return { status: 'error', error: firstError || { kind: 'empty', message: '查無分點資料' } };
+  }
+  return {
+    status: 'success',
+    data: { stockId, dates: found, missingDates: dates.filter(d => !found.includes(d)), ...summarizeBranches(rows) }
+  };
+};
+
+// --- 匯入證交所「買賣日報表」CSV ---
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === ',' && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else cell += ch;
+  }
+  cells.push(cell);
+  return cells.map(c => c.replace(/^=/, '').replace(/"/g, '').trim());
+};
+
+const toNumber = (v: string) => parseFloat(v.replace(/,/g, ''));
+
+/**
+ * 解析買賣日報表 CSV：每列並排兩筆「序號,券商,價格,買進股數,賣出股數」，券商欄為「代號+名稱」（如 1020合    庫）
+ */
+export const parseBranchCsv = (text: string, stockId: string, date: string): BrokerTradeRow[] => {
+  const rows: BrokerTradeRow[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const cells = splitCsvLine(line);
+    for (let i = 0; i + 4 < cells.length; i += 6) {
+      const [seq, trader, price, buy, sell] = cells.slice(i, i + 5);
+      const match = trader?.match(/^([0-9A-Za-z]{4})\s*(.+)$/);
+      if (!/^\d+$/.test(seq || '') || !match) continue;
+      const row = {
+        stock_id: stockId,
+        date,
+        securities_trader_id: match[1],
+        securities_trader: match[2].replace(/\s+/g, ''),
+        price: toNumber(price),
+        buy: toNumber(buy),
+        sell: toNumber(sell)
+      };
+      if ([row.price, row.buy, row.sell].every(Number.isFinite)) rows.push(row);
+    }
+  });
+  return rows;
+};
+
+/**
+ * 證交所下載的 CSV 為 Big5 編碼，若不是有效的 UTF-8 則改以 Big5 解碼
+ */
+const decodeCsv = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch (e) {
+    return new TextDecoder('big5').decode(buffer);
+  }
+};
+
+/**
+ * 匯入單日買賣日報表並寫入快取，之後該日的分點查詢直接使用匯入資料
+ */
+export const importBranchCsv = async (file: File, stockId: string, date: string): Promise<number> => {
+  const rows = parseBranchCsv(decodeCsv(await file.arrayBuffer()), stockId, date);
+  if (rows.length === 0) throw new Error('檔案中找不到分點成交資料，請確認為證交所買賣日報表 CSV');
+  await primeDataset('TaiwanStockTradingDailyReport', { data_id: stockId, date }, rows);
+  return rows.length;
+};
@@ -0,0 +1,65 @@
+const DB_NAME = 'twstock-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+  storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * 開啟 IndexedDB（不支援或被封鎖時回傳 null，快取功能自動停用）
+ */
+const openDB = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE_NAME)) {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.error("無法開啟快取資料庫:", req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | null> => {
+  const db = await openDB();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const req = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    req.onsuccess = () => resolve(req.result ?? null);
+    req.onerror = () => {
+      console.error("快取存取失敗:", req.error);
+      resolve(null);
+    };
+  });
+};
+
+/**
+ * 讀取快取，過期資料視為不存在
+ */
+export const getCached = async <T>(key: string): Promise<T | null> => {
+  const entry = await run<CacheEntry<T>>('readonly', store => store.get(key));
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return entry.value;
+};
+
+export const setCached = async <T>(key: string, value: T, expiresAt: number): Promise<void> => {
+  const entry: CacheEntry<T> = { key, value, expiresAt, storedAt: Date.now() };
+  await run('readwrite', store => store.put(entry));
+};
+
+export const clearCache = async (): Promise<void> => {
+  await run('readwrite', store => store.clear());
+};
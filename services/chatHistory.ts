@@ -0,0 +1,33 @@
+import { ChatMessage } from '../types';
+
+const CHAT_KEY = 'twstock.chats';
+// 每檔個股保留的訊息數上限
+const MAX_MESSAGES_PER_STOCK = 40;
+
+const readAll = (): Record<string, ChatMessage[]> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHAT_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch (e) {
+    console.error("無法讀取追問紀錄:", e);
+    return {};
+  }
+};
+
+/**
+ * 讀取個股的追問對話
+ */
+export const getChat = (stockId: string): ChatMessage[] => {
+  const messages = readAll()[stockId];
+  return Array.isArray(messages) ? messages : [];
+};
+
+export const saveChat = (stockId: string, messages: ChatMessage[]) => {
+  const all = readAll();
+  if (messages.length === 0) {
+    delete all[stockId];
+  } else {
+    all[stockId] = messages.slice(-MAX_MESSAGES_PER_STOCK);
+  }
+  localStorage.setItem(CHAT_KEY, JSON.stringify(all));
+};
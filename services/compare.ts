@@ -0,0 +1,97 @@
+import { ComparisonMetrics, InstitutionalData, PriceBar, StockInfo } from '../types';
+
+/**
+ * 取所有標的（含大盤）共同擁有的交易日，確保報酬率以同一起始日比較
+ */
+export const commonDates = (series: PriceBar[][]): string[] => {
+  if (series.length === 0) return [];
+  const sets = series.map(s => new Set(s.map(b => b.date)));
+  return series[0].map(b => b.date).filter(d => sets.every(set => set.has(d)));
+};
+
+const closesOn = (bars: PriceBar[], dates: string[]) => {
+  const map = new Map(bars.map(b => [b.date, b.close]));
+  return dates.map(d => map.get(d) as number);
+};
+
+/**
+ * 以共同起始日為基準的累積報酬率（%），每列為一個交易日，欄位為代號
+ */
+export const normalizedReturns = (stocks: StockInfo[], index: PriceBar[]) => {
+  const dates = commonDates([...stocks.map(s => s.history), index]);
+  const columns: Record<string, number[]> = { TAIEX: closesOn(index, dates) };
+  stocks.forEach(s => { columns[s.id] = closesOn(s.history, dates); });
+
+  return dates.map((date, i) => {
+    const row: Record<string, number | string> = { date: date.slice(5) };
+    Object.entries(columns).forEach(([id, closes]) => {
+      row[id] = parseFloat(((closes[i] / closes[0] - 1) * 100).toFixed(2));
+    });
+    return row;
+  });
+};
+
+const dailyReturns = (closes: number[]) => closes.slice(1).map((c, i) => c / closes[i] - 1);
+
+/**
+ * 皮爾森相關係數
+ */
+export const correlation = (a: number[], b: number[]): number | null => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return null;
+  const meanA = a.slice(0, n).reduce((x, y) => x + y, 0) / n;
+  const meanB = b.slice(0, n).reduce((x, y) => x + y, 0) / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  if (varA === 0 || varB === 0) return null;
+  return cov / Math.sqrt(varA * varB);
+};
+
+/**
+ * 各標的日報酬率的相關係數矩陣
+ */
+export const correlationMatrix = (stocks: StockInfo[]) => {
+  const dates = commonDates(stocks.map(s => s.history));
+  const returns = stocks.map(s => dailyReturns(closesOn(s.history, dates)));
+  return stocks.map((_, i) => stocks.map((__, j) => {
+    const c = correlation(returns[i], returns[j]);
+    return c === null ? null : parseFloat(c.toFixed(2));
+  }));
+};
+
+/**
+ * 區間報酬、相對大盤強弱（RS = (1 + 個股報酬) / (1 + 大盤報酬)）與籌碼彙總
+ */
+export const computeComparisonMetrics = (
+  stocks: StockInfo[],
+  index: PriceBar[],
+  institutional: Record<string, InstitutionalData | null>
+): ComparisonMetrics[] => {
+  const dates = commonDates([...stocks.map(s => s.history), index]);
+  const indexCloses = closesOn(index, dates);
+  const indexReturn = dates.length > 1 ? indexCloses[indexCloses.length - 1] / indexCloses[0] - 1 : 0;
+
+  return stocks.map(s => {
+    const closes = closesOn(s.history, dates);
+    const periodReturn = dates.length > 1 ? closes[closes.length - 1] / closes[0] - 1 : 0;
+    const recent = s.history.slice(-20);
+    const inst = institutional[s.id];
+    const sum = (key: 'foreign' | 'trust' | 'dealer') => inst ? inst.daily.reduce((t, d) => t + d[key], 0) : 0;
+    return {
+      id: s.id,
+      name: s.name,
+      periodReturn: parseFloat((periodReturn * 100).toFixed(2)),
+      relativeStrength: parseFloat(((1 + periodReturn) / (1 + indexReturn)).toFixed(3)),
+      per: s.per,
+      pbr: s.pbr,
+      avgVolume: Math.round(recent.reduce((t, h) => t + h.Trading_Volume, 0) / Math.max(recent.length, 1)),
+      foreignNet: sum('foreign'),
+      trustNet: sum('trust'),
+      dealerNet: sum('dealer')
+    };
+  });
+};
@@ -1,52 +1,135 @@
+import {
+  BrokerTradeRow, CapitalReductionRow, CorporateAction, DividendResultRow, DividendRow, FinancialStatementRow, MonthRevenueRow, MarginData, MarginDay, MarginRow, FinMindError, FinMindResult, InstitutionalData, InstitutionalDay, InstitutionalRow, MarketIndex, FundFlow, PERRow, PriceBar,
+  SecurityKind, StockCandidate, StockInfo, StockListRow, StockResolution, TotalInstitutionalRow
+} from '../types';
+import { isRecord, requestDataset, RowValidator } from './finmindClient';
+import { monthsAgo, sessionWindowStart, taipeiToday } from './tradingCalendar';
+import { adjustHistory, toCorporateActions } from './adjustedPrices';
+import { pickCandidate, rankCandidates } from './stockSearch';
+import { investorKey } from './institutionalFlow';
 
-const FINMIND_API_URL = "https://api.finmindtrade.com/api/v4/data";
+// 各查詢涵蓋的交易日數（以交易日曆計算，春節等長假不會讓區間變短）
+const INDEX_SESSIONS = 6;
+const MARKET_FLOW_SESSIONS = 20;
+export const INSTITUTIONAL_WINDOWS = [20, 60, 120];
+const MARGIN_SESSIONS = 60;
+const STOCK_HISTORY_SESSIONS = 80;
 
-const getFormattedDate = (daysAgo = 0) => {
-  const date = new Date();
-  date.setDate(date.getDate() - daysAgo);
-  return date.toISOString().split('T')[0];
+// 財報類資料以年月計算區間（非交易日窗口）
+const REVENUE_MONTHS = 25;
+const FINANCIAL_QUARTERS = 12;
+const DIVIDEND_YEARS = 6;
+
+// --- 回應格式驗證 ---
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isPriceBar: RowValidator<PriceBar> = (row): row is PriceBar =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) &&
+  isNumber(row.open) && isNumber(row.max) && isNumber(row.min) && isNumber(row.close) && isNumber(row.Trading_Volume);
+
+const isStockListRow: RowValidator<StockListRow> = (row): row is StockListRow =>
+  isRecord(row) && isString(row.stock_id) && isString(row.stock_name);
+
+const isBrokerTradeRow: RowValidator<BrokerTradeRow> = (row): row is BrokerTradeRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isString(row.securities_trader) && isString(row.securities_trader_id) &&
+  isNumber(row.price) && isNumber(row.buy) && isNumber(row.sell);
+
+const isMarginRow: RowValidator<MarginRow> = (row): row is MarginRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) &&
+  isNumber(row.MarginPurchaseTodayBalance) && isNumber(row.MarginPurchaseYesterdayBalance) && isNumber(row.MarginPurchaseLimit) &&
+  isNumber(row.ShortSaleTodayBalance) && isNumber(row.ShortSaleYesterdayBalance);
+
+const isMonthRevenueRow: RowValidator<MonthRevenueRow> = (row): row is MonthRevenueRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) &&
+  isNumber(row.revenue) && isNumber(row.revenue_year) && isNumber(row.revenue_month);
+
+const isFinancialStatementRow: RowValidator<FinancialStatementRow> = (row): row is FinancialStatementRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isString(row.type) && isNumber(row.value);
+
+const isDividendRow: RowValidator<DividendRow> = (row): row is DividendRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isString(row.year) &&
+  isNumber(row.CashEarningsDistribution) && isNumber(row.StockEarningsDistribution);
+
+const isDividendResultRow: RowValidator<DividendResultRow> = (row): row is DividendResultRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isNumber(row.before_price) && isNumber(row.after_price) &&
+  isNumber(row.stock_and_cache_dividend) && isString(row.stock_or_cache_dividend);
+
+const isCapitalReductionRow: RowValidator<CapitalReductionRow> = (row): row is CapitalReductionRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) &&
+  isNumber(row.ClosingPriceonTheLastTradingDay) && isNumber(row.PostReductionReferencePrice);
+
+const isPERRow: RowValidator<PERRow> = (row): row is PERRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isNumber(row.PER) && isNumber(row.PBR);
+
+const isInstitutionalRow: RowValidator<InstitutionalRow> = (row): row is InstitutionalRow =>
+  isRecord(row) && isString(row.date) && isString(row.stock_id) && isString(row.name) && isNumber(row.buy) && isNumber(row.sell);
+
+const isTotalInstitutionalRow: RowValidator<TotalInstitutionalRow> = (row): row is TotalInstitutionalRow =>
+  isRecord(row) && isString(row.date) && isString(row.name) && isNumber(row.buy) && isNumber(row.sell);
+
+const fail = <T>(error: FinMindError): FinMindResult<T> => ({ status: 'error', error });
+
+/**
+ * 將錯誤分類轉為使用者可讀的訊息
+ */
+export const describeFinMindError = (error: FinMindError): string => {
+  switch (error.kind) {
+    case 'network': return '無法連線至 FinMind，請檢查網路連線';
+    case 'http': return `FinMind 伺服器錯誤 (HTTP ${error.status ?? '?'})`;
+    case 'quota': return 'FinMind 請求額度已用完，請稍後再試或設定 API Token';
+    case 'empty': return '查無此區間的交易資料';
+    case 'invalid_symbol': return '股票代號不存在，請確認後重新輸入';
+    case 'bad_response': return `FinMind 回應格式異常：${error.message}`;
+  }
 };
 
 // 用於存儲股票清單的簡單緩存
-let stockListCache: any[] | null = null;
+let stockListCache: StockListRow[] | null = null;
 
 /**
  * 獲取所有股票清單（帶緩存）
  */
-const getStockList = async () => {
+const getStockList = async (): Promise<StockListRow[]> => {
   if (stockListCache) return stockListCache;
-  try {
-    const res = await fetch(`${FINMIND_API_URL}?dataset=TaiwanStockInfo`);
-    const json = await res.json();
-    if (json.data) {
-      stockListCache = json.data;
-      return stockListCache;
-    }
-  } catch (e) {
-    console.error("無法獲取股票清單:", e);
+  const result = await requestDataset('TaiwanStockInfo', {}, isStockListRow);
+  if (result.status === 'success') {
+    stockListCache = result.data;
+    return stockListCache;
   }
+  console.error("無法獲取股票清單:", result.error);
   return [];
 };
 
 /**
- * 將輸入的名稱或代號解析為標準代號
+ * 搜尋框的候選清單（依相符程度排序）
  */
-export const resolveStockId = async (query: string): Promise<string | null> => {
-  const trimmed = query.trim();
-  if (!trimmed) return null;
+export const searchStocks = async (query: string, exclude: SecurityKind[] = []): Promise<StockCandidate[]> =>
+  rankCandidates(await getStockList(), query, exclude);
 
-  // 如果已經是純數字，直接回傳
-  if (/^\d+$/.test(trimmed)) return trimmed;
+const NOT_FOUND: StockResolution = { status: 'error', message: '找不到該股票名稱或代號' };
+
+/**
+ * 將輸入的名稱或代號解析為標準代號：純數字須與清單中的代號完全相符，
+ * 名稱須完全相符或只有一檔符合，部分相符多檔時回傳候選說明而不自行挑選
+ */
+export const resolveStockId = async (query: string): Promise<StockResolution> => {
+  const trimmed = query.trim();
+  if (!trimmed) return NOT_FOUND;
 
-  // 否則，從清單中找尋名稱匹配的代號
   const list = await getStockList();
-  const match = list.find(s => s.stock_name === trimmed || s.stock_id === trimmed);
-  
-  if (match) return match.stock_id;
+  // 清單無法載入時無從驗證，代號格式的輸入交由後續查詢判斷
+  if (list.length === 0) {
+    return /^\d{4,6}[A-Z]?$/i.test(trimmed) ? { status: 'success', stockId: trimmed.toUpperCase() } : NOT_FOUND;
+  }
 
-  // 嘗試模糊匹配（如輸入"台積"也能找到"台積電"）
-  const fuzzyMatch = list.find(s => s.stock_name.includes(trimmed));
-  return fuzzyMatch ? fuzzyMatch.stock_id : null;
+  const candidates = rankCandidates(list, trimmed);
+  if (/^\d+$/.test(trimmed) && candidates[0]?.rank !== 0) return NOT_FOUND;
+  const picked = pickCandidate(candidates);
+  if (picked) return { status: 'success', stockId: picked.id };
+  if (candidates.length === 0) return NOT_FOUND;
+  const names = candidates.slice(0, 5).map(c => `${c.name} (${c.id})`).join('、');
+  return { status: 'error', message: `符合多檔：${names}${candidates.length > 5 ? ' 等' : ''}，請輸入完整名稱或代號` };
 };
 
 /**
@@ -58,104 +141,138 @@ export const fetchStockName = async (stockId: string): Promise<string> => {
   return match ? match.stock_name : stockId;
 };
 
-export const fetchMarketIndex = async () => {
-  const startDate = getFormattedDate(10);
-  try {
-    const res = await fetch(`${FINMIND_API_URL}?dataset=TaiwanStockPrice&data_id=TAIEX&start_date=${startDate}`);
-    if (!res.ok) throw new Error('Network Error');
-    const json = await res.json();
-    if (json.data && json.data.length > 0) {
-      const latest = json.data[json.data.length - 1];
-      const prev = json.data[json.data.length - 2] || latest;
-      const change = latest.close - prev.close;
-      const pct = (change / prev.close) * 100;
-      const volume = (latest.Trading_Volume / 100000000).toFixed(0); 
-
-      return {
-        price: latest.close,
-        change: parseFloat(change.toFixed(2)),
-        pct: parseFloat(pct.toFixed(2)),
-        volume: volume,
-        date: latest.date,
-        status: 'success'
-      };
-    }
-    return { status: 'nodata' };
-  } catch (error) {
-    console.error("TAIEX Fetch Error:", error);
-    return { status: 'error' };
+/**
+ * 查無資料時，若清單已載入且不含此代號則判定為錯誤代號
+ */
+const classifyEmpty = async (stockId: string, error: FinMindError): Promise<FinMindError> => {
+  if (error.kind !== 'empty') return error;
+  const list = await getStockList();
+  if (list.length > 0 && !list.some(s => s.stock_id === stockId)) {
+    return { kind: 'invalid_symbol', message: `找不到代號 ${stockId}` };
   }
+  return error;
 };
 
-export const fetchInstitutionalInvestors = async () => {
-  const startDate = getFormattedDate(10);
-  try {
-    const res = await fetch(`${FINMIND_API_URL}?dataset=TaiwanStockTotalInstitutionalInvestors&start_date=${startDate}`);
-    if (!res.ok) throw new Error('Network Error');
-    const json = await res.json();
-    if (json.data && json.data.length > 0) {
-      const data = json.data;
-      const lastDate = data[data.length - 1].date;
-      const dailyData = data.filter((d: any) => d.date === lastDate);
-      let totalNet = 0;
-      dailyData.forEach((item: any) => { totalNet += (item.buy - item.sell); });
-      return {
-        total: parseFloat((totalNet / 100000000).toFixed(2)),
-        date: lastDate,
-        status: totalNet >= 0 ? 'Buy' : 'Sell',
-        apiStatus: 'success'
-      };
-    }
-    return { apiStatus: 'nodata' };
-  } catch (error) {
-    return { apiStatus: 'error' };
+export const fetchMarketIndex = async (): Promise<FinMindResult<MarketIndex>> => {
+  const startDate = sessionWindowStart(INDEX_SESSIONS);
+  const result = await requestDataset('TaiwanStockPrice', { data_id: 'TAIEX', start_date: startDate }, isPriceBar);
+  if (result.status === 'error') {
+    console.error("TAIEX Fetch Error:", result.error);
+    return result;
   }
+  const data = result.data;
+  const latest = data[data.length - 1];
+  const prev = data[data.length - 2] || latest;
+  const change = latest.close - prev.close;
+  const pct = (change / prev.close) * 100;
+  const volume = (latest.Trading_Volume / 100000000).toFixed(0);
+
+  return {
+    status: 'success',
+    data: {
+      price: latest.close,
+      change: parseFloat(change.toFixed(2)),
+      pct: parseFloat(pct.toFixed(2)),
+      volume: volume,
+      date: latest.date
+    }
+  };
+};
+
+/**
+ * 依日期彙整三大法人買賣超為每日序列（由舊到新）。
+ * 法人歸類見 investorKey，資料集內的 total 列不重複計入。
+ */
+const groupInstitutionalByDate = (rows: { date: string; name: string; buy: number; sell: number }[], scale = 1): InstitutionalDay[] => {
+  const byDate = new Map<string, InstitutionalDay>();
+  rows.forEach(item => {
+    const day = byDate.get(item.date) || { date: item.date, foreign: 0, trust: 0, dealer: 0, total: 0 };
+    const net = (item.buy - item.sell) / scale;
+    const key = investorKey(item.name);
+    if (key) day[key] += net;
+    day.total = day.foreign + day.trust + day.dealer;
+    byDate.set(item.date, day);
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
 };
 
-export const fetchStockInstitutionalData = async (stockId: string) => {
-  const startDate = getFormattedDate(10);
-  try {
-    const res = await fetch(`${FINMIND_API_URL}?dataset=TaiwanStockInstitutionalInvestors&data_id=${stockId}&start_date=${startDate}`);
-    const json = await res.json();
-    if (json.data && json.data.length > 0) {
-      const data = json.data;
-      const lastDate = data[data.length - 1].date;
-      const dailyData = data.filter((d: any) => d.date === lastDate);
-      let foreign = 0, trust = 0, dealer = 0;
-      dailyData.forEach((item: any) => {
-        const net = item.buy - item.sell;
-        if (item.name === 'Foreign_Investor') foreign += net;
-        else if (item.name === 'Investment_Trust') trust += net;
-        else if (item.name === 'Dealer') dealer += net;
-      });
-      return { date: lastDate, foreign, trust, dealer, total: foreign + trust + dealer, status: 'success' };
+const round2 = (v: number) => parseFloat(v.toFixed(2));
+
+export const fetchInstitutionalInvestors = async (sessions = MARKET_FLOW_SESSIONS): Promise<FinMindResult<FundFlow>> => {
+  const startDate = sessionWindowStart(sessions);
+  const result = await requestDataset('TaiwanStockTotalInstitutionalInvestors', { start_date: startDate }, isTotalInstitutionalRow);
+  if (result.status === 'error') return result;
+
+  const daily = groupInstitutionalByDate(result.data, 100000000).map(d => ({
+    date: d.date, foreign: round2(d.foreign), trust: round2(d.trust), dealer: round2(d.dealer), total: round2(d.total)
+  }));
+  const latest = daily[daily.length - 1];
+  return {
+    status: 'success',
+    data: {
+      total: latest.total,
+      date: latest.date,
+      status: latest.total >= 0 ? 'Buy' : 'Sell',
+      daily
     }
-    return { status: 'nodata' };
-  } catch (error) {
-    return { status: 'error' };
-  }
+  };
 };
 
-export const fetchStockData = async (stockId: string) => {
-  const startDate = getFormattedDate(120);
-  try {
-    const [priceRes, name] = await Promise.all([
-      fetch(`${FINMIND_API_URL}?dataset=TaiwanStockPrice&data_id=${stockId}&start_date=${startDate}`),
-      fetchStockName(stockId)
-    ]);
-    
-    const priceJson = await priceRes.json();
-    if (!priceJson.data || priceJson.data.length === 0) return { error: true, id: stockId };
-
-    const perRes = await fetch(`${FINMIND_API_URL}?dataset=TaiwanStockPER&data_id=${stockId}&start_date=${startDate}`);
-    const perJson = await perRes.json();
-    const latestPER = perJson.data?.length > 0 ? perJson.data[perJson.data.length - 1] : null;
-
-    const historyData = priceJson.data;
-    const latest = historyData[historyData.length - 1];
-    const prev = historyData[historyData.length - 2] || latest;
-
-    return {
+export const fetchStockInstitutionalData = async (
+  stockId: string,
+  sessions = INSTITUTIONAL_WINDOWS[0]
+): Promise<FinMindResult<InstitutionalData>> => {
+  const startDate = sessionWindowStart(sessions);
+  const result = await requestDataset('TaiwanStockInstitutionalInvestors', { data_id: stockId, start_date: startDate }, isInstitutionalRow);
+  if (result.status === 'error') return fail(await classifyEmpty(stockId, result.error));
+
+  const daily = groupInstitutionalByDate(result.data);
+  return { status: 'success', data: { ...daily[daily.length - 1], daily } };
+};
+
+/**
+ * 獲取個股融資融券每日餘額，並計算融資使用率與券資比
+ */
+export const fetchMarginData = async (stockId: string, sessions = MARGIN_SESSIONS): Promise<FinMindResult<MarginData>> => {
+  const startDate = sessionWindowStart(sessions);
+  const result = await requestDataset('TaiwanStockMarginPurchaseShortSale', { data_id: stockId, start_date: startDate }, isMarginRow);
+  if (result.status === 'error') return fail(await classifyEmpty(stockId, result.error));
+
+  const daily: MarginDay[] = result.data.map(row => ({
+    date: row.date,
+    marginBalance: row.MarginPurchaseTodayBalance,
+    marginChange: row.MarginPurchaseTodayBalance - row.MarginPurchaseYesterdayBalance,
+    marginUsage: row.MarginPurchaseLimit > 0 ? parseFloat((row.MarginPurchaseTodayBalance / row.MarginPurchaseLimit * 100).toFixed(2)) : null,
+    shortBalance: row.ShortSaleTodayBalance,
+    shortChange: row.ShortSaleTodayBalance - row.ShortSaleYesterdayBalance,
+    shortMarginRatio: row.MarginPurchaseTodayBalance > 0 ? parseFloat((row.ShortSaleTodayBalance / row.MarginPurchaseTodayBalance * 100).toFixed(2)) : null
+  }));
+  return { status: 'success', data: { ...daily[daily.length - 1], daily } };
+};
+
+export const fetchStockData = async (stockId: string): Promise<FinMindResult<StockInfo>> => {
+  const startDate = sessionWindowStart(STOCK_HISTORY_SESSIONS);
+  const [priceResult, name, actionsResult] = await Promise.all([
+    requestDataset('TaiwanStockPrice', { data_id: stockId, start_date: startDate }, isPriceBar),
+    fetchStockName(stockId),
+    fetchCorporateActions(stockId, startDate)
+  ]);
+  if (priceResult.status === 'error') return fail(await classifyEmpty(stockId, priceResult.error));
+  // 事件資料取得失敗時退回原始價格
+  const actions = actionsResult.status === 'success' ? actionsResult.data : [];
+
+  // 本益比資料缺漏（如 ETF）不影響主要報價
+  const perResult = await requestDataset('TaiwanStockPER', { data_id: stockId, start_date: startDate }, isPERRow);
+  const valuation = perResult.status === 'success' ? perResult.data : [];
+  const latestPER = valuation.length > 0 ? valuation[valuation.length - 1] : null;
+
+  const historyData = adjustHistory(priceResult.data, actions);
+  const latest = historyData[historyData.length - 1];
+  const prev = historyData[historyData.length - 2] || latest;
+
+  return {
+    status: 'success',
+    data: {
       id: stockId,
       name: name,
       price: latest.close,
@@ -165,10 +282,112 @@ export const fetchStockData = async (stockId: string) => {
       per: latestPER?.PER,
       pbr: latestPER?.PBR,
       history: historyData,
-      lastUpdate: latest.date,
-      status: 'success'
-    };
-  } catch (error) {
-    return { error: true, id: stockId };
-  }
+      rawHistory: priceResult.data,
+      actions,
+      valuation,
+      lastUpdate: latest.date
+    }
+  };
+};
+
+/**
+ * 獲取月營收（含前一年同期以計算年增率）
+ */
+export const fetchMonthlyRevenue = (stockId: string) =>
+  requestDataset('TaiwanStockMonthRevenue', { data_id: stockId, start_date: monthsAgo(REVENUE_MONTHS) }, isMonthRevenueRow);
+
+/**
+ * 獲取綜合損益表各季科目
+ */
+export const fetchFinancialStatements = (stockId: string) =>
+  requestDataset('TaiwanStockFinancialStatements', { data_id: stockId, start_date: monthsAgo(FINANCIAL_QUARTERS * 3 + 3) }, isFinancialStatementRow);
+
+/**
+ * 獲取股利政策紀錄
+ */
+export const fetchDividends = (stockId: string) =>
+  requestDataset('TaiwanStockDividend', { data_id: stockId, start_date: monthsAgo(DIVIDEND_YEARS * 12) }, isDividendRow);
+
+/**
+ * 獲取區間內的除權息與減資事件（皆無事件時回傳空陣列）
+ */
+export const fetchCorporateActions = async (stockId: string, startDate: string): Promise<FinMindResult<CorporateAction[]>> => {
+  const [dividends, reductions] = await Promise.all([
+    requestDataset('TaiwanStockDividendResult', { data_id: stockId, start_date: startDate }, isDividendResultRow),
+    requestDataset('TaiwanStockCapitalReductionReferencePrice', { data_id: stockId, start_date: startDate }, isCapitalReductionRow)
+  ]);
+  const failed = [dividends, reductions].find(r => r.status === 'error' && r.error.kind !== 'empty');
+  if (failed && failed.status === 'error') return fail(failed.error);
+  return {
+    status: 'success',
+    data: toCorporateActions(
+      dividends.status === 'success' ? dividends.data : [],
+      reductions.status === 'success' ? reductions.data : []
+    )
+  };
+};
+
+/**
+ * 獲取指定區間的每日價格（用於回測 AI 預測）
+ */
+export const fetchPriceBars = async (stockId: string, startDate: string): Promise<FinMindResult<PriceBar[]>> => {
+  const result = await requestDataset('TaiwanStockPrice', { data_id: stockId, start_date: startDate }, isPriceBar);
+  if (result.status === 'error') console.error("Price Fetch Error:", result.error);
+  return result;
+};
+
+/**
+ * 獲取長期每日價格（圖表長區間使用）。依日曆年分段查詢，
+ * 已結束年度的查詢帶 end_date 而能長期快取，切換區間時只需補抓缺少的年度
+ */
+export const fetchPriceHistory = async (stockId: string, startDate: string): Promise<FinMindResult<PriceBar[]>> => {
+  const currentYear = Number(taipeiToday().slice(0, 4));
+  const years: number[] = [];
+  for (let y = Number(startDate.slice(0, 4)); y <= currentYear; y++) years.push(y);
+
+  const results = await Promise.all(years.map(y => requestDataset(
+    'TaiwanStockPrice',
+    y < currentYear
+      ? { data_id: stockId, start_date: `${y}-01-01`, end_date: `${y}-12-31` }
+      : { data_id: stockId, start_date: `${y}-01-01` },
+    isPriceBar
+  )));
+
+  // 上市未滿區間的年度回傳空資料，略過即可；其他錯誤則整體失敗
+  const failed = results.find(r => r.status === 'error' && r.error.kind !== 'empty');
+  if (failed && failed.status === 'error') return fail(failed.error);
+  const bars = results.flatMap(r => r.status === 'success' ? r.data : []).filter(b => b.date >= startDate);
+  if (bars.length === 0) return fail({ kind: 'empty', message: `查無 ${stockId} 自 ${startDate} 起的價格資料` });
+  return { status: 'success', data: bars };
+};
+
+/**
+ * 獲取完整股票清單（篩選器使用）
+ */
+export const fetchStockUniverse = async (): Promise<StockListRow[]> => getStockList();
+
+/**
+ * 以加權指數的交易日推得最近 N 個交易日（由舊到新）
+ */
+export const fetchRecentTradingDates = async (count: number): Promise<FinMindResult<string[]>> => {
+  // 多取一日，以免今日資料尚未公布時不足 count 日
+  const result = await requestDataset('TaiwanStockPrice', { data_id: 'TAIEX', start_date: sessionWindowStart(count + 1) }, isPriceBar);
+  if (result.status === 'error') return result;
+  return { status: 'success', data: result.data.map(d => d.date).slice(-count) };
 };
+
+/**
+ * 獲取單一交易日的券商分點買賣明細（FinMind 贊助會員資料集）
+ */
+export const fetchBranchReport = (stockId: string, date: string) =>
+  requestDataset('TaiwanStockTradingDailyReport', { data_id: stockId, date }, isBrokerTradeRow);
+
+// --- 全市場單日查詢（不帶 data_id，一次取回當日所有個股） ---
+export const fetchMarketPrices = (date: string) =>
+  requestDataset('TaiwanStockPrice', { start_date: date, end_date: date }, isPriceBar);
+
+export const fetchMarketPER = (date: string) =>
+  requestDataset('TaiwanStockPER', { start_date: date, end_date: date }, isPERRow);
+
+export const fetchMarketInstitutional = (date: string) =>
+  requestDataset('TaiwanStockInstitutionalInvestors', { start_date: date, end_date: date }, isInstitutionalRow);
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeExpiry, requestDataset, taipeiNow } from './finmindClient';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const at = (taipei: string) => Date.parse(`${taipei}+08:00`);
+
+interface Row { date: string; close: number }
+const isRow = (row: unknown): row is Row =>
+  typeof row === 'object' && row !== null && typeof (row as Row).date === 'string' && typeof (row as Row).close === 'number';
+
+const respond = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('taipeiNow', () => {
+  it('shifts UTC to the Taipei date and time', () => {
+    expect(taipeiNow(Date.parse('2026-10-16T17:30:00Z'))).toEqual({ date: '2026-10-17', time: '01:30' });
+  });
+});
+
+describe('computeExpiry', () => {
+  it('keeps closed historical ranges for 30 days', () => {
+    const now = at('2026-10-16T10:00:00');
+    expect(computeExpiry('TaiwanStockPrice', { end_date: '2026-10-15' }, [], now)).toBe(now + 30 * DAY);
+  });
+
+  it('caches only briefly before the dataset is final for the day', () => {
+    const now = at('2026-10-16T10:00:00');
+    expect(computeExpiry('TaiwanStockPrice', { start_date: '2026-10-01' }, [], now)).toBe(now + 10 * MINUTE);
+  });
+
+  it('caches until next morning once the day is final', () => {
+    const now = at('2026-10-16T15:00:00');
+    const rows = [{ date: '2026-10-15' }, { date: '2026-10-16' }];
+    expect(computeExpiry('TaiwanStockPrice', { start_date: '2026-10-01' }, rows, now)).toBe(at('2026-10-17T08:00:00'));
+  });
+
+  it('keeps the short TTL while the source still lacks the latest session', () => {
+    const now = at('2026-10-16T15:00:00');
+    const rows = [{ date: '2026-10-14' }, { date: '2026-10-15' }];
+    expect(computeExpiry('TaiwanStockPrice', { start_date: '2026-10-01' }, rows, now)).toBe(now + 10 * MINUTE);
+    // 週末查詢時最近交易日為週五
+    const weekend = at('2026-10-18T15:00:00');
+    expect(computeExpiry('TaiwanStockPrice', { start_date: '2026-10-01' }, [{ date: '2026-10-16' }], weekend)).toBe(at('2026-10-19T08:00:00'));
+  });
+
+  it('uses the fixed TTL for list datasets', () => {
+    const now = at('2026-10-16T10:00:00');
+    expect(computeExpiry('TaiwanStockInfo', {}, [], now)).toBe(now + DAY);
+  });
+});
+
+describe('requestDataset', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shares one network request between identical concurrent calls', async () => {
+    const fetchMock = vi.fn(async () => respond({ data: [{ date: '2026-10-16', close: 100 }] }));
+    vi.stubGlobal('fetch', fetchMock);
+    const params = { data_id: '2330', start_date: '2026-10-01' };
+    const [a, b] = await Promise.all([
+      requestDataset('TaiwanStockPrice', params, isRow),
+      requestDataset('TaiwanStockPrice', params, isRow)
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(a).toEqual({ status: 'success', data: [{ date: '2026-10-16', close: 100 }] });
+    expect(b).toEqual(a);
+  });
+
+  it('runs at most three requests at a time', async () => {
+    let active = 0, peak = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 500));
+      active--;
+      return respond({ data: [{ date: '2026-10-16', close: 1 }] });
+    }));
+    await Promise.all(['1101', '1102', '1103', '1104', '1105'].map(id =>
+      requestDataset('TaiwanStockPrice', { data_id: id, start_date: '2026-10-01' }, isRow)
+    ));
+    expect(peak).toBe(3);
+  });
+
+  it('classifies quota, empty and malformed responses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => respond({ msg: '超過額度' }, 402)));
+    const quota = await requestDataset('TaiwanStockPrice', { data_id: '2317' }, isRow);
+    expect(quota.status === 'error' && quota.error.kind).toBe('quota');
+
+    vi.stubGlobal('fetch', vi.fn(async () => respond({ data: [] })));
+    const empty = await requestDataset('TaiwanStockPrice', { data_id: '2454' }, isRow);
+    expect(empty.status === 'error' && empty.error.kind).toBe('empty');
+
+    vi.stubGlobal('fetch', vi.fn(async () => respond({ data: [{ date: '2026-10-16', close: '100' }] })));
+    const malformed = await requestDataset('TaiwanStockPrice', { data_id: '2603' }, isRow);
+    expect(malformed.status === 'error' && malformed.error.kind).toBe('bad_response');
+  });
+});
@@ -0,0 +1,246 @@
+import { FinMindError, FinMindResult } from '../types';
+import { getCached, setCached } from './cacheStore';
+import { lastTradingDayOnOrBefore } from './tradingCalendar';
+
+// 設定 FINMIND_PROXY=true 時改經由 server/index.ts 轉送，Token 只保留在伺服器端
+const FINMIND_PROXY = process.env.FINMIND_PROXY === 'true';
+const FINMIND_API_BASE = FINMIND_PROXY ? "/api/finmind" : "https://api.finmindtrade.com/api/v4";
+const FINMIND_TOKEN = FINMIND_PROXY ? '' : process.env.FINMIND_TOKEN || '';
+
+// FinMind 每小時請求上限：匿名 300 次，帶 Token 600 次
+const HOURLY_LIMIT = FINMIND_TOKEN ? 600 : 300;
+const MAX_CONCURRENT = 3;
+const MIN_INTERVAL_MS = 150;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type RowValidator<T> = (row: unknown) => row is T;
+
+// 回應內的物件列，供各資料集的 RowValidator 檢查欄位
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+const text = (v: unknown, fallback: string) => typeof v === 'string' && v ? v : fallback;
+
+interface DatasetPolicy {
+  // 台北時間幾點後當日資料視為定稿（HH:mm）
+  finalizeAt: string;
+  // 當日資料尚未定稿時的快取時間
+  pendingTtl: number;
+  // 每個交易日都有資料，定稿後最後一筆應為最近交易日
+  daily?: boolean;
+}
+
+// 未列出的資料集沿用 DEFAULT_POLICY
+const DATASET_POLICIES: Record<string, DatasetPolicy> = {
+  TaiwanStockPrice: { finalizeAt: '14:30', pendingTtl: 10 * MINUTE, daily: true },
+  TaiwanStockPER: { finalizeAt: '17:30', pendingTtl: 30 * MINUTE, daily: true },
+  TaiwanStockInstitutionalInvestors: { finalizeAt: '16:00', pendingTtl: 15 * MINUTE, daily: true },
+  TaiwanStockTotalInstitutionalInvestors: { finalizeAt: '15:30', pendingTtl: 15 * MINUTE, daily: true },
+  TaiwanStockTradingDailyReport: { finalizeAt: '17:00', pendingTtl: 30 * MINUTE },
+  TaiwanStockMarginPurchaseShortSale: { finalizeAt: '21:30', pendingTtl: 30 * MINUTE, daily: true },
+  // 財報類資料不定期公布，未定稿前以較長時間快取
+  TaiwanStockMonthRevenue: { finalizeAt: '23:59', pendingTtl: 6 * HOUR },
+  TaiwanStockFinancialStatements: { finalizeAt: '23:59', pendingTtl: 6 * HOUR },
+  TaiwanStockDividend: { finalizeAt: '23:59', pendingTtl: 6 * HOUR },
+  TaiwanStockDividendResult: { finalizeAt: '23:59', pendingTtl: 6 * HOUR },
+  TaiwanStockCapitalReductionReferencePrice: { finalizeAt: '23:59', pendingTtl: 6 * HOUR }
+};
+const DEFAULT_POLICY: DatasetPolicy = { finalizeAt: '18:00', pendingTtl: 30 * MINUTE };
+
+// 不走通用 /data 端點的資料集（分點資料以 data_id + date 查詢單日）
+const DATASET_ENDPOINTS: Record<string, string> = {
+  TaiwanStockTradingDailyReport: 'taiwan_stock_trading_daily_report'
+};
+
+// 不以日期區間查詢的清單類資料集
+const STATIC_DATASET_TTL: Record<string, number> = {
+  TaiwanStockInfo: DAY
+};
+
+/**
+ * 以台北時間 (UTC+8) 表示的日期與時刻
+ */
+export const taipeiNow = (now = Date.now()) => {
+  const iso = new Date(now + 8 * HOUR).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+/**
+ * 依資料集與查詢區間決定快取到期時間：
+ * 結束日早於今日的歷史區間不會再變動；含今日的區間在定稿時刻後快取到隔日早上，之前只短暫快取。
+ * 定稿時刻後回應仍停在前一交易日（資料源尚未更新）時，同樣只短暫快取。
+ */
+export const computeExpiry = (dataset: string, params: Record<string, string>, rows: unknown[], now = Date.now()): number => {
+  if (STATIC_DATASET_TTL[dataset]) return now + STATIC_DATASET_TTL[dataset];
+
+  const { date: today, time } = taipeiNow(now);
+  const endDate = params.end_date || params.date;
+  if (endDate && endDate < today) return now + 30 * DAY;
+
+  const policy = DATASET_POLICIES[dataset] || DEFAULT_POLICY;
+  if (time >= policy.finalizeAt) {
+    const lastDate = rows.reduce<string>((latest, row) => isRecord(row) && typeof row.date === 'string' && row.date > latest ? row.date : latest, '');
+    if (policy.daily && lastDate && lastDate < lastTradingDayOnOrBefore(today)) {
+      return now + policy.pendingTtl;
+    }
+    // 快取至隔日台北時間 08:00
+    return Date.parse(`${today}T08:00:00+08:00`) + DAY;
+  }
+  return now + policy.pendingTtl;
+};
+
+// --- 共用請求佇列 ---
+let active = 0;
+let lastStart = 0;
+const waiting: (() => void)[] = [];
+const requestLog: number[] = [];
+
+const pump = () => {
+  if (active >= MAX_CONCURRENT || waiting.length === 0) return;
+  const wait = Math.max(0, lastStart + MIN_INTERVAL_MS - Date.now());
+  if (wait > 0) {
+    setTimeout(pump, wait);
+    return;
+  }
+  active++;
+  lastStart = Date.now();
+  waiting.shift()!();
+  pump();
+};
+
+const schedule = async <T>(task: () => Promise<T>): Promise<T> => {
+  await new Promise<void>(resolve => {
+    waiting.push(resolve);
+    pump();
+  });
+  try {
+    return await task();
+  } finally {
+    active--;
+    pump();
+  }
+};
+
+const withinHourlyBudget = () => {
+  const cutoff = Date.now() - HOUR;
+  while (requestLog.length > 0 && requestLog[0] < cutoff) requestLog.shift();
+  return requestLog.length < HOURLY_LIMIT;
+};
+
+/**
+ * 目前一小時內已送出的 FinMind 請求數與上限
+ */
+export const getRequestBudget = () => {
+  withinHourlyBudget();
+  return { used: requestLog.length, limit: HOURLY_LIMIT, hasToken: !!FINMIND_TOKEN };
+};
+
+const fail = <T>(error: FinMindError): FinMindResult<T> => ({ status: 'error', error });
+
+const fetchDataset = async <T>(
+  dataset: string,
+  params: Record<string, string>,
+  validate: RowValidator<T>
+): Promise<FinMindResult<T[]>> => {
+  if (!withinHourlyBudget()) {
+    return fail({ kind: 'quota', message: `已達每小時 ${HOURLY_LIMIT} 次請求上限，暫停送出請求` });
+  }
+  requestLog.push(Date.now());
+
+  const endpoint = DATASET_ENDPOINTS[dataset];
+  const url = endpoint
+    ? `${FINMIND_API_BASE}/${endpoint}?${new URLSearchParams(params)}`
+    : `${FINMIND_API_BASE}/data?${new URLSearchParams({ dataset, ...params })}`;
+  const headers: Record<string, string> = FINMIND_TOKEN ? { Authorization: `Bearer ${FINMIND_TOKEN}` } : {};
+  let res: Response;
+  try {
+    res = await fetch(url, { headers });
+  } catch (e) {
+    return fail({ kind: 'network', message: e instanceof Error ? e.message : String(e) });
+  }
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch (e) {
+    if (!res.ok) return fail({ kind: 'http', status: res.status, message: res.statusText });
+    return fail({ kind: 'bad_response', status: res.status, message: '回應不是有效的 JSON' });
+  }
+
+  const json = isRecord(body) ? body : {};
+
+  // FinMind 以 HTTP 402 或回應內 status 402 表示超過額度
+  if (res.status === 402 || json.status === 402) {
+    return fail({ kind: 'quota', status: 402, message: text(json.msg, 'FinMind 請求次數已達上限') });
+  }
+  // 代理伺服器的每用戶端限流
+  if (res.status === 429) return fail({ kind: 'quota', status: 429, message: text(json.error, '請求過於頻繁，請稍後再試') });
+  if (!res.ok) return fail({ kind: 'http', status: res.status, message: text(json.msg, res.statusText) });
+  if (!Array.isArray(json.data)) {
+    return fail({ kind: 'bad_response', status: res.status, message: text(json.msg, '回應缺少 data 欄位') });
+  }
+
+  const data: unknown[] = json.data;
+  const rows = data.filter(validate);
+  if (rows.length < data.length) {
+    console.warn(`FinMind ${dataset}: 略過 ${data.length - rows.length} 筆格式不符的資料`);
+  }
+  if (data.length > 0 && rows.length === 0) {
+    return fail({ kind: 'bad_response', status: res.status, message: `${dataset} 資料欄位格式不符` });
+  }
+  if (rows.length === 0) return fail({ kind: 'empty', message: `${dataset} 查無資料` });
+  return { status: 'success', data: rows };
+};
+
+// 進行中的請求依快取鍵共用；結果不綁定型別，取用時以呼叫端的 validate 重新檢查
+const inFlight = new Map<string, Promise<FinMindResult<unknown[]>>>();
+
+/**
+ * 呼叫 FinMind v4 資料端點：先查 IndexedDB 快取，相同請求共用同一個進行中的 Promise，
+ * 實際網路請求經由共用佇列限速，並驗證回應格式、將失敗情況分類為 FinMindError
+ */
+export const requestDataset = async <T>(
+  dataset: string,
+  params: Record<string, string>,
+  validate: RowValidator<T>
+): Promise<FinMindResult<T[]>> => {
+  const key = `${dataset}?${new URLSearchParams(params)}`;
+  const pending = inFlight.get(key);
+  if (pending) {
+    const result = await pending;
+    return result.status === 'success' ? { status: 'success', data: result.data.filter(validate) } : result;
+  }
+
+  const task = (async (): Promise<FinMindResult<T[]>> => {
+    const cached = await getCached<T[]>(key);
+    if (cached) return { status: 'success', data: cached };
+
+    const result = await schedule(() => fetchDataset(dataset, params, validate));
+    if (result.status === 'success') {
+      await setCached(key, result.data, computeExpiry(dataset, params, result.data));
+    }
+    return result;
+  })();
+
+  inFlight.set(key, task);
+  try {
+    return await task;
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+/**
+ * 將使用者匯入的資料寫入與 requestDataset 相同的快取鍵，之後的查詢直接取用而不送出請求
+ */
+export const primeDataset = async <T>(dataset: string, params: Record<string, string>, rows: T[]) => {
+  await setCached(`${dataset}?${new URLSearchParams(params)}`, rows, Date.now() + 365 * DAY);
+};
+
+/**
+ * 只查快取、不送出請求（已知無法取得時，仍可使用先前匯入或快取的資料）
+ */
+export const readCachedDataset = <T>(dataset: string, params: Record<string, string>) =>
+  getCached<T[]>(`${dataset}?${new URLSearchParams(params)}`);
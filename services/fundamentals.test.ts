@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cashYield, computeDividendYears, computeQuarterlyFinancials, computeRevenueGrowth, computeValuationRiver, trailingEps
+} from './fundamentals';
+import { DividendRow, FinancialStatementRow, MonthRevenueRow, PERRow, PriceBar, QuarterFinancial } from '../types';
+
+const revenue = (revenue_year: number, revenue_month: number, value: number): MonthRevenueRow =>
+  ({ date: `${revenue_year}-${String(revenue_month).padStart(2, '0')}-10`, stock_id: '2330', revenue: value, revenue_year, revenue_month });
+
+const statement = (date: string, type: string, value: number): FinancialStatementRow => ({ date, stock_id: '2330', type, value });
+
+const quarter = (eps: number | null): QuarterFinancial =>
+  ({ date: '2026-03-31', label: '2026Q1', revenue: null, eps, grossMargin: null, operatingMargin: null });
+
+const row = (year: string, date: string, cash: number, exDate?: string): DividendRow => ({
+  date, stock_id: '2330', year,
+  CashEarningsDistribution: cash, StockEarningsDistribution: 0,
+  CashExDividendTradingDate: exDate
+});
+
+const bar = (date: string, close: number): PriceBar => ({
+  date, stock_id: '2330', Trading_Volume: 0, Trading_money: 0, open: close, max: close, min: close, close, spread: 0, Trading_turnover: 0
+});
+
+const per = (date: string, PER: number): PERRow => ({ date, stock_id: '2330', dividend_yield: 0, PER, PBR: 0 });
+
+describe('computeRevenueGrowth', () => {
+  it('compares each month with the previous month and the same month last year', () => {
+    const months = computeRevenueGrowth([revenue(2026, 10, 150), revenue(2025, 10, 100), revenue(2025, 12, 200), revenue(2026, 1, 220)]);
+    expect(months).toEqual([
+      { month: '2025-10', revenue: 100, mom: null, yoy: null },
+      { month: '2025-12', revenue: 200, mom: null, yoy: null },
+      { month: '2026-01', revenue: 220, mom: 10, yoy: null },
+      { month: '2026-10', revenue: 150, mom: null, yoy: 50 }
+    ]);
+  });
+});
+
+describe('computeQuarterlyFinancials', () => {
+  it('pivots statement items per quarter and derives margins', () => {
+    const quarters = computeQuarterlyFinancials([
+      statement('2026-03-31', 'Revenue', 1000),
+      statement('2026-03-31', 'GrossProfit', 600),
+      statement('2026-03-31', 'OperatingIncome', 450),
+      statement('2026-03-31', 'EPS', 12),
+      statement('2025-12-31', 'EPS', 10)
+    ]);
+    expect(quarters).toEqual([
+      { date: '2025-12-31', label: '2025Q4', revenue: null, eps: 10, grossMargin: null, operatingMargin: null },
+      { date: '2026-03-31', label: '2026Q1', revenue: 1000, eps: 12, grossMargin: 60, operatingMargin: 45 }
+    ]);
+  });
+
+  it('sums trailing EPS only with four complete quarters', () => {
+    expect(trailingEps([1, 2, 3, 4.05].map(quarter))).toBe(10.05);
+    expect(trailingEps([2, 3, 4].map(quarter))).toBeNull();
+    expect(trailingEps([1, null, 3, 4].map(quarter))).toBeNull();
+  });
+});
+
+describe('computeDividendYears', () => {
+  it('sums distributions per year, newest first', () => {
+    const years = computeDividendYears([
+      row('111年', '2022-02-15', 11, '2022-06-16'),
+      row('112年', '2023-02-14', 5, '2023-06-15'),
+      row('112年', '2023-08-08', 6, '2023-12-14')
+    ]);
+    expect(years.map(y => [y.year, y.cash, y.exDate])).toEqual([
+      ['112', 11, '2023-12-14'],
+      ['111', 11, '2022-06-16']
+    ]);
+    expect(cashYield(years[0], 550)).toBe(2);
+    expect(cashYield(years[0], 0)).toBeNull();
+  });
+
+  it('sums quarterly dividends into their ROC year, newest first', () => {
+    const years = computeDividendYears([
+      row('112年第1季', '2023-05-15', 3, '2023-09-14'),
+      row('112年第2季', '2023-08-08', 3, '2023-12-14'),
+      row('112年第3季', '2023-11-14', 3.5, '2024-03-14'),
+      row('112年第4季', '2024-02-06', 3.5, '2024-06-13'),
+      row('99年', '2010-03-01', 3, '2010-07-01')
+    ]);
+    expect(years.map(y => [y.year, y.cash, y.exDate])).toEqual([
+      ['112', 13, '2024-06-13'],
+      ['99', 3, '2010-07-01']
+    ]);
+    expect(cashYield(years[0], 650)).toBe(2);
+  });
+});
+
+describe('computeValuationRiver', () => {
+  it('projects historical multiple quantiles onto each close', () => {
+    const history = [bar('2026-10-14', 100), bar('2026-10-15', 110), bar('2026-10-16', 120)];
+    const valuation = [per('2026-10-13', 9), per('2026-10-14', 10), per('2026-10-15', 11), per('2026-10-16', 12), per('2026-10-16', 0)];
+    const river = computeValuationRiver(history, valuation, 'PER');
+    expect(river.multiples).toEqual([10, 10.5, 11, 11.5, 12]);
+    expect(river.points[0]).toEqual({ date: '2026-10-14', close: 100, bands: [100, 105, 110, 115, 120] });
+    expect(river.current).toBe(12);
+    expect(river.percentile).toBe(100);
+  });
+
+  it('needs at least two usable days', () => {
+    expect(computeValuationRiver([bar('2026-10-16', 120)], [per('2026-10-16', 12)], 'PER').points).toEqual([]);
+  });
+});
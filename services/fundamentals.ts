@@ -0,0 +1,150 @@
+import { describeFinMindError, fetchDividends, fetchFinancialStatements, fetchMonthlyRevenue } from './finmind';
+import {
+  DividendRow, DividendYear, FinancialStatementRow, FundamentalsData, MonthRevenueRow, PERRow, PriceBar, QuarterFinancial,
+  RevenueMonth, ValuationRiverPoint
+} from '../types';
+
+const pct = (value: number, base: number) => base ? parseFloat(((value - base) / Math.abs(base) * 100).toFixed(2)) : null;
+const ratio = (value: number | undefined, base: number | undefined) =>
+  value !== undefined && base ? parseFloat((value / base * 100).toFixed(2)) : null;
+
+/**
+ * 月營收與月增率 (MoM)、年增率 (YoY)，由舊到新
+ */
+export const computeRevenueGrowth = (rows: MonthRevenueRow[]): RevenueMonth[] => {
+  const byMonth = new Map<string, number>();
+  rows.forEach(r => byMonth.set(`${r.revenue_year}-${String(r.revenue_month).padStart(2, '0')}`, r.revenue));
+  const months = [...byMonth.keys()].sort();
+  return months.map(month => {
+    const [y, m] = month.split('-').map(Number);
+    const prevMonth = m === 1 ? `${y - 1}-12` : `${y}-${String(m - 1).padStart(2, '0')}`;
+    const lastYear = `${y - 1}-${String(m).padStart(2, '0')}`;
+    const revenue = byMonth.get(month)!;
+    return {
+      month,
+      revenue,
+      mom: byMonth.has(prevMonth) ? pct(revenue, byMonth.get(prevMonth)!) : null,
+      yoy: byMonth.has(lastYear) ? pct(revenue, byMonth.get(lastYear)!) : null
+    };
+  });
+};
+
+const quarterLabel = (date: string) => `${date.slice(0, 4)}Q${Math.ceil(Number(date.slice(5, 7)) / 3)}`;
+
+/**
+ * 彙整各季 EPS 與毛利率、營業利益率（金融業等無毛利科目時為 null），由舊到新
+ */
+export const computeQuarterlyFinancials = (rows: FinancialStatementRow[]): QuarterFinancial[] => {
+  const byDate = new Map<string, Record<string, number>>();
+  rows.forEach(r => byDate.set(r.date, { ...(byDate.get(r.date) || {}), [r.type]: r.value }));
+  return [...byDate.keys()].sort().map(date => {
+    const items = byDate.get(date)!;
+    return {
+      date,
+      label: quarterLabel(date),
+      revenue: items.Revenue ?? null,
+      eps: items.EPS ?? null,
+      grossMargin: ratio(items.GrossProfit, items.Revenue),
+      operatingMargin: ratio(items.OperatingIncome, items.Revenue)
+    };
+  });
+};
+
+/**
+ * 股利所屬的民國年度：FinMind 的 year 欄位可能是「112年」或季配息的「112年第4季」，
+ * 無法解析時以公告日期換算
+ */
+const dividendRocYear = (row: DividendRow) => {
+  const match = row.year.match(/(\d{2,3})\s*年/);
+  return match ? match[1] : String(Number(row.date.slice(0, 4)) - 1911);
+};
+
+/**
+ * 依股利所屬年度加總現金與股票股利（季配息公司一年有多筆，依民國年度合併），由新到舊
+ */
+export const computeDividendYears = (rows: DividendRow[]): DividendYear[] => {
+  const byYear = new Map<string, DividendYear>();
+  rows.forEach(r => {
+    const year = dividendRocYear(r);
+    const entry = byYear.get(year) || { year, cash: 0, stock: 0, exDate: null };
+    entry.cash += r.CashEarningsDistribution + (r.CashStatutorySurplus || 0);
+    entry.stock += r.StockEarningsDistribution + (r.StockStatutorySurplus || 0);
+    if (r.CashExDividendTradingDate && (!entry.exDate || r.CashExDividendTradingDate > entry.exDate)) {
+      entry.exDate = r.CashExDividendTradingDate;
+    }
+    byYear.set(year, entry);
+  });
+  return [...byYear.values()]
+    .map(d => ({ ...d, cash: parseFloat(d.cash.toFixed(4)), stock: parseFloat(d.stock.toFixed(4)) }))
+    .sort((a, b) => Number(b.year) - Number(a.year));
+};
+
+/**
+ * 近四季 EPS 合計（不足四季時為 null）
+ */
+export const trailingEps = (quarters: QuarterFinancial[]) => {
+  const recent = quarters.slice(-4);
+  if (recent.length < 4 || recent.some(q => q.eps === null)) return null;
+  return parseFloat(recent.reduce((t, q) => t + (q.eps as number), 0).toFixed(2));
+};
+
+/**
+ * 以現價計算的現金殖利率 (%)
+ */
+export const cashYield = (dividend: DividendYear, price: number) =>
+  price > 0 ? parseFloat((dividend.cash / price * 100).toFixed(2)) : null;
+
+/**
+ * 取得基本面三項資料；任一資料集失敗時其餘部分照常回傳
+ */
+export const fetchFundamentals = async (stockId: string): Promise<FundamentalsData> => {
+  const [revenue, financials, dividends] = await Promise.all([
+    fetchMonthlyRevenue(stockId),
+    fetchFinancialStatements(stockId),
+    fetchDividends(stockId)
+  ]);
+  const errors: string[] = [];
+  if (revenue.status === 'error') errors.push(`月營收：${describeFinMindError(revenue.error)}`);
+  if (financials.status === 'error') errors.push(`季財報：${describeFinMindError(financials.error)}`);
+  if (dividends.status === 'error' && dividends.error.kind !== 'empty') errors.push(`股利：${describeFinMindError(dividends.error)}`);
+  return {
+    revenue: revenue.status === 'success' ? computeRevenueGrowth(revenue.data) : [],
+    quarters: financials.status === 'success' ? computeQuarterlyFinancials(financials.data) : [],
+    dividends: dividends.status === 'success' ? computeDividendYears(dividends.data) : [],
+    errors
+  };
+};
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const RIVER_QUANTILES = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * 本益比 / 股淨比河流圖：以每日收盤 ÷ 倍數反推 EPS / 每股淨值，再乘上歷史倍數分位得到各帶價位。
+ * 倍數由交易所以原始收盤計算，history 需傳入未還原的價格
+ */
+export const computeValuationRiver = (
+  history: PriceBar[],
+  valuation: PERRow[],
+  metric: 'PER' | 'PBR'
+): { points: ValuationRiverPoint[]; multiples: number[]; current: number | null; percentile: number | null } => {
+  const closeByDate = new Map(history.map(h => [h.date, h.close]));
+  const rows = valuation.filter(v => v[metric] > 0 && closeByDate.has(v.date));
+  if (rows.length < 2) return { points: [], multiples: [], current: null, percentile: null };
+
+  const sorted = rows.map(r => r[metric]).sort((a, b) => a - b);
+  const multiples = RIVER_QUANTILES.map(q => parseFloat(quantile(sorted, q).toFixed(2)));
+  const points = rows.map(r => {
+    const close = closeByDate.get(r.date)!;
+    const base = close / r[metric];
+    return { date: r.date, close, bands: multiples.map(m => parseFloat((base * m).toFixed(2))) };
+  });
+  const current = rows[rows.length - 1][metric];
+  const percentile = parseFloat((sorted.filter(v => v <= current).length / sorted.length * 100).toFixed(0));
+  return { points, multiples, current, percentile };
+};
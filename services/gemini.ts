@@ -1,83 +1,92 @@
+import { AnalysisContext, ChatContext, ChatMessage, ComparisonAnalysis, ComparisonMetrics } from "../types";
 
-import { GoogleGenAI, Type } from "@google/genai";
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+/**
+ * 呼叫自家 Node 伺服器（server/index.ts）的 Gemini 端點，API 金鑰只存在伺服器端
+ */
+const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(json?.error || (res.status === 429 ? 'AI 分析請求過於頻繁，請稍後再試' : `AI 伺服器錯誤 (HTTP ${res.status})`));
+  }
+  return json as T;
+};
 
-export const getGeminiAnalysis = async (stockData: any, instData: any): Promise<any> => {
-  const recentHistory = stockData.history.slice(-10).map((h: any) => ({
-    date: h.date,
-    close: h.close,
-    vol: h.Trading_Volume
-  }));
+export const getGeminiAnalysis = async (
+  context: AnalysisContext,
+  model = DEFAULT_GEMINI_MODEL,
+  correction = ''
+): Promise<unknown> => {
+  try {
+    // 回傳未經驗證的模型輸出（JSON 無效時為 null），由 analysisValidator 檢查
+    const { analysis } = await postJson<{ analysis: unknown }>('/api/analysis', { context, model, correction });
+    return analysis;
+  } catch (error) {
+    console.error("Gemini Analysis Failed:", error);
+    throw error;
+  }
+};
 
-  const prompt = `
-    請分析以下台股數據並撰寫專業分析報告：
-    股票代號/名稱: ${stockData.id}
-    當前價格: ${stockData.price}
-    今日漲跌: ${stockData.change} (${stockData.pct}%)
-    本益比 (PER): ${stockData.per || 'N/A'}, 股淨比 (PBR): ${stockData.pbr || 'N/A'}
-    法人動向 (最後交易日): 外資: ${instData.foreign}, 投信: ${instData.trust}, 自營商: ${instData.dealer}
-    最近 10 日歷史走勢: ${JSON.stringify(recentHistory)}
+export const getComparativeAnalysis = async (metrics: ComparisonMetrics[], model = DEFAULT_GEMINI_MODEL): Promise<ComparisonAnalysis> => {
+  try {
+    return await postJson<ComparisonAnalysis>('/api/compare', { metrics, model });
+  } catch (error) {
+    console.error("Gemini Comparison Failed:", error);
+    throw error;
+  }
+};
 
-    任務要求：
-    1. 提供技術面總結（使用台灣繁體中文專業財經用語）。
-    2. 基於本益比/股淨比評估財務健康度。
-    3. 分析法人籌碼情緒。
-    4. 預測未來 3 日價格走勢（附帶邏輯說明）。
-    5. 給出一個 0-100 的 AI 綜合評分。
-    6. 根據籌碼特性，建議 3 家可能正在佈局的活躍主力券商名稱。
-  `;
+/**
+ * 讀取純文字串流回應，逐段交給 onChunk，回傳完整內容
+ */
+const readTextStream = async (res: Response, onChunk: (text: string) => void): Promise<string> => {
+  if (!res.body) {
+    const text = await res.text();
+    onChunk(text);
+    return text;
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let full = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const text = decoder.decode(value, { stream: true });
+    if (text) {
+      full += text;
+      onChunk(text);
+    }
+  }
+  return full;
+};
 
+export const streamGeminiChat = async (
+  context: ChatContext,
+  messages: ChatMessage[],
+  onChunk: (text: string) => void,
+  model = DEFAULT_GEMINI_MODEL,
+  signal?: AbortSignal
+): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            financial: { type: Type.STRING },
-            institutional: { type: Type.STRING },
-            prediction: {
-              type: Type.OBJECT,
-              properties: {
-                days: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      date: { type: Type.STRING },
-                      price: { type: Type.NUMBER },
-                      low: { type: Type.NUMBER },
-                      high: { type: Type.NUMBER }
-                    }
-                  }
-                }
-              }
-            },
-            score: { type: Type.NUMBER },
-            brokerages: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  amount: { type: Type.NUMBER },
-                  type: { type: Type.STRING }
-                }
-              }
-            }
-          },
-          required: ["summary", "financial", "institutional", "prediction", "score", "brokerages"]
-        }
-      }
+    const res = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ context, messages, model }),
+      signal
     });
-
-    return JSON.parse(response.text || '{}');
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      throw new Error(json?.error || (res.status === 429 ? 'AI 請求過於頻繁，請稍後再試' : `AI 伺服器錯誤 (HTTP ${res.status})`));
+    }
+    return await readTextStream(res, onChunk);
   } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
+    console.error("Gemini Chat Failed:", error);
     throw error;
   }
 };
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { bollinger, ema, kd, macd, rsi, sma, summarizeIndicators } from './indicators';
+import { IndicatorPoint } from '../types';
+
+const point = (overrides: Partial<IndicatorPoint>): IndicatorPoint => ({
+  date: '2026-10-16', ma5: null, ma20: null, ma60: null, k: null, d: null, dif: null, macd: null, osc: null,
+  rsi: null, bbUpper: null, bbMiddle: null, bbLower: null, ...overrides
+});
+
+describe('moving averages', () => {
+  it('leaves the warm-up window empty', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('seeds the EMA with the SMA of the first period', () => {
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe('oscillators', () => {
+  it('smooths KD from 50 with a 1/3 weight', () => {
+    const closes = [1, 2, 3];
+    const { k, d } = kd(closes, closes, closes, 3);
+    expect(k[1]).toBeNull();
+    expect(k[2]).toBeCloseTo(200 / 3);
+    expect(d[2]).toBeCloseTo(500 / 9);
+  });
+
+  it('returns 100 RSI without losses and 50 for equal gains and losses', () => {
+    const rising = Array.from({ length: 15 }, (_, i) => 10 + i);
+    expect(rsi(rising)[13]).toBeNull();
+    expect(rsi(rising)[14]).toBe(100);
+    expect(rsi([1, 2, 1], 2)[2]).toBe(50);
+  });
+
+  it('starts the MACD signal line after the slow EMA and signal warm-up', () => {
+    const flat = Array.from({ length: 40 }, () => 50);
+    const result = macd(flat);
+    expect(result.dif.findIndex(v => v !== null)).toBe(25);
+    expect(result.macd.findIndex(v => v !== null)).toBe(33);
+    expect(result.osc[39]).toBe(0);
+  });
+
+  it('collapses the Bollinger band on a flat series', () => {
+    const { upper, middle, lower } = bollinger(Array.from({ length: 20 }, () => 30));
+    expect([upper[19], middle[19], lower[19]]).toEqual([30, 30, 30]);
+    expect(upper[18]).toBeNull();
+  });
+});
+
+describe('summarizeIndicators', () => {
+  it('returns null without data', () => {
+    expect(summarizeIndicators([], 100)).toBeNull();
+  });
+
+  it('detects crosses, band breaks and moving-average alignment', () => {
+    const prev = point({ k: 40, d: 45, osc: -0.1 });
+    const latest = point({ k: 50, d: 46, osc: 0.2, ma5: 105, ma20: 100, ma60: 95, bbUpper: 104 });
+    const snapshot = summarizeIndicators([prev, latest], 106);
+    expect(snapshot?.signals).toEqual(['KD 黃金交叉', 'MACD 柱狀體翻紅', '收盤突破布林上軌', '均線多頭排列']);
+  });
+});
@@ -0,0 +1,189 @@
+import { IndicatorPoint, IndicatorSnapshot, PriceBar } from '../types';
+
+const round = (value: number | null, digits = 2) =>
+  value === null || !Number.isFinite(value) ? null : parseFloat(value.toFixed(digits));
+
+/**
+ * 簡單移動平均（前 period-1 筆資料不足時回傳 null）
+ */
+export const sma = (values: number[], period: number): (number | null)[] => {
+  let sum = 0;
+  return values.map((v, i) => {
+    sum += v;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+};
+
+/**
+ * 指數移動平均，以前 period 筆的 SMA 作為起始值
+ */
+export const ema = (values: number[], period: number): (number | null)[] => {
+  const alpha = 2 / (period + 1);
+  let prev: number | null = null;
+  return values.map((v, i) => {
+    if (i < period - 1) return null;
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    } else {
+      prev = v * alpha + prev * (1 - alpha);
+    }
+    return prev;
+  });
+};
+
+/**
+ * KD 隨機指標 (台灣慣用 9,3,3：K、D 以 1/3 權重平滑，初始值 50)
+ */
+export const kd = (highs: number[], lows: number[], closes: number[], period = 9) => {
+  const k: (number | null)[] = [];
+  const d: (number | null)[] = [];
+  let prevK = 50, prevD = 50;
+  closes.forEach((close, i) => {
+    if (i < period - 1) {
+      k.push(null);
+      d.push(null);
+      return;
+    }
+    const hh = Math.max(...highs.slice(i - period + 1, i + 1));
+    const ll = Math.min(...lows.slice(i - period + 1, i + 1));
+    const rsv = hh === ll ? 50 : ((close - ll) / (hh - ll)) * 100;
+    prevK = (2 / 3) * prevK + (1 / 3) * rsv;
+    prevD = (2 / 3) * prevD + (1 / 3) * prevK;
+    k.push(prevK);
+    d.push(prevD);
+  });
+  return { k, d };
+};
+
+/**
+ * MACD (12,26,9)：DIF = EMA12 - EMA26，MACD 為 DIF 的 9 日 EMA，OSC 為兩者差
+ */
+export const macd = (closes: number[], fast = 12, slow = 26, signal = 9) => {
+  const emaFast = ema(closes, fast);
+  const emaSlow = ema(closes, slow);
+  const dif = closes.map((_, i) =>
+    emaFast[i] !== null && emaSlow[i] !== null ? (emaFast[i] as number) - (emaSlow[i] as number) : null
+  );
+  const firstValid = dif.findIndex(v => v !== null);
+  const signalLine: (number | null)[] = dif.map(() => null);
+  if (firstValid >= 0) {
+    const validDif = dif.slice(firstValid) as number[];
+    ema(validDif, signal).forEach((v, i) => { signalLine[firstValid + i] = v; });
+  }
+  const osc = dif.map((v, i) =>
+    v !== null && signalLine[i] !== null ? v - (signalLine[i] as number) : null
+  );
+  return { dif, macd: signalLine, osc };
+};
+
+/**
+ * RSI，採 Wilder 平滑法
+ */
+export const rsi = (closes: number[], period = 14): (number | null)[] => {
+  const result: (number | null)[] = closes.map(() => null);
+  if (closes.length <= period) return result;
+  let gain = 0, loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = closes[i] - closes[i - 1];
+    if (diff >= 0) gain += diff; else loss -= diff;
+  }
+  gain /= period;
+  loss /= period;
+  result[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  for (let i = period + 1; i < closes.length; i++) {
+    const diff = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(diff, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-diff, 0)) / period;
+    result[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return result;
+};
+
+/**
+ * 布林通道 (20 日均線 ± 2 倍標準差)
+ */
+export const bollinger = (closes: number[], period = 20, width = 2) => {
+  const middle = sma(closes, period);
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+  closes.forEach((_, i) => {
+    const mid = middle[i];
+    if (mid === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = closes.slice(i - period + 1, i + 1);
+    const std = Math.sqrt(window.reduce((acc, v) => acc + (v - mid) ** 2, 0) / period);
+    upper.push(mid + width * std);
+    lower.push(mid - width * std);
+  });
+  return { upper, middle, lower };
+};
+
+/**
+ * 依 FinMind TaiwanStockPrice 日資料計算完整技術指標序列（與 history 等長對齊）
+ */
+export const computeIndicators = (history: PriceBar[]): IndicatorPoint[] => {
+  const closes = history.map(h => h.close);
+  const highs = history.map(h => h.max);
+  const lows = history.map(h => h.min);
+
+  const ma5 = sma(closes, 5);
+  const ma20 = sma(closes, 20);
+  const ma60 = sma(closes, 60);
+  const stoch = kd(highs, lows, closes);
+  const m = macd(closes);
+  const r = rsi(closes);
+  const bb = bollinger(closes);
+
+  return history.map((h, i) => ({
+    date: h.date,
+    ma5: round(ma5[i]),
+    ma20: round(ma20[i]),
+    ma60: round(ma60[i]),
+    k: round(stoch.k[i]),
+    d: round(stoch.d[i]),
+    dif: round(m.dif[i], 3),
+    macd: round(m.macd[i], 3),
+    osc: round(m.osc[i], 3),
+    rsi: round(r[i]),
+    bbUpper: round(bb.upper[i]),
+    bbMiddle: round(bb.middle[i]),
+    bbLower: round(bb.lower[i])
+  }));
+};
+
+/**
+ * 擷取最新一日指標並判讀常見訊號，供 AI 提示詞使用
+ */
+export const summarizeIndicators = (points: IndicatorPoint[], close: number): IndicatorSnapshot | null => {
+  if (points.length === 0) return null;
+  const latest = points[points.length - 1];
+  const prev = points[points.length - 2] || latest;
+  const signals: string[] = [];
+
+  if (latest.k !== null && latest.d !== null && prev.k !== null && prev.d !== null) {
+    if (prev.k <= prev.d && latest.k > latest.d) signals.push('KD 黃金交叉');
+    if (prev.k >= prev.d && latest.k < latest.d) signals.push('KD 死亡交叉');
+    if (latest.k >= 80) signals.push('KD 高檔鈍化區');
+    if (latest.k <= 20) signals.push('KD 低檔超賣區');
+  }
+  if (latest.osc !== null && prev.osc !== null) {
+    if (prev.osc <= 0 && latest.osc > 0) signals.push('MACD 柱狀體翻紅');
+    if (prev.osc >= 0 && latest.osc < 0) signals.push('MACD 柱狀體翻綠');
+  }
+  if (latest.rsi !== null) {
+    if (latest.rsi >= 70) signals.push('RSI 超買');
+    if (latest.rsi <= 30) signals.push('RSI 超賣');
+  }
+  if (latest.bbUpper !== null && close > latest.bbUpper) signals.push('收盤突破布林上軌');
+  if (latest.bbLower !== null && close < latest.bbLower) signals.push('收盤跌破布林下軌');
+  if (latest.ma5 !== null && latest.ma20 !== null && latest.ma60 !== null) {
+    if (latest.ma5 > latest.ma20 && latest.ma20 > latest.ma60) signals.push('均線多頭排列');
+    if (latest.ma5 < latest.ma20 && latest.ma20 < latest.ma60) signals.push('均線空頭排列');
+  }
+
+  return { ...latest, signals };
+};
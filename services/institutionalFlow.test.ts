@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { investorKey, netStreak } from './institutionalFlow';
+
+describe('investorKey', () => {
+  it('groups FinMind investor names into foreign, trust and dealer', () => {
+    expect(investorKey('Foreign_Investor')).toBe('foreign');
+    expect(investorKey('Foreign_Dealer_Self')).toBe('foreign');
+    expect(investorKey('Investment_Trust')).toBe('trust');
+    expect(investorKey('Dealer_self')).toBe('dealer');
+    expect(investorKey('Dealer_Hedging')).toBe('dealer');
+    expect(investorKey('total')).toBeNull();
+  });
+});
+
+describe('netStreak', () => {
+  it('counts the latest run of same-signed days', () => {
+    expect(netStreak([-5, 3, 2, 8])).toBe(3);
+    expect(netStreak([4, -1, -2])).toBe(-2);
+  });
+
+  it('stops at a flat day', () => {
+    expect(netStreak([5, 5, 0])).toBe(0);
+    expect(netStreak([5, 0, 5])).toBe(1);
+    expect(netStreak([])).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { InstitutionalDay, InstitutionalFlowStat, InvestorKey } from '../types';
+
+export const INVESTOR_LABELS: Record<InvestorKey, string> = {
+  foreign: '外資',
+  trust: '投信',
+  dealer: '自營商',
+  total: '合計'
+};
+
+export const INVESTOR_COLORS: Record<Exclude<InvestorKey, 'total'>, string> = {
+  foreign: '#3b82f6',
+  trust: '#f59e0b',
+  dealer: '#a855f7'
+};
+
+/**
+ * 將 FinMind 法人名稱歸類：外資含外資自營商（Foreign_*），自營商含自行買賣與避險（Dealer*），
+ * 其餘（如 total 列）回傳 null 以免重複計入
+ */
+export const investorKey = (name: string): Exclude<InvestorKey, 'total'> | null => {
+  if (name.startsWith('Foreign')) return 'foreign';
+  if (name === 'Investment_Trust') return 'trust';
+  if (name.startsWith('Dealer')) return 'dealer';
+  return null;
+};
+
+/**
+ * 計算最近連續買超（正數）或賣超（負數）的天數
+ */
+export const netStreak = (values: number[]): number => {
+  let streak = 0;
+  for (let i = values.length - 1; i >= 0; i--) {
+    const v = values[i];
+    if (v === 0) break;
+    if (streak === 0) streak = v > 0 ? 1 : -1;
+    else if ((v > 0) === (streak > 0)) streak += v > 0 ? 1 : -1;
+    else break;
+  }
+  return streak;
+};
+
+const sumLast = (daily: InstitutionalDay[], key: InvestorKey, n: number) =>
+  daily.slice(-n).reduce((t, d) => t + d[key], 0);
+
+/**
+ * 各法人近 5 / 20 個交易日累計買賣超與目前連續買賣超天數
+ */
+export const computeFlowStats = (daily: InstitutionalDay[]): Record<InvestorKey, InstitutionalFlowStat> => {
+  const stat = (key: InvestorKey): InstitutionalFlowStat => ({
+    sum5: sumLast(daily, key, 5),
+    sum20: sumLast(daily, key, 20),
+    streak: netStreak(daily.map(d => d[key]))
+  });
+  return { foreign: stat('foreign'), trust: stat('trust'), dealer: stat('dealer'), total: stat('total') };
+};
+
+/**
+ * 連續買賣超的文字描述，例如「連買 3 日」
+ */
+export const describeStreak = (streak: number) =>
+  streak === 0 ? '—' : `連${streak > 0 ? '買' : '賣'} ${Math.abs(streak)} 日`;
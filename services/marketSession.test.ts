@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { describeSession, getMarketSession, sessionsBehind } from './marketSession';
+
+const at = (taipei: string) => Date.parse(`${taipei}+08:00`);
+
+describe('getMarketSession', () => {
+  it('walks through the phases of a trading day', () => {
+    // 2026-10-16 為週五
+    const phases = ['08:00', '08:45', '10:00', '13:45', '15:00'].map(t => getMarketSession(at(`2026-10-16T${t}:00`)).phase);
+    expect(phases).toEqual(['closed', 'pre-open', 'trading', 'after-hours', 'closed']);
+  });
+
+  it('moves the latest close to today only after settlement', () => {
+    expect(getMarketSession(at('2026-10-16T14:00:00')).latestCloseDate).toBe('2026-10-15');
+    expect(getMarketSession(at('2026-10-16T14:30:00')).latestCloseDate).toBe('2026-10-16');
+  });
+
+  it('treats weekends and holidays as closed', () => {
+    const weekend = getMarketSession(at('2026-10-18T10:00:00'));
+    expect(weekend).toMatchObject({ phase: 'closed', tradingDay: false, latestCloseDate: '2026-10-16' });
+    expect(describeSession(weekend)).toBe('休市');
+    // 10/9 國慶補假
+    expect(getMarketSession(at('2026-10-09T10:00:00')).latestCloseDate).toBe('2026-10-08');
+  });
+
+  it('labels the early morning of a trading day as not yet open', () => {
+    expect(describeSession(getMarketSession(at('2026-10-16T07:00:00')))).toBe('尚未開盤');
+    expect(describeSession(getMarketSession(at('2026-10-16T10:00:00')))).toBe('盤中交易');
+  });
+});
+
+describe('sessionsBehind', () => {
+  const session = getMarketSession(at('2026-10-19T15:00:00'));
+
+  it('counts missing trading days up to the expected close', () => {
+    expect(sessionsBehind('2026-10-19', session)).toBe(0);
+    expect(sessionsBehind('2026-10-16', session)).toBe(1);
+    expect(sessionsBehind('2026-10-08', session)).toBe(6);
+  });
+
+  it('caps the count for very stale data', () => {
+    expect(sessionsBehind('2026-01-02', session)).toBe(20);
+  });
+});
@@ -0,0 +1,69 @@
+import { taipeiNow } from './finmindClient';
+import { isTradingDay, nextTradingDay, previousTradingDay } from './tradingCalendar';
+
+export type MarketPhase = 'pre-open' | 'trading' | 'after-hours' | 'closed';
+
+/**
+ * 證交所交易時段（台北時間）：08:30 開始試撮、09:00–13:30 盤中交易、
+ * 14:00–14:30 盤後定價交易，之後收盤資料定稿（與 TaiwanStockPrice 的 finalizeAt 一致）
+ */
+const SESSION_TIMES = { preOpen: '08:30', open: '09:00', close: '13:30', settle: '14:30' };
+
+const PHASE_LABELS: Record<MarketPhase, string> = {
+  'pre-open': '盤前試撮',
+  trading: '盤中交易',
+  'after-hours': '盤後交易',
+  closed: '已收盤'
+};
+
+export interface MarketSession {
+  phase: MarketPhase;
+  // 台北時間的日期與時刻
+  date: string;
+  time: string;
+  tradingDay: boolean;
+  // 目前應已公布收盤資料的最近交易日
+  latestCloseDate: string;
+}
+
+export const getMarketSession = (now = Date.now()): MarketSession => {
+  const { date, time } = taipeiNow(now);
+  const tradingDay = isTradingDay(date);
+  let phase: MarketPhase = 'closed';
+  if (tradingDay) {
+    if (time >= SESSION_TIMES.preOpen && time < SESSION_TIMES.open) phase = 'pre-open';
+    else if (time >= SESSION_TIMES.open && time < SESSION_TIMES.close) phase = 'trading';
+    else if (time >= SESSION_TIMES.close && time < SESSION_TIMES.settle) phase = 'after-hours';
+  }
+  const settled = tradingDay && time >= SESSION_TIMES.settle;
+  return {
+    phase,
+    date,
+    time,
+    tradingDay,
+    latestCloseDate: settled ? date : previousTradingDay(date)
+  };
+};
+
+/**
+ * 顯示用的時段名稱：非交易日為休市，交易日開盤前為尚未開盤
+ */
+export const describeSession = (session: MarketSession) => {
+  if (!session.tradingDay) return '休市';
+  if (session.phase === 'closed' && session.time < SESSION_TIMES.preOpen) return '尚未開盤';
+  return PHASE_LABELS[session.phase];
+};
+
+/**
+ * 收盤資料落後應有日期的交易日數（資料日期晚於或等於應有日期時為 0）
+ */
+export const sessionsBehind = (dataDate: string, session: MarketSession) => {
+  let behind = 0;
+  let d = dataDate;
+  // 超過一個月視為嚴重過期，不再逐日計算
+  while (d < session.latestCloseDate && behind < 20) {
+    d = nextTradingDay(d);
+    behind++;
+  }
+  return behind;
+};
@@ -0,0 +1,171 @@
+import { computeIndicators, summarizeIndicators } from "./indicators";
+import { nextTradingDays } from "./tradingCalendar";
+import { computeFlowStats, describeStreak } from "./institutionalFlow";
+import { trailingEps } from "./fundamentals";
+import { AIAnalysis, AnalysisContext, ChatContext, ChatMessage, ComparisonAnalysis, ComparisonMetrics } from "../types";
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+const round = (v: number, digits = 2) => parseFloat(v.toFixed(digits));
+
+/**
+ * 純規則式分析：完全依技術指標與籌碼數據產生報告，結果可重現，適合離線開發與展示
+ */
+export const getMockAnalysis = async ({ stock: stockData, institutional: instData, branches, margin, fundamentals }: AnalysisContext): Promise<AIAnalysis> => {
+  const ind = summarizeIndicators(computeIndicators(stockData.history), stockData.price);
+  const closes = stockData.history.map(h => h.close);
+
+  let score = 50;
+  const notes: string[] = [];
+  if (ind) {
+    if (ind.ma5 !== null && ind.ma20 !== null) {
+      score += stockData.price > ind.ma20 ? 8 : -8;
+      notes.push(`收盤 ${stockData.price} ${stockData.price > ind.ma20 ? '站上' : '跌破'} MA20 (${ind.ma20})`);
+    }
+    if (ind.rsi !== null) {
+      if (ind.rsi >= 70) score -= 5;
+      else if (ind.rsi <= 30) score += 5;
+      else score += (ind.rsi - 50) / 4;
+      notes.push(`RSI(14) 為 ${ind.rsi}`);
+    }
+    if (ind.k !== null && ind.d !== null) {
+      score += ind.k > ind.d ? 5 : -5;
+      notes.push(`KD 值 K=${ind.k} / D=${ind.d}`);
+    }
+    if (ind.osc !== null) score += ind.osc > 0 ? 4 : -4;
+    ind.signals.forEach(s => {
+      if (/黃金交叉|翻紅|多頭排列|突破/.test(s)) score += 4;
+      if (/死亡交叉|翻綠|空頭排列|跌破/.test(s)) score -= 4;
+    });
+  }
+  const flow = instData ? computeFlowStats(instData.daily) : null;
+  if (flow) score += flow.total.sum5 > 0 ? 6 : flow.total.sum5 < 0 ? -6 : 0;
+  // 融資大增而股價未漲視為散戶追價、籌碼轉弱；券資比偏高具軋空動能
+  const marginBase = margin?.daily[Math.max(margin.daily.length - 6, 0)];
+  const marginChange5 = margin && marginBase ? margin.marginBalance - marginBase.marginBalance : 0;
+  // 與融資基準日的原始收盤比較（現價為未還原價格）
+  const priceBase = marginBase && (stockData.rawHistory ?? stockData.history).find(h => h.date === marginBase.date);
+  const priceFlat = !!priceBase && stockData.price <= priceBase.close;
+  if (margin && marginBase && marginBase.marginBalance > 0 && marginChange5 / marginBase.marginBalance > 0.1 && priceFlat) score -= 4;
+  if (margin?.shortMarginRatio !== null && margin?.shortMarginRatio !== undefined && margin.shortMarginRatio >= 30) score += 3;
+  // 月營收年增率轉正 / 轉負
+  const latestRevenue = fundamentals?.revenue[fundamentals.revenue.length - 1];
+  if (latestRevenue?.yoy !== null && latestRevenue?.yoy !== undefined) score += latestRevenue.yoy > 0 ? 3 : -3;
+  score = Math.round(clamp(score, 0, 100));
+
+  // 以近 5 日平均漲跌作為趨勢、近 20 日漲跌標準差作為區間寬度
+  const changes = closes.slice(-21).slice(1).map((c, i) => c - closes.slice(-21)[i]);
+  const drift = changes.slice(-5).reduce((a, b) => a + b, 0) / Math.max(changes.slice(-5).length, 1);
+  const std = Math.sqrt(changes.reduce((a, b) => a + b * b, 0) / Math.max(changes.length, 1));
+  const days = nextTradingDays(stockData.lastUpdate, 3).map((date, i) => {
+    const price = stockData.price + drift * (i + 1) * 0.5;
+    const band = std * Math.sqrt(i + 1);
+    return { date, price: round(price), low: round(price - band), high: round(price + band) };
+  });
+
+  const perText = stockData.per
+    ? `本益比 ${stockData.per} 倍、股淨比 ${stockData.pbr ?? 'N/A'} 倍，${stockData.per > 25 ? '評價偏高，需留意成長性是否支撐' : stockData.per < 12 ? '評價相對保守' : '評價位於合理區間'}。`
+    : '此標的無本益比資料（可能為 ETF 或虧損），請搭配其他基本面指標評估。';
+  const ttmEps = fundamentals ? trailingEps(fundamentals.quarters) : null;
+  const lastQuarter = fundamentals?.quarters[fundamentals.quarters.length - 1];
+  const fundamentalText = [
+    latestRevenue ? `${latestRevenue.month} 營收 ${(latestRevenue.revenue / 1e8).toFixed(2)} 億，MoM ${latestRevenue.mom ?? 'N/A'}%、YoY ${latestRevenue.yoy ?? 'N/A'}%。` : '',
+    lastQuarter ? `${lastQuarter.label} EPS ${lastQuarter.eps ?? 'N/A'}、毛利率 ${lastQuarter.grossMargin ?? 'N/A'}%、營益率 ${lastQuarter.operatingMargin ?? 'N/A'}%${ttmEps !== null ? `，近四季 EPS ${ttmEps}` : ''}。` : ''
+  ].join('');
+  const lots = (shares: number) => Math.round(shares / 1000);
+  const instText = instData && flow
+    ? `最後交易日 (${instData.date}) 三大法人合計${instData.total >= 0 ? '買超' : '賣超'} ${Math.abs(lots(instData.total))} 張；近 5 日外資 ${lots(flow.foreign.sum5)} 張（${describeStreak(flow.foreign.streak)}）、投信 ${lots(flow.trust.sum5)} 張（${describeStreak(flow.trust.streak)}）。`
+    : '無法取得法人買賣超資料。';
+  const topBuyer = branches?.topBuyers[0];
+  const branchText = topBuyer
+    ? `近 ${branches.dates.length} 日分點買超第一為 ${topBuyer.name}，淨買 ${lots(topBuyer.net)} 張、買進均價 ${topBuyer.avgBuyPrice ?? 'N/A'}。`
+    : '';
+
+  return {
+    summary: `【規則式模擬報告】${notes.join('；')}。${ind && ind.signals.length > 0 ? `系統訊號：${ind.signals.join('、')}。` : '目前無明顯技術訊號。'}`,
+    financial: `【規則式模擬報告】${perText}${fundamentalText}`,
+    institutional: `【規則式模擬報告】${instText}${branchText}`,
+    leverage: margin
+      ? `【規則式模擬報告】${margin.date} 融資餘額 ${margin.marginBalance} 張（近 5 日${marginChange5 >= 0 ? '增加' : '減少'} ${Math.abs(marginChange5)} 張），融資使用率 ${margin.marginUsage ?? 'N/A'}%；融券餘額 ${margin.shortBalance} 張，券資比 ${margin.shortMarginRatio ?? 'N/A'}%。${(margin.shortMarginRatio ?? 0) >= 30 ? '券資比偏高，留意軋空行情。' : ''}`
+      : '【規則式模擬報告】無法取得融資融券資料。',
+    prediction: { days },
+    score
+  };
+};
+
+/**
+ * 依相對強弱與法人買賣超排序的規則式比較
+ */
+export const getMockComparison = async (metrics: ComparisonMetrics[]): Promise<ComparisonAnalysis> => {
+  const ranked = [...metrics].sort((a, b) =>
+    (b.relativeStrength + Math.sign(b.foreignNet + b.trustNet) * 0.02) - (a.relativeStrength + Math.sign(a.foreignNet + a.trustNet) * 0.02)
+  );
+  return {
+    summary: `【規則式模擬報告】依相對大盤強弱 (RS) 排序，並以法人合計買賣超方向微調。最強為 ${ranked[0]?.name ?? '--'}，最弱為 ${ranked[ranked.length - 1]?.name ?? '--'}。`,
+    ranking: ranked.map((m, i) => ({
+      id: m.id,
+      rank: i + 1,
+      reason: `區間報酬 ${m.periodReturn}%，RS ${m.relativeStrength}，外資+投信${m.foreignNet + m.trustNet >= 0 ? '買超' : '賣超'}`
+    }))
+  };
+};
+
+/**
+ * 規則式追問回覆：依問題關鍵字回應支撐壓力、法人、融資券或基本面數據
+ */
+const getMockChatReply = ({ stock, institutional, margin, fundamentals, analysis }: ChatContext, messages: ChatMessage[]): string => {
+  const question = messages.filter(m => m.role === 'user').pop()?.content || '';
+  const ind = summarizeIndicators(computeIndicators(stock.history), stock.price);
+  const recent = stock.history.slice(-20);
+  const lots = (shares: number) => Math.round(shares / 1000);
+  const prefix = '【規則式模擬回覆】';
+
+  if (/支撐|壓力|價位|停損|停利/.test(question)) {
+    const low20 = Math.min(...recent.map(h => h.min));
+    const high20 = Math.max(...recent.map(h => h.max));
+    const supports = [ind?.ma20, ind?.bbLower, low20].filter((v): v is number => typeof v === 'number' && v < stock.price);
+    const resistances = [ind?.bbUpper, high20, ind?.ma60].filter((v): v is number => typeof v === 'number' && v > stock.price);
+    return `${prefix}以現價 ${stock.price} 計算，下方支撐可參考 ${supports.length > 0 ? supports.map(v => round(v)).join('、') : '無明確均線支撐（已跌破主要均線）'}；` +
+      `上方壓力可參考 ${resistances.length > 0 ? resistances.map(v => round(v)).join('、') : '近 20 日高點已被突破，暫無明確壓力'}。` +
+      `近 20 日區間為 ${low20} ~ ${high20}。以上僅為技術面參考，不構成投資建議。`;
+  }
+  if (/外資|投信|自營|法人|籌碼/.test(question)) {
+    if (!institutional) return `${prefix}目前沒有此標的的法人買賣超資料，無法推估法人動向的影響。`;
+    const flow = computeFlowStats(institutional.daily);
+    const selling = flow.foreign.sum5 < 0;
+    return `${prefix}外資近 5 日${selling ? '賣超' : '買超'} ${Math.abs(lots(flow.foreign.sum5))} 張、近 20 日 ${lots(flow.foreign.sum20)} 張（${describeStreak(flow.foreign.streak)}）；` +
+      `投信近 5 日 ${lots(flow.trust.sum5)} 張。若外資持續${selling ? '賣超' : '調節'}，股價通常先測試 MA20 (${ind?.ma20 ?? 'N/A'}) 一帶，` +
+      `跌破則可能下探布林下軌 (${ind?.bbLower ?? 'N/A'})；需觀察投信是否承接。以上為情境推演，不構成投資建議。`;
+  }
+  if (/融資|融券|散戶|軋空|槓桿/.test(question)) {
+    if (!margin) return `${prefix}此標的沒有融資融券資料（可能不可信用交易）。`;
+    return `${prefix}${margin.date} 融資餘額 ${margin.marginBalance} 張、使用率 ${margin.marginUsage ?? 'N/A'}%；融券餘額 ${margin.shortBalance} 張、券資比 ${margin.shortMarginRatio ?? 'N/A'}%。` +
+      `${(margin.shortMarginRatio ?? 0) >= 30 ? '券資比偏高，若股價轉強有軋空可能。' : '券資比不高，軋空動能有限。'}`;
+  }
+  if (/營收|EPS|財報|毛利|股利|殖利率|配息|本益比|估值/.test(question)) {
+    const latest = fundamentals?.revenue[fundamentals.revenue.length - 1];
+    const ttm = fundamentals ? trailingEps(fundamentals.quarters) : null;
+    return `${prefix}本益比 ${stock.per ?? 'N/A'}、股淨比 ${stock.pbr ?? 'N/A'}。` +
+      `${latest ? `${latest.month} 營收 YoY ${latest.yoy ?? 'N/A'}%、MoM ${latest.mom ?? 'N/A'}%。` : '無月營收資料。'}` +
+      `${ttm !== null ? `近四季 EPS 合計 ${ttm}。` : ''}${analysis.financial.replace(/^【規則式模擬報告】/, '')}`;
+  }
+  return `${prefix}目前評分 ${analysis.score}。${analysis.summary.replace(/^【規則式模擬報告】/, '')}` +
+    '可以詢問支撐壓力、法人動向、融資融券或營收財報等具體問題。';
+};
+
+/**
+ * 以小段延遲輸出模擬串流效果
+ */
+export const streamMockChat = async (
+  context: ChatContext,
+  messages: ChatMessage[],
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const reply = getMockChatReply(context, messages);
+  for (let i = 0; i < reply.length; i += 6) {
+    if (signal?.aborted) throw new DOMException('對話已中止', 'AbortError');
+    onChunk(reply.slice(i, i + 6));
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return reply;
+};
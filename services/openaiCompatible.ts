@@ -0,0 +1,131 @@
+import { ANALYSIS_JSON_SHAPE, COMPARISON_JSON_SHAPE, buildAnalysisPrompt, buildChatSystemPrompt, buildComparisonPrompt } from "./prompts";
+import { parseModelJson } from "./analysisValidator";
+import { AnalysisContext, ChatContext, ChatMessage, ComparisonAnalysis, ComparisonMetrics } from "../types";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+interface OpenAIConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * 從模型回覆中取出 JSON（部分本地模型會以 ```json 區塊包住）
+ */
+const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const raw = fenced ? fenced[1] : text;
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return parseModelJson(start >= 0 && end > start ? raw.slice(start, end + 1) : raw);
+};
+
+const endpoint = (config: OpenAIConfig) => `${config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+const headers = (config: OpenAIConfig) => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+});
+
+/**
+ * 呼叫任何 OpenAI 相容的 /chat/completions 端點（如 Ollama、llama.cpp server、vLLM）
+ */
+const chatJson = async (config: OpenAIConfig, prompt: string, shape: string): Promise<any> => {
+  const res = await fetch(endpoint(config), {
+    method: 'POST',
+    headers: headers(config),
+    body: JSON.stringify({
+      model: config.model,
+      temperature: 0.3,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: `你是專業的台股分析師。只輸出符合以下格式的 JSON，不要加入其他文字：\n${shape}` },
+        { role: 'user', content: prompt }
+      ]
+    })
+  });
+  if (!res.ok) throw new Error(`OpenAI 相容端點錯誤 (HTTP ${res.status})`);
+  const json = await res.json();
+  return extractJson(json.choices?.[0]?.message?.content || '');
+};
+
+export const getOpenAIAnalysis = async (
+  config: OpenAIConfig,
+  context: AnalysisContext,
+  correction = ''
+): Promise<unknown> => {
+  try {
+    return await chatJson(config, buildAnalysisPrompt(context, correction), ANALYSIS_JSON_SHAPE);
+  } catch (error) {
+    console.error("OpenAI-compatible Analysis Failed:", error);
+    throw error;
+  }
+};
+
+export const getOpenAIComparison = async (config: OpenAIConfig, metrics: ComparisonMetrics[]): Promise<ComparisonAnalysis> => {
+  try {
+    const result = await chatJson(config, buildComparisonPrompt(metrics), COMPARISON_JSON_SHAPE);
+    if (!result) throw new Error('比較分析回應不是有效的 JSON');
+    return result as ComparisonAnalysis;
+  } catch (error) {
+    console.error("OpenAI-compatible Comparison Failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * 追問對話：以 stream: true 取得 SSE（data: {...} 每行一段 delta），逐段交給 onChunk
+ */
+export const streamOpenAIChat = async (
+  config: OpenAIConfig,
+  context: ChatContext,
+  messages: ChatMessage[],
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const res = await fetch(endpoint(config), {
+      method: 'POST',
+      headers: headers(config),
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.5,
+        stream: true,
+        messages: [
+          { role: 'system', content: buildChatSystemPrompt(context) },
+          ...messages.map(m => ({ role: m.role, content: m.content }))
+        ]
+      })
+    });
+    if (!res.ok || !res.body) throw new Error(`OpenAI 相容端點錯誤 (HTTP ${res.status})`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let full = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') continue;
+        const delta = (parseModelJson(data) as any)?.choices?.[0]?.delta?.content;
+        if (delta) {
+          full += delta;
+          onChunk(delta);
+        }
+      }
+    }
+    return full;
+  } catch (error) {
+    console.error("OpenAI-compatible Chat Failed:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { computePositions, estimateCosts, exportPortfolio, importPortfolio } from './portfolio';
+import { PortfolioTransaction, StockInfo } from '../types';
+
+const tx = (id: string, stockId: string, side: 'buy' | 'sell', shares: number, price: number, date: string, fee: number, tax = 0): PortfolioTransaction =>
+  ({ id, stockId, side, shares, price, date, fee, tax });
+
+const quote = (id: string, price: number, change: number) =>
+  ({ id, name: id, price, change, pct: 0, volume: 0, history: [], lastUpdate: '2026-10-16' } as StockInfo);
+
+describe('estimateCosts', () => {
+  it('applies the broker fee with its minimum and the sell-side tax', () => {
+    expect(estimateCosts('2330', 'buy', 100, 1000)).toEqual({ fee: 142, tax: 0 });
+    expect(estimateCosts('2330', 'sell', 100, 1000)).toEqual({ fee: 142, tax: 300 });
+    expect(estimateCosts('2330', 'buy', 10, 10)).toEqual({ fee: 20, tax: 0 });
+  });
+
+  it('uses the lower tax rate for ETFs', () => {
+    expect(estimateCosts('0050', 'sell', 100, 1000).tax).toBe(100);
+  });
+});
+
+describe('computePositions', () => {
+  const transactions = [
+    tx('3', '2330', 'sell', 500, 120, '2026-03-02', 85, 180),
+    tx('1', '2330', 'buy', 1000, 100, '2026-01-05', 142),
+    tx('2', '2330', 'buy', 1000, 110, '2026-02-02', 156),
+    tx('4', '2317', 'buy', 1000, 150, '2026-02-10', 213)
+  ];
+
+  it('tracks moving-average cost and realized P&L in date order', () => {
+    const [tsmc] = computePositions(transactions, {});
+    expect(tsmc.shares).toBe(1500);
+    expect(tsmc.costBasis).toBeCloseTo(157723.5);
+    expect(tsmc.avgCost).toBeCloseTo(105.149);
+    expect(tsmc.realizedPnL).toBeCloseTo(7160.5);
+  });
+
+  it('values positions with quotes and leaves the rest unpriced', () => {
+    const [tsmc, foxconn] = computePositions(transactions, { '2330': quote('2330', 130, 2) });
+    expect(tsmc.marketValue).toBe(195000);
+    expect(tsmc.unrealizedPnL).toBeCloseTo(37276.5);
+    expect(tsmc.dailyChange).toBe(3000);
+    expect(tsmc.weight).toBe(100);
+    expect(foxconn.marketValue).toBeNull();
+    expect(foxconn.weight).toBeNull();
+  });
+});
+
+describe('import / export', () => {
+  it('round-trips exported transactions', () => {
+    const list = [tx('1', '2330', 'buy', 1000, 100, '2026-01-05', 142)];
+    expect(importPortfolio(exportPortfolio(list))).toEqual(list);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => importPortfolio('{"transactions":[{"stockId":"2330"}]}')).toThrow('匯入檔案格式不正確');
+  });
+});
@@ -0,0 +1,104 @@
+import { PortfolioPosition, PortfolioTransaction, StockInfo } from '../types';
+
+const STORAGE_KEY = 'twstock.portfolio';
+const EXPORT_VERSION = 1;
+
+// 券商手續費 0.1425%（最低 20 元），證交稅賣出時課徵：股票 0.3%、ETF 0.1%
+const FEE_RATE = 0.001425;
+const MIN_FEE = 20;
+const STOCK_TAX_RATE = 0.003;
+const ETF_TAX_RATE = 0.001;
+
+export const getTransactions = (): PortfolioTransaction[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.error("無法讀取投資組合:", e);
+    return [];
+  }
+};
+
+export const saveTransactions = (transactions: PortfolioTransaction[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+};
+
+/**
+ * 依台股費率估算手續費與交易稅，作為輸入表單的預設值
+ */
+export const estimateCosts = (stockId: string, side: 'buy' | 'sell', price: number, shares: number) => {
+  const amount = price * shares;
+  const fee = amount > 0 ? Math.max(Math.floor(amount * FEE_RATE), MIN_FEE) : 0;
+  const taxRate = stockId.startsWith('00') ? ETF_TAX_RATE : STOCK_TAX_RATE;
+  const tax = side === 'sell' ? Math.floor(amount * taxRate) : 0;
+  return { fee, tax };
+};
+
+/**
+ * 以移動平均成本法彙整每檔持股，並用最新報價計算未實現/已實現損益與權重
+ */
+export const computePositions = (
+  transactions: PortfolioTransaction[],
+  quotes: Record<string, StockInfo>
+): PortfolioPosition[] => {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const acc = new Map<string, { shares: number; costBasis: number; realizedPnL: number }>();
+
+  sorted.forEach(t => {
+    const pos = acc.get(t.stockId) || { shares: 0, costBasis: 0, realizedPnL: 0 };
+    if (t.side === 'buy') {
+      pos.shares += t.shares;
+      pos.costBasis += t.price * t.shares + t.fee;
+    } else {
+      const sold = Math.min(t.shares, pos.shares);
+      const avgCost = pos.shares > 0 ? pos.costBasis / pos.shares : 0;
+      pos.realizedPnL += t.price * sold - t.fee - t.tax - avgCost * sold;
+      pos.costBasis -= avgCost * sold;
+      pos.shares -= sold;
+    }
+    acc.set(t.stockId, pos);
+  });
+
+  const positions = [...acc.entries()].map(([stockId, p]) => {
+    const quote = quotes[stockId];
+    const marketValue = quote ? quote.price * p.shares : null;
+    const unrealizedPnL = marketValue !== null ? marketValue - p.costBasis : null;
+    return {
+      stockId,
+      shares: p.shares,
+      avgCost: p.shares > 0 ? p.costBasis / p.shares : 0,
+      costBasis: p.costBasis,
+      marketValue,
+      unrealizedPnL,
+      unrealizedPct: unrealizedPnL !== null && p.costBasis > 0 ? unrealizedPnL / p.costBasis * 100 : null,
+      realizedPnL: p.realizedPnL,
+      dailyChange: quote ? quote.change * p.shares : null,
+      weight: null as number | null
+    };
+  });
+
+  const totalValue = positions.reduce((sum, p) => sum + (p.marketValue ?? 0), 0);
+  positions.forEach(p => {
+    p.weight = totalValue > 0 && p.marketValue !== null ? p.marketValue / totalValue * 100 : null;
+  });
+  return positions;
+};
+
+export const exportPortfolio = (transactions: PortfolioTransaction[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), transactions }, null, 2);
+
+const isTransaction = (t: any): t is PortfolioTransaction =>
+  !!t && typeof t.stockId === 'string' && (t.side === 'buy' || t.side === 'sell') &&
+  typeof t.shares === 'number' && typeof t.price === 'number' && typeof t.date === 'string' &&
+  typeof t.fee === 'number' && typeof t.tax === 'number';
+
+/**
+ * 解析匯出的 JSON；格式不符時拋出錯誤
+ */
+export const importPortfolio = (text: string): PortfolioTransaction[] => {
+  const json = JSON.parse(text);
+  const list = Array.isArray(json) ? json : json?.transactions;
+  if (!Array.isArray(list) || !list.every(isTransaction)) {
+    throw new Error('匯入檔案格式不正確');
+  }
+  return list.map((t, i) => ({ ...t, id: t.id || `tx-${Date.now()}-${i}` }));
+};
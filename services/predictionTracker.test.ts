@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { accuracyByScore, accuracyByStock, computeAccuracy, evaluatePendingPredictions, getPredictionRecords } from './predictionTracker';
+import { fetchPriceBars } from './finmind';
+import { PredictionRecord, PriceBar } from '../types';
+
+vi.mock('./finmind', () => ({ fetchPriceBars: vi.fn() }));
+
+const record = (stockId: string, score: number, baseClose: number, days: PredictionRecord['days']): PredictionRecord => ({
+  id: `${stockId}-1`, stockId, stockName: stockId, createdAt: '2026-10-16T06:00:00.000Z', baseDate: '2026-10-16', baseClose, score, days
+});
+
+const strong = record('2330', 85, 100, [
+  { date: '2026-10-19', price: 102, low: 99, high: 104, actual: 103 },
+  { date: '2026-10-20', price: 104, low: 100, high: 106, actual: 98 },
+  { date: '2026-10-21', price: 105, low: 101, high: 108, actual: null },
+  { date: '2026-10-22', price: 106, low: 101, high: 110 }
+]);
+const neutral = record('2317', 45, 50, [
+  { date: '2026-10-19', price: 49, low: 48, high: 51, actual: 49.5 }
+]);
+
+describe('computeAccuracy', () => {
+  it('scores only settled days with a known close', () => {
+    expect(computeAccuracy([strong])).toEqual({ samples: 2, hitRate: 50, mae: 3.5, directionAccuracy: 50 });
+  });
+
+  it('pools samples across reports', () => {
+    expect(computeAccuracy([strong, neutral])).toEqual({ samples: 3, hitRate: 66.7, mae: 2.5, directionAccuracy: 66.7 });
+  });
+
+  it('returns null rates without samples', () => {
+    expect(computeAccuracy([])).toEqual({ samples: 0, hitRate: null, mae: null, directionAccuracy: null });
+  });
+});
+
+describe('grouping', () => {
+  it('groups reports by stock', () => {
+    const rows = accuracyByStock([strong, neutral, { ...strong, id: '2330-2', days: [] }]);
+    expect(rows.map(r => [r.stockId, r.reports, r.samples])).toEqual([['2330', 2, 2], ['2317', 1, 1]]);
+  });
+
+  it('buckets reports by score band', () => {
+    const rows = accuracyByScore([strong, neutral]);
+    expect(rows.map(r => r.reports)).toEqual([1, 0, 1, 0]);
+    expect(rows[1].hitRate).toBeNull();
+    expect(rows[2].hitRate).toBe(100);
+  });
+});
+
+describe('evaluatePendingPredictions', () => {
+  const bar = (date: string, close: number): PriceBar => ({
+    date, stock_id: '2330', Trading_Volume: 0, Trading_money: 0, open: close, max: close, min: close, close, spread: 0, Trading_turnover: 0
+  });
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value); }
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 台北時間 2026-10-20 15:00
+    vi.setSystemTime(new Date('2026-10-20T07:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('fills actual closes without dropping reports saved while fetching', async () => {
+    const pending = record('2330', 70, 100, [
+      { date: '2026-10-19', price: 101, low: 99, high: 103 },
+      { date: '2026-10-20', price: 102, low: 99, high: 105 },
+      { date: '2026-10-21', price: 103, low: 100, high: 106 }
+    ]);
+    const added = { ...record('2317', 60, 50, []), id: '2317-2' };
+    localStorage.setItem('twstock.predictions', JSON.stringify([pending]));
+    vi.mocked(fetchPriceBars).mockImplementation(async () => {
+      localStorage.setItem('twstock.predictions', JSON.stringify([added, pending]));
+      return { status: 'success', data: [bar('2026-10-19', 102), bar('2026-10-20', 104)] };
+    });
+
+    const result = await evaluatePendingPredictions();
+    expect(result.map(r => r.id)).toEqual(['2317-2', '2330-1']);
+    expect(getPredictionRecords()[1].days.map(d => d.actual)).toEqual([102, 104, undefined]);
+  });
+});
@@ -0,0 +1,129 @@
+import { fetchPriceBars } from './finmind';
+import { taipeiToday } from './tradingCalendar';
+import { AIAnalysis, AccuracyStats, PredictionRecord, StockInfo } from '../types';
+
+const STORAGE_KEY = 'twstock.predictions';
+
+// 與詳細頁「建議投資方向」的分級一致
+export const SCORE_BUCKETS = [
+  { label: '80-100 強勢買進', min: 80, max: 100 },
+  { label: '60-79 偏多持有', min: 60, max: 79 },
+  { label: '40-59 區間震盪', min: 40, max: 59 },
+  { label: '0-39 保守觀望', min: 0, max: 39 }
+];
+
+const save = (records: PredictionRecord[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+};
+
+/**
+ * 讀取所有已保存的 AI 預測紀錄
+ */
+export const getPredictionRecords = (): PredictionRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.error("無法讀取預測紀錄:", e);
+    return [];
+  }
+};
+
+/**
+ * 保存一次分析的預測結果，等待日後以實際收盤價驗證
+ */
+export const recordPrediction = (stock: StockInfo, analysis: AIAnalysis): PredictionRecord => {
+  const record: PredictionRecord = {
+    id: `${stock.id}-${Date.now()}`,
+    stockId: stock.id,
+    stockName: stock.name,
+    createdAt: new Date().toISOString(),
+    baseDate: stock.lastUpdate,
+    baseClose: stock.price,
+    score: analysis.score,
+    days: analysis.prediction.days.map(d => ({ date: d.date, price: d.price, low: d.low, high: d.high }))
+  };
+  save([record, ...getPredictionRecords()]);
+  return record;
+};
+
+/**
+ * 對預測日已過但尚未驗證的紀錄，向 FinMind 取回實際收盤價。
+ * 若資料已涵蓋該日之後仍查無該日收盤（非交易日），則標記為 null 不納入統計。
+ * 查詢期間可能有新的分析寫入紀錄，因此保存前重新讀取並只回填實際收盤價。
+ */
+export const evaluatePendingPredictions = async (): Promise<PredictionRecord[]> => {
+  const records = getPredictionRecords();
+  const now = taipeiToday();
+  const pendingByStock = new Map<string, string>();
+
+  records.forEach(r => r.days.forEach(d => {
+    if (d.actual === undefined && d.date <= now) {
+      const earliest = pendingByStock.get(r.stockId);
+      if (!earliest || d.date < earliest) pendingByStock.set(r.stockId, d.date);
+    }
+  }));
+  if (pendingByStock.size === 0) return records;
+
+  // 個股代號 → 該股預測日的實際收盤（null 為非交易日）
+  const actualsByStock = new Map<string, Map<string, number | null>>();
+  for (const [stockId, startDate] of pendingByStock) {
+    const result = await fetchPriceBars(stockId, startDate);
+    if (result.status === 'error') continue;
+    const closes = result.data;
+    const closeMap = new Map(closes.map(c => [c.date, c.close]));
+    const lastDate = closes[closes.length - 1].date;
+    const actuals = new Map<string, number | null>();
+    records.filter(r => r.stockId === stockId).forEach(r => r.days.forEach(d => {
+      if (d.actual !== undefined || d.date > now) return;
+      if (closeMap.has(d.date)) actuals.set(d.date, closeMap.get(d.date)!);
+      else if (d.date < lastDate) actuals.set(d.date, null);
+    }));
+    actualsByStock.set(stockId, actuals);
+  }
+
+  const latest = getPredictionRecords();
+  latest.forEach(r => r.days.forEach(d => {
+    const actuals = actualsByStock.get(r.stockId);
+    if (d.actual === undefined && actuals?.has(d.date)) d.actual = actuals.get(d.date);
+  }));
+  save(latest);
+  return latest;
+};
+
+/**
+ * 計算落點命中率（實際收盤落在預估區間）、平均絕對誤差與方向正確率
+ */
+export const computeAccuracy = (records: PredictionRecord[]): AccuracyStats => {
+  let samples = 0, hits = 0, absError = 0, directionHits = 0;
+  records.forEach(r => r.days.forEach(d => {
+    if (d.actual === undefined || d.actual === null) return;
+    samples++;
+    if (d.actual >= d.low && d.actual <= d.high) hits++;
+    absError += Math.abs(d.actual - d.price);
+    if (Math.sign(d.price - r.baseClose) === Math.sign(d.actual - r.baseClose)) directionHits++;
+  }));
+  if (samples === 0) return { samples, hitRate: null, mae: null, directionAccuracy: null };
+  return {
+    samples,
+    hitRate: parseFloat((hits / samples * 100).toFixed(1)),
+    mae: parseFloat((absError / samples).toFixed(2)),
+    directionAccuracy: parseFloat((directionHits / samples * 100).toFixed(1))
+  };
+};
+
+export const accuracyByStock = (records: PredictionRecord[]) => {
+  const groups = new Map<string, PredictionRecord[]>();
+  records.forEach(r => groups.set(r.stockId, [...(groups.get(r.stockId) || []), r]));
+  return [...groups.entries()].map(([stockId, rs]) => ({
+    stockId,
+    stockName: rs[0].stockName,
+    reports: rs.length,
+    ...computeAccuracy(rs)
+  }));
+};
+
+export const accuracyByScore = (records: PredictionRecord[]) =>
+  SCORE_BUCKETS.map(b => {
+    const rs = records.filter(r => Math.round(r.score) >= b.min && Math.round(r.score) <= b.max);
+    return { label: b.label, reports: rs.length, ...computeAccuracy(rs) };
+  });
@@ -0,0 +1,199 @@
+import { computeIndicators, summarizeIndicators } from "./indicators";
+import { nextTradingDays } from "./tradingCalendar";
+import { computeFlowStats, describeStreak, INVESTOR_LABELS } from "./institutionalFlow";
+import { cashYield, computeValuationRiver, trailingEps } from "./fundamentals";
+import {
+  AnalysisContext, BranchSummary, ChatContext, ComparisonMetrics, FundamentalsData, InstitutionalData, InvestorKey, MarginData, StockInfo
+} from "../types";
+
+// 供不支援 responseSchema 的模型使用的 JSON 格式說明
+export const ANALYSIS_JSON_SHAPE = `{
+  "summary": string,
+  "financial": string,
+  "institutional": string,
+  "leverage": string,
+  "prediction": { "days": [{ "date": "YYYY-MM-DD", "price": number, "low": number, "high": number }] },
+  "score": number
+}`;
+
+export const COMPARISON_JSON_SHAPE = `{
+  "summary": string,
+  "ranking": [{ "id": string, "rank": number, "reason": string }]
+}`;
+
+const lots = (shares: number) => Math.round(shares / 1000);
+
+// 提示詞中列出的法人每日序列長度
+const FLOW_SERIES_DAYS = 20;
+
+/**
+ * 三大法人每日買賣超序列與累計、連續天數（單位：張）
+ */
+const describeInstitutional = (inst: InstitutionalData | null) => {
+  if (!inst || inst.daily.length === 0) return '無資料';
+  const stats = computeFlowStats(inst.daily);
+  const series = inst.daily.slice(-FLOW_SERIES_DAYS)
+    .map(d => `${d.date} 外資 ${lots(d.foreign)} / 投信 ${lots(d.trust)} / 自營商 ${lots(d.dealer)}`)
+    .join('\n    ');
+  const summary = (['foreign', 'trust', 'dealer', 'total'] as InvestorKey[])
+    .map(k => `${INVESTOR_LABELS[k]} 5日 ${lots(stats[k].sum5)}、20日 ${lots(stats[k].sum20)}、${describeStreak(stats[k].streak)}`)
+    .join('; ');
+  return `${summary}
+    每日買賣超 (張，由舊到新):
+    ${series}`;
+};
+
+/**
+ * 分點買賣超摘要（實際成交資料，單位：張）
+ */
+const describeBranches = (branches: BranchSummary | null) => {
+  if (!branches) return '無資料（未取得分點明細，請勿自行推測券商名稱或張數）';
+  const line = (b: BranchSummary['topBuyers'][number]) =>
+    `${b.name}(${b.id}) 淨${b.net >= 0 ? '買' : '賣'} ${Math.abs(lots(b.net))} 張，買均價 ${b.avgBuyPrice ?? 'N/A'}，賣均價 ${b.avgSellPrice ?? 'N/A'}`;
+  return `統計 ${branches.dates[0]} ~ ${branches.dates[branches.dates.length - 1]} 共 ${branches.dates.length} 個交易日
+    買超前五: ${branches.topBuyers.map(line).join('; ') || '無'}
+    賣超前五: ${branches.topSellers.map(line).join('; ') || '無'}`;
+};
+
+/**
+ * 融資融券餘額與近期增減（單位：張）
+ */
+const describeMargin = (margin: MarginData | null) => {
+  if (!margin || margin.daily.length === 0) return '無資料';
+  const change = (key: 'marginBalance' | 'shortBalance', n: number) => {
+    const base = margin.daily[Math.max(margin.daily.length - 1 - n, 0)];
+    return margin[key] - base[key];
+  };
+  return `${margin.date} 融資餘額 ${margin.marginBalance} 張（當日 ${margin.marginChange}、5日 ${change('marginBalance', 5)}、20日 ${change('marginBalance', 20)}），融資使用率 ${margin.marginUsage ?? 'N/A'}%；
+    融券餘額 ${margin.shortBalance} 張（當日 ${margin.shortChange}、5日 ${change('shortBalance', 5)}、20日 ${change('shortBalance', 20)}），券資比 ${margin.shortMarginRatio ?? 'N/A'}%`;
+};
+
+const signedPct = (v: number | null) => v === null ? 'N/A' : `${v > 0 ? '+' : ''}${v}%`;
+const percent = (v: number | null) => v === null ? 'N/A' : `${v}%`;
+
+/**
+ * 月營收、季財報、股利與本益比 / 股淨比在歷史區間中的位置
+ */
+const describeFundamentals = (fundamentals: FundamentalsData | null, stock: StockInfo) => {
+  if (!fundamentals) return '無資料';
+  const revenue = fundamentals.revenue.slice(-6)
+    .map(r => `${r.month} ${(r.revenue / 1e8).toFixed(2)} 億（MoM ${signedPct(r.mom)}、YoY ${signedPct(r.yoy)}）`)
+    .join('; ');
+  const quarters = fundamentals.quarters.slice(-4)
+    .map(q => `${q.label} EPS ${q.eps ?? 'N/A'}、毛利率 ${percent(q.grossMargin)}、營益率 ${percent(q.operatingMargin)}`)
+    .join('; ');
+  const dividends = fundamentals.dividends.slice(0, 3)
+    .map(d => `${d.year} 年 現金 ${d.cash} 元 / 股票 ${d.stock} 元（以現價計殖利率 ${percent(cashYield(d, stock.price))}）`)
+    .join('; ');
+  const river = (metric: 'PER' | 'PBR') => {
+    const { current, percentile, multiples } = computeValuationRiver(stock.rawHistory ?? stock.history, stock.valuation || [], metric);
+    return current === null ? 'N/A' : `${current}（區間 ${multiples[0]}~${multiples[multiples.length - 1]}，位於第 ${percentile} 百分位）`;
+  };
+  return `近 6 月營收: ${revenue || '無資料'}
+    近 4 季財報: ${quarters || '無資料'}
+    近四季 EPS 合計: ${trailingEps(fundamentals.quarters) ?? 'N/A'}
+    股利 (依所屬年度): ${dividends || '無資料'}
+    本益比 ${river('PER')}；股淨比 ${river('PBR')}（${stock.history.length} 日區間）`;
+};
+
+/**
+ * 區間內的除權息 / 減資事件（歷史價格已據此還原）
+ */
+const describeActions = (stock: StockInfo) => {
+  if (!stock.actions || stock.actions.length === 0) return '區間內無除權息或減資，價格未經調整';
+  return `以下歷史價格與技術指標皆已依區間內事件向後還原（最新價格不變）：${stock.actions
+    .map(a => `${a.date} ${a.label}（前一日收盤 ${a.before}、參考價 ${a.after}）`).join('; ')}`;
+};
+
+/**
+ * 個股完整資料區塊（分析與追問共用）
+ */
+const describeStockContext = ({ stock: stockData, institutional: instData, branches, margin, fundamentals }: AnalysisContext): string => {
+  const recentHistory = stockData.history.slice(-10).map(h => ({
+    date: h.date,
+    close: h.close,
+    vol: h.Trading_Volume
+  }));
+
+  const ind = summarizeIndicators(computeIndicators(stockData.history), stockData.price);
+  const indicatorText = ind
+    ? `MA5: ${ind.ma5 ?? 'N/A'}, MA20: ${ind.ma20 ?? 'N/A'}, MA60: ${ind.ma60 ?? 'N/A'}
+    KD(9,3,3): K=${ind.k ?? 'N/A'}, D=${ind.d ?? 'N/A'}
+    MACD(12,26,9): DIF=${ind.dif ?? 'N/A'}, MACD=${ind.macd ?? 'N/A'}, OSC=${ind.osc ?? 'N/A'}
+    RSI(14): ${ind.rsi ?? 'N/A'}
+    布林通道(20,2): 上軌=${ind.bbUpper ?? 'N/A'}, 中軌=${ind.bbMiddle ?? 'N/A'}, 下軌=${ind.bbLower ?? 'N/A'}
+    系統判讀訊號: ${ind.signals.length > 0 ? ind.signals.join('、') : '無明顯訊號'}`
+    : 'N/A';
+
+  return `股票代號/名稱: ${stockData.id}
+    資料日期 (最後交易日): ${stockData.lastUpdate}
+    當前價格: ${stockData.price}
+    今日漲跌: ${stockData.change} (${stockData.pct}%)
+    本益比 (PER): ${stockData.per || 'N/A'}, 股淨比 (PBR): ${stockData.pbr || 'N/A'}
+    基本面:
+    ${describeFundamentals(fundamentals, stockData)}
+    三大法人買賣超: ${describeInstitutional(instData)}
+    除權息與減資: ${describeActions(stockData)}
+    最近 10 日歷史走勢 (還原股價): ${JSON.stringify(recentHistory)}
+    融資融券: ${describeMargin(margin)}
+    主力分點買賣超: ${describeBranches(branches)}
+    技術指標 (系統依 ${stockData.history.length} 日歷史計算，最後交易日 ${ind?.date ?? 'N/A'}):
+    ${indicatorText}`;
+};
+
+/**
+ * 組合個股分析提示詞（各 AI 供應商共用）
+ */
+export const buildAnalysisPrompt = (context: AnalysisContext, correction = ''): string => {
+  return `
+    請分析以下台股數據並撰寫專業分析報告：
+    ${describeStockContext(context)}
+
+    任務要求：
+    1. 依據上方已計算之技術指標數值提供技術面總結（請直接引用數值，勿自行推估指標；使用台灣繁體中文專業財經用語）。
+    2. 依上方月營收成長 (MoM/YoY)、近四季 EPS 與毛利率/營益率趨勢、股利殖利率，以及本益比/股淨比所在的歷史區間位置評估財務健康度與估值（請引用數值，勿自行編造財報數字）。
+    3. 依三大法人買賣超序列（累計與連續買賣超）分析法人籌碼情緒，並依上方實際分點資料評估主力動向與其成本區（僅能引用提供的分點數據）。
+    4. 依融資融券餘額變化、融資使用率與券資比，於 leverage 欄位分析槓桿水位與散戶情緒（如融資追價、軋空潛力）。
+    5. 預測接下來 3 個交易日（${nextTradingDays(context.stock.lastUpdate, 3).join('、')}，已排除週末與休市日，prediction.days 的 date 請依序使用這三個日期）的價格走勢（附帶邏輯說明），每日需符合 low ≤ price ≤ high 且不超出 ±10% 漲跌幅限制。
+    6. 給出一個 0-100 的 AI 綜合評分。
+  ${correction}`;
+};
+
+/**
+ * 追問對話的系統提示：個股資料、近 60 日高低點與已產生的分析報告
+ */
+export const buildChatSystemPrompt = (context: ChatContext): string => {
+  const { stock, analysis } = context;
+  const recent = stock.history.slice(-60);
+  const ohlc = stock.history.slice(-20).map(h => `${h.date} 開${h.open} 高${h.max} 低${h.min} 收${h.close}`).join('; ');
+  return `
+    你是專業的台股分析師，正在回答使用者對 ${stock.name} (${stock.id}) 的追問。
+    請使用台灣繁體中文，只依據下方資料與報告作答；資料未涵蓋的內容請明確說明無法判斷，勿自行編造數據。
+    情境假設題（如「若外資持續賣超」）請說明推論依據與關鍵價位，並提醒這不構成投資建議。
+
+    ${describeStockContext(context)}
+    近 20 日 K 線 (還原股價): ${ohlc}
+    近 ${recent.length} 日最高 ${Math.max(...recent.map(h => h.max))}、最低 ${Math.min(...recent.map(h => h.min))}
+
+    已產生的分析報告 (評分 ${analysis.score}):
+    技術面: ${analysis.summary}
+    財務面: ${analysis.financial}
+    籌碼面: ${analysis.institutional}
+    槓桿與散戶情緒: ${analysis.leverage}
+    未來 3 日預測: ${analysis.prediction.days.map(d => `${d.date} ${d.low}~${d.high} (中位 ${d.price})`).join('; ') || '無'}
+  `;
+};
+
+/**
+ * 組合多檔比較排名提示詞
+ */
+export const buildComparisonPrompt = (metrics: ComparisonMetrics[]): string => {
+  return `
+    請比較以下台股標的並依投資吸引力排名：
+    ${metrics.map(m => `${m.name} (${m.id}): 區間報酬 ${m.periodReturn}%, 相對大盤強弱 RS ${m.relativeStrength}, 本益比 ${m.per ?? 'N/A'}, 股淨比 ${m.pbr ?? 'N/A'}, 20 日均量 ${m.avgVolume}, 近期法人累計買賣超 外資 ${m.foreignNet} / 投信 ${m.trustNet} / 自營商 ${m.dealerNet}`).join('\n    ')}
+
+    任務要求：
+    1. 以台灣繁體中文專業財經用語撰寫一段比較摘要，說明各檔的相對強弱、估值與籌碼差異。
+    2. 將所有標的由 1 開始排名（1 為最佳），每檔附上一句排名理由，id 請使用上方括號內的股票代號。
+  `;
+};
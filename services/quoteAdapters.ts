@@ -0,0 +1,96 @@
+import { taipeiToday } from './tradingCalendar';
+import { IntradayQuote, QuoteSourceId, StockInfo } from '../types';
+
+const SOURCE_KEY = 'twstock.quoteSource';
+
+export interface QuoteAdapter {
+  id: QuoteSourceId;
+  label: string;
+  description: string;
+  // 取得盤中報價；base 為最近一日的收盤資料（代號 → StockInfo），供計算漲跌或模擬起點
+  fetchQuotes: (stockIds: string[], base: Record<string, StockInfo>) => Promise<IntradayQuote[]>;
+}
+
+/**
+ * 證交所升降單位
+ */
+const tickSize = (price: number) =>
+  price < 10 ? 0.01 : price < 50 ? 0.05 : price < 100 ? 0.1 : price < 500 ? 0.5 : price < 1000 ? 1 : 5;
+
+const roundTick = (price: number) => {
+  const tick = tickSize(price);
+  return parseFloat((Math.round(price / tick) * tick).toFixed(2));
+};
+
+// 模擬行情的當日狀態，跨日或昨收變動時重新起算
+const simulated = new Map<string, { date: string; prevClose: number; price: number; high: number; low: number; volume: number }>();
+
+/**
+ * 本地模擬報價：以昨收為起點隨機漫步，限制在 ±10% 漲跌幅內，僅供開發與展示
+ */
+const simulateQuotes = async (stockIds: string[], base: Record<string, StockInfo>): Promise<IntradayQuote[]> => {
+  const date = taipeiToday();
+  const time = new Date().toISOString();
+  return stockIds.flatMap(id => {
+    const prevClose = base[id]?.price;
+    if (!prevClose) return [];
+    let state = simulated.get(id);
+    if (!state || state.date !== date || state.prevClose !== prevClose) {
+      state = { date, prevClose, price: prevClose, high: prevClose, low: prevClose, volume: 0 };
+    }
+    const drift = (Math.random() - 0.5) * 0.006;
+    const price = roundTick(Math.min(prevClose * 1.1, Math.max(prevClose * 0.9, state.price * (1 + drift))));
+    state = {
+      ...state,
+      price,
+      high: Math.max(state.high, price),
+      low: Math.min(state.low, price),
+      volume: state.volume + Math.round((base[id].volume || 1000000) / 540 * (0.5 + Math.random()))
+    };
+    simulated.set(id, state);
+    const change = parseFloat((price - prevClose).toFixed(2));
+    return [{
+      stockId: id,
+      price,
+      change,
+      pct: parseFloat((change / prevClose * 100).toFixed(2)),
+      volume: state.volume,
+      high: state.high,
+      low: state.low,
+      time
+    }];
+  });
+};
+
+export const QUOTE_ADAPTERS: Record<QuoteSourceId, QuoteAdapter> = {
+  simulated: {
+    id: 'simulated',
+    label: '本地模擬報價',
+    description: '盤中以昨收為起點產生模擬跳動，不連線任何報價來源，適合測試盤中模式。',
+    fetchQuotes: simulateQuotes
+  },
+  none: {
+    id: 'none',
+    label: '僅使用收盤資料',
+    description: '不抓取盤中報價，收盤後自動更新 FinMind 每日資料。',
+    fetchQuotes: async () => []
+  }
+};
+
+export const getQuoteSource = (): QuoteSourceId => {
+  const saved = localStorage.getItem(SOURCE_KEY) as QuoteSourceId | null;
+  // 預設不啟用盤中報價，避免將模擬價格誤認為真實行情
+  return saved && QUOTE_ADAPTERS[saved] ? saved : 'none';
+};
+
+export const saveQuoteSource = (source: QuoteSourceId) => {
+  localStorage.setItem(SOURCE_KEY, source);
+};
+
+export const getQuoteAdapter = (source: QuoteSourceId): QuoteAdapter => QUOTE_ADAPTERS[source] || QUOTE_ADAPTERS.none;
+
+/**
+ * 以盤中報價覆蓋收盤資料的價格欄位（歷史 K 線與 lastUpdate 不變）
+ */
+export const applyIntradayQuote = (stock: StockInfo, quote?: IntradayQuote): StockInfo =>
+  quote ? { ...stock, price: quote.price, change: quote.change, pct: quote.pct, volume: quote.volume } : stock;
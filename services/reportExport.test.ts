@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { archivedReportInput, buildDataCsv, buildMarkdownReport } from './reportExport';
+import { InstitutionalData, PriceBar, SavedAnalysis, StockInfo } from '../types';
+
+const bar = (date: string, close: number): PriceBar => ({
+  date, stock_id: '2330', Trading_Volume: 1000, Trading_money: 0, open: close, max: close, min: close, close, spread: 0, Trading_turnover: 0
+});
+
+const day = (date: string, foreign: number) => ({ date, foreign, trust: 0, dealer: 0, total: foreign });
+
+const stock = {
+  id: '2330', name: '台積電', price: 1050, change: 10, pct: 0.96, volume: 1000, per: 25, pbr: 7,
+  history: [bar('2026-10-13', 1000), bar('2026-10-14', 1020), bar('2026-10-16', 1050)],
+  lastUpdate: '2026-10-16'
+} as StockInfo;
+
+const institutional: InstitutionalData = {
+  ...day('2026-10-16', 300),
+  daily: [day('2026-10-13', 100), day('2026-10-14', 200), day('2026-10-16', 300)]
+};
+
+const saved: SavedAnalysis = {
+  id: '2330-1',
+  stockId: '2330',
+  stockName: '台積電',
+  meta: { model: 'Google Gemini · test', generatedAt: '2026-10-14T08:00:00.000Z' },
+  input: { lastUpdate: '2026-10-14', price: 1020, change: 20, pct: 2, volume: 1000, per: 24, pbr: 6.8, institutional: day('2026-10-14', 200) },
+  analysis: {
+    summary: '技術面偏多', financial: '財務穩健', institutional: '外資買超', leverage: '融資持平',
+    prediction: { days: [] }, score: 70
+  }
+};
+
+describe('archivedReportInput', () => {
+  it('exports an archived report with the data it was generated from', () => {
+    const input = archivedReportInput(saved, stock, institutional);
+    const markdown = buildMarkdownReport(input);
+    expect(markdown).toContain('**資料日期**：2026-10-14');
+    expect(markdown).toContain('收盤 1020（+20 / 2%），本益比 24、股淨比 6.8');
+
+    const dates = buildDataCsv(input).split('\r\n').filter(line => /^\d{4}-/.test(line)).map(line => line.split(',')[0]);
+    expect(dates).toEqual(['2026-10-13', '2026-10-14']);
+    expect(input.institutional).toMatchObject({ date: '2026-10-14', foreign: 200 });
+  });
+
+  it('omits institutional data the report did not have', () => {
+    expect(archivedReportInput({ ...saved, input: { ...saved.input, institutional: null } }, stock, institutional).institutional).toBeNull();
+  });
+});
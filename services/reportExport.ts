@@ -0,0 +1,199 @@
+import { AIAnalysis, InstitutionalData, ReportMeta, SavedAnalysis, StockInfo } from '../types';
+import { ANALYSIS_SECTIONS, SECTION_TITLES } from './analysisHistory';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'csv';
+
+interface ReportInput {
+  stock: StockInfo;
+  analysis: AIAnalysis;
+  meta: ReportMeta;
+  institutional: InstitutionalData | null;
+}
+
+/**
+ * 匯出歷史報告時以保存的輸入數據為準：報價與資料日期取自快照，價格與法人序列只保留到當時的資料日期
+ */
+export const archivedReportInput = (
+  saved: SavedAnalysis,
+  stock: StockInfo,
+  institutional: InstitutionalData | null
+): ReportInput => {
+  const { lastUpdate, price, change, pct, volume, per, pbr } = saved.input;
+  const until = <T extends { date: string }>(rows: T[]) => rows.filter(r => r.date <= lastUpdate);
+  return {
+    stock: {
+      ...stock,
+      name: saved.stockName,
+      lastUpdate, price, change, pct, volume, per, pbr,
+      history: until(stock.history),
+      rawHistory: stock.rawHistory && until(stock.rawHistory)
+    },
+    analysis: saved.analysis,
+    meta: saved.meta,
+    institutional: saved.input.institutional
+      ? { ...saved.input.institutional, daily: until(institutional?.daily || []) }
+      : null
+  };
+};
+
+const SECTIONS = ANALYSIS_SECTIONS.map(key => ({ key, title: SECTION_TITLES[key] }));
+
+const formatTime = (iso: string) => iso ? new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', hour12: false }) : '--';
+
+const metadataRows = ({ stock, meta }: ReportInput): [string, string][] => [
+  ['股票', `${stock.name} (${stock.id})`],
+  ['資料日期', stock.lastUpdate],
+  ['分析模型', meta.model || '--'],
+  ['產生時間', formatTime(meta.generatedAt)]
+];
+
+const fileName = ({ stock, meta }: ReportInput, ext: string) =>
+  `${stock.id}-${stock.lastUpdate}-${(meta.generatedAt || new Date().toISOString()).slice(0, 10)}.${ext}`;
+
+/**
+ * Markdown 報告：產生資訊、各分析段落、預測表與評分
+ */
+export const buildMarkdownReport = (input: ReportInput): string => {
+  const { stock, analysis } = input;
+  return [
+    `# ${stock.name} (${stock.id}) AI 分析報告`,
+    '',
+    ...metadataRows(input).map(([k, v]) => `- **${k}**：${v}`),
+    '',
+    `收盤 ${stock.price}（${stock.change > 0 ? '+' : ''}${stock.change} / ${stock.pct}%），本益比 ${stock.per ?? '--'}、股淨比 ${stock.pbr ?? '--'}`,
+    '',
+    `## AI 綜合評分：${analysis.score}`,
+    '',
+    ...(analysis.partial ? ['> 部分報告：模型輸出未通過驗證，部分欄位已剔除或以標記取代。', ''] : []),
+    ...SECTIONS.flatMap(s => [`## ${s.title}`, '', analysis[s.key], '']),
+    '## 未來 3 個交易日預測',
+    '',
+    '| 日期 | 預估價 | 區間 |',
+    '| --- | ---: | ---: |',
+    ...analysis.prediction.days.map(d => `| ${d.date} | ${d.price} | ${d.low} ~ ${d.high} |`),
+    '',
+    '---',
+    '本報告由 AI 依公開數據產生，僅供參考，不構成投資建議。',
+    ''
+  ].join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 獨立 HTML 報告（內嵌樣式，可直接以瀏覽器開啟或列印為 PDF）；chartSvg 為已序列化的 K 線圖
+ */
+export const buildHtmlReport = (input: ReportInput, chartSvg = ''): string => {
+  const { stock, analysis } = input;
+  const rows = analysis.prediction.days
+    .map(d => `<tr><td>${d.date}</td><td>${d.price}</td><td>${d.low} ~ ${d.high}</td></tr>`).join('');
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${stock.name} (${stock.id}) AI 分析報告`)}</title>
+<style>
+  body { font-family: -apple-system, "Noto Sans TC", "Microsoft JhengHei", sans-serif; color: #0f172a; max-width: 820px; margin: 32px auto; padding: 0 24px; line-height: 1.7; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 16px; border-left: 4px solid #3b82f6; padding-left: 8px; margin-top: 28px; }
+  .meta { color: #475569; font-size: 12px; }
+  .meta span { margin-right: 16px; }
+  .score { font-size: 28px; font-weight: 800; }
+  .partial { background: #fef9c3; border: 1px solid #facc15; padding: 8px 12px; border-radius: 8px; font-size: 13px; }
+  .chart { background: #0f172a; border-radius: 12px; padding: 12px; margin-top: 16px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .chart svg { width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  footer { margin-top: 32px; color: #94a3b8; font-size: 11px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(stock.name)} (${stock.id}) AI 分析報告</h1>
+<div class="meta">${metadataRows(input).map(([k, v]) => `<span>${k}：${escapeHtml(v)}</span>`).join('')}</div>
+<p>收盤 <strong>${stock.price}</strong>（${stock.change > 0 ? '+' : ''}${stock.change} / ${stock.pct}%），本益比 ${stock.per ?? '--'}、股淨比 ${stock.pbr ?? '--'}</p>
+${chartSvg ? `<div class="chart">${chartSvg}</div>` : ''}
+<h2>AI 綜合評分</h2>
+<div class="score">${analysis.score}</div>
+${analysis.partial ? '<p class="partial">部分報告：模型輸出未通過驗證，部分欄位已剔除或以標記取代。</p>' : ''}
+${SECTIONS.map(s => `<h2>${s.title}</h2>\n<p>${escapeHtml(analysis[s.key])}</p>`).join('\n')}
+<h2>未來 3 個交易日預測</h2>
+<table><thead><tr><th>日期</th><th>預估價</th><th>區間</th></tr></thead><tbody>${rows}</tbody></table>
+<footer>本報告由 AI 依公開數據產生，僅供參考，不構成投資建議。</footer>
+</body>
+</html>`;
+};
+
+const csvCell = (v: string | number | null | undefined) => {
+  const text = v === null || v === undefined ? '' : String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 每日價格與三大法人買賣超 CSV（開頭為產生資訊，價格為還原股價並附原始收盤）
+ */
+export const buildDataCsv = (input: ReportInput): string => {
+  const { stock, institutional } = input;
+  const flows = new Map((institutional?.daily || []).map(d => [d.date, d]));
+  const raw = new Map((stock.rawHistory || []).map(b => [b.date, b.close]));
+  const lines = [
+    ...metadataRows(input).map(row => row.map(csvCell).join(',')),
+    '',
+    ['日期', '開盤(還原)', '最高(還原)', '最低(還原)', '收盤(還原)', '收盤(原始)', '成交量(股)', '外資(股)', '投信(股)', '自營商(股)', '法人合計(股)'].join(','),
+    ...stock.history.map(b => {
+      const f = flows.get(b.date);
+      return [b.date, b.open, b.max, b.min, b.close, raw.get(b.date) ?? b.close, b.Trading_Volume,
+        f?.foreign, f?.trust, f?.dealer, f?.total].map(csvCell).join(',');
+    })
+  ];
+  // 加上 BOM 讓 Excel 正確辨識 UTF-8 中文
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+const download = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * 將畫面上的 recharts 圖表序列化為獨立 SVG 字串
+ */
+export const serializeChart = (container: Element | null): string => {
+  const svg = container?.querySelector('svg.recharts-surface');
+  if (!svg) return '';
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  return new XMLSerializer().serializeToString(clone);
+};
+
+/**
+ * 列印視窗需在點擊事件中同步開啟，否則會被瀏覽器的彈出視窗封鎖
+ */
+export const openPrintWindow = () => window.open('', '_blank');
+
+/**
+ * 將 HTML 報告寫入列印視窗並叫出列印對話框（可選擇「另存為 PDF」）
+ */
+const printReport = (win: Window, html: string) => {
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 300);
+};
+
+export const exportReport = (format: ExportFormat, input: ReportInput, chartSvg = '', printWindow: Window | null = null) => {
+  switch (format) {
+    case 'markdown': return download(fileName(input, 'md'), buildMarkdownReport(input), 'text/markdown;charset=utf-8');
+    case 'html': return download(fileName(input, 'html'), buildHtmlReport(input, chartSvg), 'text/html;charset=utf-8');
+    case 'pdf': return printWindow && printReport(printWindow, buildHtmlReport(input, chartSvg));
+    case 'csv': return download(fileName(input, 'csv'), buildDataCsv(input), 'text/csv;charset=utf-8');
+  }
+};
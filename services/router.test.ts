@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Route, buildPath, parseRoute } from './router';
+
+const roundTrip = (route: Route) => {
+  const [pathname, search = ''] = buildPath(route).split('?');
+  return parseRoute(pathname, search ? `?${search}` : '');
+};
+
+describe('parseRoute', () => {
+  it('reads the stock id and chart options from the URL', () => {
+    expect(parseRoute('/stock/2330', '?range=1Y&interval=week&snapshot=2330-1')).toEqual({
+      page: 'stock', stockId: '2330', range: '1Y', interval: 'week', snapshot: '2330-1'
+    });
+  });
+
+  it('normalizes the id and drops unknown chart options', () => {
+    expect(parseRoute('/stock/00679b/', '?range=2W&interval=hour')).toEqual({
+      page: 'stock', stockId: '00679B', range: undefined, interval: undefined, snapshot: undefined
+    });
+  });
+
+  it('falls back to home for unknown paths', () => {
+    expect(parseRoute('/screener/', '')).toEqual({ page: 'screener' });
+    expect(parseRoute('/stock', '')).toEqual({ page: 'home' });
+    expect(parseRoute('/nope', '')).toEqual({ page: 'home' });
+  });
+});
+
+describe('buildPath', () => {
+  it('omits empty query parameters', () => {
+    expect(buildPath({ page: 'home' })).toBe('/');
+    expect(buildPath({ page: 'stock', stockId: '2330' })).toBe('/stock/2330');
+    expect(buildPath({ page: 'stock', stockId: '2330', range: '3M' })).toBe('/stock/2330?range=3M');
+    expect(buildPath({ page: 'sectors' })).toBe('/sectors');
+  });
+
+  it('round-trips every page through parseRoute', () => {
+    const routes: Route[] = [
+      { page: 'home' },
+      { page: 'compare' },
+      { page: 'screener' },
+      { page: 'alerts' },
+      { page: 'accuracy' },
+      { page: 'settings' },
+      { page: 'sectors' },
+      { page: 'sectors', industry: '半導體業' },
+      { page: 'stock', stockId: '2330', range: '5Y', interval: 'month', snapshot: '2330-1760000000000' }
+    ];
+    routes.forEach(route => expect(roundTrip(route)).toEqual(route));
+  });
+});
@@ -0,0 +1,105 @@
+import { CANDLE_INTERVALS, CandleInterval, RANGE_PRESETS, RangePreset } from './timeframes';
+
+export type Page = 'home' | 'compare' | 'screener' | 'alerts' | 'accuracy' | 'settings';
+
+/**
+ * 個股頁可帶入圖表區間、K 線週期與已保存的分析快照
+ */
+export interface StockRoute {
+  page: 'stock';
+  stockId: string;
+  range?: RangePreset;
+  interval?: CandleInterval;
+  snapshot?: string;
+}
+
+/**
+ * 產業頁可帶入展開的產業
+ */
+export interface SectorRoute {
+  page: 'sectors';
+  industry?: string;
+}
+
+export type Route = { page: Page } | StockRoute | SectorRoute;
+
+const PAGE_PATHS: Record<Exclude<Page, 'home'>, string> = {
+  compare: '/compare',
+  screener: '/screener',
+  alerts: '/alerts',
+  accuracy: '/accuracy',
+  settings: '/settings'
+};
+
+const pick = <T extends string>(value: string | null, options: { key: T }[]): T | undefined =>
+  options.find(o => o.key === value)?.key;
+
+/**
+ * 解析網址為路由；無法辨識的路徑一律回到首頁
+ */
+export const parseRoute = (pathname: string, search: string): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const stock = path.match(/^\/stock\/([^/]+)$/);
+  if (stock) {
+    const params = new URLSearchParams(search);
+    return {
+      page: 'stock',
+      stockId: decodeURIComponent(stock[1]).toUpperCase(),
+      range: pick(params.get('range'), RANGE_PRESETS),
+      interval: pick(params.get('interval'), CANDLE_INTERVALS),
+      snapshot: params.get('snapshot') || undefined
+    };
+  }
+  if (path === '/sectors') {
+    return { page: 'sectors', industry: new URLSearchParams(search).get('industry') || undefined };
+  }
+  const page = (Object.keys(PAGE_PATHS) as Exclude<Page, 'home'>[]).find(p => PAGE_PATHS[p] === path);
+  return { page: page ?? 'home' };
+};
+
+export const buildPath = (route: Route): string => {
+  if (route.page === 'home') return '/';
+  if (route.page === 'sectors') {
+    const { industry } = route as SectorRoute;
+    return industry ? `/sectors?${new URLSearchParams({ industry })}` : '/sectors';
+  }
+  if (route.page !== 'stock') return PAGE_PATHS[route.page];
+  const { stockId, range, interval, snapshot } = route as StockRoute;
+  const params = new URLSearchParams();
+  if (range) params.set('range', range);
+  if (interval) params.set('interval', interval);
+  if (snapshot) params.set('snapshot', snapshot);
+  const query = params.toString();
+  return `/stock/${encodeURIComponent(stockId)}${query ? `?${query}` : ''}`;
+};
+
+export const currentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+const listeners = new Set<() => void>();
+
+/**
+ * 切換路由；replace 用於不需留下歷史紀錄的調整（例如圖表區間）
+ */
+export const navigate = (route: Route, replace = false) => {
+  const path = buildPath(route);
+  if (path === window.location.pathname + window.location.search) return;
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+    window.scrollTo(0, 0);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * 訂閱路由變化（含瀏覽器上一頁 / 下一頁），回傳取消訂閱函式
+ */
+export const subscribeRoute = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener('popstate', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', listener);
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_FILTERS, runScreener } from './screener';
+import { InstitutionalRow, PERRow, PriceBar, StockListRow } from '../types';
+
+const DATES = ['2026-10-14', '2026-10-15', '2026-10-16'];
+
+const universe: StockListRow[] = [
+  { stock_id: '2330', stock_name: '台積電', industry_category: '半導體業', type: 'twse', date: '2026-10-16' },
+  { stock_id: '2317', stock_name: '鴻海', industry_category: '其他電子業', type: 'twse', date: '2026-10-16' },
+  { stock_id: '0050', stock_name: '元大台灣50', industry_category: 'ETF', type: 'twse', date: '2026-10-16' },
+  { stock_id: '6488', stock_name: '環球晶', industry_category: '半導體業', type: 'tpex', date: '2026-10-16' },
+  // 最新交易日無成交資料
+  { stock_id: '1101', stock_name: '台泥', industry_category: '水泥工業', type: 'twse', date: '2026-10-16' }
+];
+
+const bar = (stock_id: string, date: string, close: number): PriceBar => ({
+  date, stock_id, Trading_Volume: 2_000_000, Trading_money: 0, open: close, max: close, min: close, close, spread: 0, Trading_turnover: 0
+});
+
+const per: PERRow[] = [
+  { date: '2026-10-16', stock_id: '2330', dividend_yield: 1.5, PER: 20, PBR: 5 },
+  { date: '2026-10-16', stock_id: '2317', dividend_yield: 4, PER: 12, PBR: 1.4 },
+  { date: '2026-10-16', stock_id: '0050', dividend_yield: 3, PER: 10, PBR: 1.2 }
+];
+
+const foreign = (stock_id: string, date: string, net: number, name = 'Foreign_Investor'): InstitutionalRow =>
+  ({ date, stock_id, name, buy: Math.max(net, 0), sell: Math.max(-net, 0) });
+
+const institutional: InstitutionalRow[] = [
+  foreign('2330', '2026-10-14', 100), foreign('2330', '2026-10-15', 200), foreign('2330', '2026-10-16', 300),
+  foreign('2317', '2026-10-14', 100), foreign('2317', '2026-10-15', -50), foreign('2317', '2026-10-16', 80),
+  foreign('6488', '2026-10-14', 100), foreign('6488', '2026-10-15', -50), foreign('6488', '2026-10-16', 80),
+  // 外資自營商併入外資，使 6488 在 10/15 轉為淨買超
+  foreign('6488', '2026-10-15', 80, 'Foreign_Dealer_Self')
+];
+
+vi.mock('./finmind', () => ({
+  fetchStockUniverse: vi.fn(async () => universe),
+  fetchRecentTradingDates: vi.fn(async (count: number) => ({ status: 'success', data: DATES.slice(-count) })),
+  fetchMarketPrices: vi.fn(async (date: string) => ({
+    status: 'success',
+    data: ['2330', '2317', '0050', '6488', '1101']
+      .filter(id => id !== '1101' || date !== '2026-10-16')
+      .map((id, i) => bar(id, date, 100 + i + DATES.indexOf(date)))
+  })),
+  fetchMarketPER: vi.fn(async () => ({ status: 'success', data: per })),
+  fetchMarketInstitutional: vi.fn(async (date: string) => ({ status: 'success', data: institutional.filter(r => r.date === date) }))
+}));
+
+describe('runScreener', () => {
+  it('applies market, ETF and valuation filters to stocks traded on the latest date', async () => {
+    const rows = await runScreener({ ...EMPTY_FILTERS, markets: ['twse'] });
+    expect(rows.map(r => r.id)).toEqual(['2330', '2317']);
+    expect(rows[0]).toMatchObject({ name: '台積電', close: 102, pct: 0.99, per: 20, pbr: 5 });
+
+    const cheap = await runScreener({ ...EMPTY_FILTERS, perMax: 15 });
+    expect(cheap.map(r => r.id)).toEqual(['2317']);
+  });
+
+  it('requires the latest foreign buying streak to reach the threshold', async () => {
+    const progress: number[] = [];
+    const rows = await runScreener({ ...EMPTY_FILTERS, foreignBuyStreak: 3 }, done => progress.push(done));
+    expect(rows.map(r => [r.id, r.foreignStreak])).toEqual([['2330', 3], ['6488', 3]]);
+    // 價格 2 日 + 本益比 1 日 + 法人 3 日
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
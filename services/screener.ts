@@ -0,0 +1,167 @@
+import {
+  fetchMarketInstitutional, fetchMarketPER, fetchMarketPrices, fetchRecentTradingDates, fetchStockUniverse
+} from './finmind';
+import { computeIndicators } from './indicators';
+import { investorKey, netStreak } from './institutionalFlow';
+import { FinMindResult, InstitutionalRow, PriceBar, ScreenerFilters, ScreenerPreset, ScreenerRow } from '../types';
+
+const PRESETS_KEY = 'twstock.screenerPresets';
+
+// 技術指標條件所需的交易日數（RSI14、KD9、MA20 皆可涵蓋）
+const INDICATOR_LOOKBACK = 30;
+const VOLUME_LOOKBACK = 21;
+
+export const MARKET_LABELS: Record<string, string> = {
+  twse: '上市',
+  tpex: '上櫃'
+};
+
+export const EMPTY_FILTERS: ScreenerFilters = {
+  markets: ['twse', 'tpex'],
+  industries: [],
+  excludeEtf: true
+};
+
+export const getScreenerPresets = (): ScreenerPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveScreenerPresets = (presets: ScreenerPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+/**
+ * 股票清單中所有產業類別（排序後去重）
+ */
+export const listIndustries = async (): Promise<string[]> => {
+  const universe = await fetchStockUniverse();
+  return [...new Set(universe.map(s => s.industry_category).filter(Boolean))].sort();
+};
+
+const inRange = (v: number | null, min?: number, max?: number) => {
+  if (min === undefined && max === undefined) return true;
+  if (v === null) return false;
+  return (min === undefined || v >= min) && (max === undefined || v <= max);
+};
+
+const needsIndicators = (f: ScreenerFilters) =>
+  f.rsiMin !== undefined || f.rsiMax !== undefined || !!f.kdGoldenCross || !!f.aboveMa20;
+
+/**
+ * 逐日以全市場查詢取回資料（每個交易日一次請求，而非每檔一次）
+ */
+const collectByDate = async <T extends { stock_id: string }>(
+  dates: string[],
+  fetcher: (date: string) => Promise<FinMindResult<T[]>>,
+  onDate: () => void
+): Promise<Map<string, T[]>> => {
+  const byStock = new Map<string, T[]>();
+  for (const date of dates) {
+    const result = await fetcher(date);
+    onDate();
+    if (result.status === 'error') {
+      if (result.error.kind === 'quota') throw new Error('FinMind 請求額度已用完，請稍後再試');
+      continue;
+    }
+    result.data.forEach(row => byStock.set(row.stock_id, [...(byStock.get(row.stock_id) || []), row]));
+  }
+  return byStock;
+};
+
+/**
+ * 依條件篩選全市場個股
+ */
+export const runScreener = async (
+  filters: ScreenerFilters,
+  onProgress?: (done: number, total: number) => void
+): Promise<ScreenerRow[]> => {
+  const universe = await fetchStockUniverse();
+  const candidates = new Map<string, { name: string; market: string; industry: string }>();
+  universe.forEach(s => {
+    if (candidates.has(s.stock_id)) return;
+    if (filters.markets.length > 0 && !filters.markets.includes(s.type)) return;
+    if (filters.industries.length > 0 && !filters.industries.includes(s.industry_category)) return;
+    if (filters.excludeEtf && (s.industry_category === 'ETF' || s.stock_id.startsWith('00'))) return;
+    candidates.set(s.stock_id, { name: s.stock_name, market: s.type, industry: s.industry_category });
+  });
+
+  const priceDays = needsIndicators(filters) ? INDICATOR_LOOKBACK : filters.volumeSpike ? VOLUME_LOOKBACK : 2;
+  const instDays = Math.max(filters.foreignBuyStreak || 0, filters.trustBuyStreak || 0);
+  const datesResult = await fetchRecentTradingDates(Math.max(priceDays, instDays));
+  if (datesResult.status === 'error') throw new Error('無法取得交易日資料');
+  const dates = datesResult.data;
+  const latestDate = dates[dates.length - 1];
+
+  const total = Math.min(priceDays, dates.length) + 1 + (instDays > 0 ? Math.min(instDays, dates.length) : 0);
+  let done = 0;
+  const tick = () => onProgress?.(++done, total);
+
+  const prices = await collectByDate<PriceBar>(dates.slice(-priceDays), fetchMarketPrices, tick);
+  const perRows = await collectByDate(dates.slice(-1), fetchMarketPER, tick);
+  const instRows = instDays > 0
+    ? await collectByDate<InstitutionalRow>(dates.slice(-instDays), fetchMarketInstitutional, tick)
+    : new Map<string, InstitutionalRow[]>();
+
+  const rows: ScreenerRow[] = [];
+  candidates.forEach((info, id) => {
+    const bars = (prices.get(id) || []).sort((a, b) => a.date.localeCompare(b.date));
+    const latest = bars[bars.length - 1];
+    if (!latest || latest.date !== latestDate) return;
+    const prev = bars[bars.length - 2] || latest;
+    const per = perRows.get(id)?.[0];
+
+    const netByDate = (key: 'foreign' | 'trust') => {
+      const days = new Map<string, number>();
+      (instRows.get(id) || []).filter(r => investorKey(r.name) === key)
+        .forEach(r => days.set(r.date, (days.get(r.date) || 0) + r.buy - r.sell));
+      return [...days.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, v]) => v);
+    };
+    const foreignStreak = instDays > 0 ? netStreak(netByDate('foreign')) : null;
+    const trustStreak = instDays > 0 ? netStreak(netByDate('trust')) : null;
+
+    const points = needsIndicators(filters) ? computeIndicators(bars) : [];
+    const last = points[points.length - 1];
+    const before = points[points.length - 2];
+
+    const row: ScreenerRow = {
+      id,
+      ...info,
+      close: latest.close,
+      pct: parseFloat(((latest.close - prev.close) / prev.close * 100).toFixed(2)),
+      volume: latest.Trading_Volume,
+      per: per ? per.PER : null,
+      pbr: per ? per.PBR : null,
+      foreignStreak,
+      trustStreak,
+      rsi: last?.rsi ?? null,
+      k: last?.k ?? null,
+      d: last?.d ?? null
+    };
+
+    if (!inRange(row.per, filters.perMin, filters.perMax)) return;
+    if (!inRange(row.pbr, filters.pbrMin, filters.pbrMax)) return;
+    if (!inRange(row.close, filters.priceMin, filters.priceMax)) return;
+    if (filters.minVolumeLots !== undefined && row.volume / 1000 < filters.minVolumeLots) return;
+    if (filters.volumeSpike) {
+      const past = bars.slice(-21, -1);
+      const avg = past.reduce((t, b) => t + b.Trading_Volume, 0) / Math.max(past.length, 1);
+      if (past.length < 20 || row.volume <= avg * filters.volumeSpike) return;
+    }
+    if (filters.foreignBuyStreak && (foreignStreak ?? 0) < filters.foreignBuyStreak) return;
+    if (filters.trustBuyStreak && (trustStreak ?? 0) < filters.trustBuyStreak) return;
+    if (!inRange(row.rsi, filters.rsiMin, filters.rsiMax)) return;
+    if (filters.kdGoldenCross) {
+      if (!last || !before || last.k === null || last.d === null || before.k === null || before.d === null) return;
+      if (!(before.k <= before.d && last.k > last.d)) return;
+    }
+    if (filters.aboveMa20 && (!last || last.ma20 === null || latest.close <= last.ma20)) return;
+
+    rows.push(row);
+  });
+
+  return rows;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fetchSectorRotation, fetchSectorSnapshot } from './sectors';
+import { nextTradingDays } from './tradingCalendar';
+import { FinMindError, InstitutionalRow, PriceBar, StockListRow } from '../types';
+
+// 最近 61 個交易日，最後一日為最新資料日
+const DATES = nextTradingDays('2026-07-01', 61);
+const LATEST = DATES[DATES.length - 1];
+
+const listed = (stock_id: string, stock_name: string, industry_category: string, type = 'twse'): StockListRow =>
+  ({ stock_id, stock_name, industry_category, type, date: LATEST });
+
+const universe = [
+  listed('2330', '台積電', '半導體業'),
+  listed('2303', '聯電', '半導體業'),
+  listed('2882', '國泰金', '金融保險業'),
+  listed('0050', '元大台灣50', 'ETF'),
+  listed('2330', '台積電', '半導體業', 'tpex'),
+  // 最新日無報價的產業不列入
+  listed('1101', '台泥', '水泥工業')
+];
+
+const bar = (stock_id: string, date: string, close: number, spread = 0, Trading_money = 0): PriceBar =>
+  ({ date, stock_id, Trading_Volume: 0, Trading_money, open: close, max: close, min: close, close, spread, Trading_turnover: 0 });
+
+const latestBars = [
+  bar('2330', LATEST, 120, 20, 3e9),
+  bar('2303', LATEST, 50, -2, 1e9),
+  bar('2882', LATEST, 40, 0, 5e8),
+  bar('0050', LATEST, 150, 1, 9e9)
+];
+const baseBars = (date: string) => [bar('2330', date, 100), bar('2303', date, 40), bar('2882', date, 40), bar('1101', date, 30)];
+
+// 查詢失敗的日期
+const failing = new Set<string>();
+const fail = { status: 'error', error: { kind: 'http', status: 500, message: '伺服器錯誤' } };
+
+const flows = (date: string): InstitutionalRow[] => [
+  { date, stock_id: '2330', name: 'Foreign_Investor', buy: 1_000_000, sell: 0 },
+  { date, stock_id: '2330', name: 'Foreign_Dealer_Self', buy: 100_000, sell: 0 },
+  { date, stock_id: '2882', name: 'Investment_Trust', buy: 0, sell: 500_000 }
+];
+
+vi.mock('./finmind', () => ({
+  describeFinMindError: (error: FinMindError) => error.message,
+  fetchStockUniverse: vi.fn(async () => universe),
+  fetchRecentTradingDates: vi.fn(async () => ({ status: 'success', data: [LATEST] })),
+  fetchMarketPrices: vi.fn(async (date: string) =>
+    failing.has(date) ? fail : { status: 'success', data: date === LATEST ? latestBars : baseBars(date) }),
+  fetchMarketInstitutional: vi.fn(async (date: string) => failing.has(date) ? fail : { status: 'success', data: flows(date) }),
+  // 加權指數區間內持平，最新日上漲 10%
+  fetchPriceBars: vi.fn(async () => ({ status: 'success', data: DATES.map(d => bar('TAIEX', d, d === LATEST ? 110 : 100)) }))
+}));
+
+describe('fetchSectorSnapshot', () => {
+  it('aggregates common stocks by industry with turnover-weighted change', async () => {
+    const result = await fetchSectorSnapshot();
+    if (result.status === 'error') throw new Error(result.error.message);
+    const [semis, financials] = result.data.sectors;
+    expect(result.data.sectors).toHaveLength(2);
+    expect(semis).toMatchObject({ industry: '半導體業', turnover: 4e9, pct: 14.04, advancers: 1, decliners: 1 });
+    expect(semis.stocks.map(s => [s.id, s.pct])).toEqual([['2330', 20], ['2303', -3.85]]);
+    expect(financials).toMatchObject({ industry: '金融保險業', pct: 0, advancers: 0, decliners: 0 });
+  });
+});
+
+describe('fetchSectorRotation', () => {
+  it('measures industry returns against the index and values net institutional flow', async () => {
+    const { date, rows, errors } = await fetchSectorRotation();
+    expect(date).toBe(LATEST);
+    expect(errors).toEqual([]);
+    expect(rows.map(r => r.industry)).toEqual(['半導體業', '金融保險業']);
+    expect(rows[0].performance).toEqual({ 5: 12.5, 20: 12.5, 60: 12.5 });
+    expect(rows[0].flow).toEqual({ 5: 6.6, 20: 26.4 });
+    expect(rows[1].performance).toEqual({ 5: -10, 20: -10, 60: -10 });
+    expect(rows[1].flow).toEqual({ 5: -1, 20: -4 });
+  });
+
+  it('leaves windows with a failed query empty instead of counting them as zero', async () => {
+    // 20 日區間起點的報價與區間內一日的法人資料查詢失敗
+    failing.add(DATES[40]);
+    failing.add(DATES[50]);
+    try {
+      const { rows, errors } = await fetchSectorRotation();
+      expect(rows[0].performance).toEqual({ 5: 12.5, 20: null, 60: 12.5 });
+      expect(rows[0].flow).toEqual({ 5: 6.6, 20: null });
+      expect(errors).toEqual([`${DATES[40]} 報價：伺服器錯誤`, `${DATES[50]} 法人買賣超：伺服器錯誤`]);
+    } finally {
+      failing.clear();
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  describeFinMindError, fetchMarketInstitutional, fetchMarketPrices, fetchPriceBars, fetchRecentTradingDates, fetchStockUniverse
+} from './finmind';
+import { sessionWindowStart } from './tradingCalendar';
+import { investorKey } from './institutionalFlow';
+import { FinMindResult, SectorRotationRow, SectorStock, SectorSummary, StockListRow } from '../types';
+
+// 輪動分析的區間（交易日數）
+export const ROTATION_WINDOWS = [5, 20, 60];
+// 法人買賣超需逐日查詢全市場資料，只計算到 20 日以控制請求數
+export const FLOW_WINDOWS = [5, 20];
+
+/**
+ * 載入一次輪動分析的 FinMind 請求數：加權指數、最新日與各區間起點報價、每日法人買賣超（已快取者不計）
+ */
+export const ROTATION_REQUEST_COST = 1 + 1 + ROTATION_WINDOWS.length + Math.max(...FLOW_WINDOWS);
+
+const round2 = (v: number) => parseFloat(v.toFixed(2));
+
+/**
+ * 只納入上市櫃普通股（四碼且非 0 開頭），排除 ETF、權證、ETN 與指數
+ */
+const isCommonStock = (row: StockListRow) =>
+  (row.type === 'twse' || row.type === 'tpex') && /^[1-9]\d{3}$/.test(row.stock_id) && !!row.industry_category && row.industry_category !== 'ETF';
+
+/**
+ * 代號 → 名稱、市場與產業（清單中同一代號可能出現多列，取第一筆）
+ */
+const listCommonStocks = async () => {
+  const stocks = new Map<string, { name: string; market: string; industry: string }>();
+  (await fetchStockUniverse()).forEach(row => {
+    if (!stocks.has(row.stock_id) && isCommonStock(row)) {
+      stocks.set(row.stock_id, { name: row.stock_name, market: row.type, industry: row.industry_category });
+    }
+  });
+  return stocks;
+};
+
+/**
+ * 最新交易日的產業概況：以一次全市場報價查詢彙整各產業成交金額與漲跌幅（漲跌以 spread 推算昨收）
+ */
+export const fetchSectorSnapshot = async (): Promise<FinMindResult<{ date: string; sectors: SectorSummary[] }>> => {
+  const datesResult = await fetchRecentTradingDates(1);
+  if (datesResult.status === 'error') return datesResult;
+  const date = datesResult.data[datesResult.data.length - 1];
+  const [prices, stocks] = await Promise.all([fetchMarketPrices(date), listCommonStocks()]);
+  if (prices.status === 'error') return prices;
+
+  const byIndustry = new Map<string, SectorStock[]>();
+  prices.data.forEach(bar => {
+    const info = stocks.get(bar.stock_id);
+    const prevClose = bar.close - bar.spread;
+    if (!info || bar.close <= 0 || prevClose <= 0) return;
+    const stock: SectorStock = {
+      id: bar.stock_id,
+      name: info.name,
+      market: info.market,
+      close: bar.close,
+      pct: round2(bar.spread / prevClose * 100),
+      turnover: bar.Trading_money
+    };
+    byIndustry.set(info.industry, [...(byIndustry.get(info.industry) || []), stock]);
+  });
+
+  const sectors: SectorSummary[] = [...byIndustry.entries()].map(([industry, list]) => {
+    const turnover = list.reduce((sum, s) => sum + s.turnover, 0);
+    return {
+      industry,
+      turnover,
+      pct: turnover > 0 ? round2(list.reduce((sum, s) => sum + s.pct * s.turnover, 0) / turnover) : 0,
+      advancers: list.filter(s => s.pct > 0).length,
+      decliners: list.filter(s => s.pct < 0).length,
+      stocks: list.sort((a, b) => b.turnover - a.turnover)
+    };
+  });
+  return { status: 'success', data: { date, sectors: sectors.sort((a, b) => b.turnover - a.turnover) } };
+};
+
+/**
+ * 產業輪動：各區間的相對大盤報酬與法人買賣超。
+ * 價格只需查詢最新日與各區間起點共 4 日，法人資料則逐日以全市場查詢（已過交易日長期快取）。
+ * 個別日期查詢失敗時，受影響區間的數值為 null 並列入 errors，不以 0 代替
+ */
+export const fetchSectorRotation = async (
+  onProgress?: (done: number, total: number) => void
+): Promise<{ date: string; rows: SectorRotationRow[]; errors: string[] }> => {
+  const maxWindow = Math.max(...ROTATION_WINDOWS);
+  const benchmark = await fetchPriceBars('TAIEX', sessionWindowStart(maxWindow + 2));
+  if (benchmark.status === 'error') throw new Error('無法取得加權指數資料');
+  const bars = benchmark.data.slice(-(maxWindow + 1));
+  const dates = bars.map(b => b.date);
+  const latestDate = dates[dates.length - 1];
+  const baseDates = ROTATION_WINDOWS.map(w => dates[Math.max(0, dates.length - 1 - w)]);
+  const flowDates = dates.slice(-Math.max(...FLOW_WINDOWS));
+
+  const total = 1 + baseDates.length + flowDates.length;
+  let done = 0;
+  const tracked = <T>(task: Promise<T>) => task.then(result => {
+    onProgress?.(++done, total);
+    return result;
+  });
+
+  const stocks = await listCommonStocks();
+  const priceResults = await Promise.all([latestDate, ...baseDates].map(d => tracked(fetchMarketPrices(d))));
+  const flowResults = await Promise.all(flowDates.map(d => tracked(fetchMarketInstitutional(d))));
+  if ([...priceResults, ...flowResults].some(r => r.status === 'error' && r.error.kind === 'quota')) {
+    throw new Error('FinMind 請求額度已用完，請稍後再試');
+  }
+  const errors: string[] = [];
+  [latestDate, ...baseDates].forEach((d, i) => {
+    const result = priceResults[i];
+    if (result.status === 'error') errors.push(`${d} 報價：${describeFinMindError(result.error)}`);
+  });
+  flowDates.forEach((d, i) => {
+    const result = flowResults[i];
+    if (result.status === 'error') errors.push(`${d} 法人買賣超：${describeFinMindError(result.error)}`);
+  });
+
+  const closesOn = (i: number) => {
+    const result = priceResults[i];
+    return result.status === 'success' ? new Map(result.data.map(b => [b.stock_id, b.close])) : null;
+  };
+  const latestCloses = closesOn(0);
+  const baseCloses = ROTATION_WINDOWS.map((w, i) => closesOn(i + 1));
+  if (!latestCloses) throw new Error(`查無 ${latestDate} 的全市場報價`);
+
+  // 每個法人資料日期的個股淨買賣股數（外資、投信、自營商合計）；查詢失敗的日期為 null
+  const netByDate = flowResults.map(result => {
+    if (result.status === 'error') return null;
+    const net = new Map<string, number>();
+    result.data.forEach(row => {
+      if (investorKey(row.name)) {
+        net.set(row.stock_id, (net.get(row.stock_id) || 0) + row.buy - row.sell);
+      }
+    });
+    return net;
+  });
+
+  const industries = [...new Set([...stocks.values()].map(s => s.industry))];
+  const rows: SectorRotationRow[] = industries.map(industry => {
+    const members = [...stocks.entries()].filter(([id, s]) => s.industry === industry && latestCloses.has(id)).map(([id]) => id);
+    const performance: Record<number, number | null> = {};
+    const flow: Record<number, number | null> = {};
+    ROTATION_WINDOWS.forEach((w, i) => {
+      const base = baseCloses[i];
+      const returns = base ? members
+        .filter(id => (base.get(id) || 0) > 0)
+        .map(id => latestCloses.get(id)! / base.get(id)! - 1) : [];
+      const benchBase = bars[Math.max(0, bars.length - 1 - w)].close;
+      const benchReturn = bars[bars.length - 1].close / benchBase - 1;
+      performance[w] = returns.length > 0
+        ? round2((returns.reduce((sum, r) => sum + r, 0) / returns.length - benchReturn) * 100)
+        : null;
+    });
+    FLOW_WINDOWS.forEach(w => {
+      const days = netByDate.slice(-w);
+      flow[w] = days.some(day => day === null) ? null : round2(members.reduce((sum, id) =>
+        sum + days.reduce((s, day) => s + (day!.get(id) || 0), 0) * latestCloses.get(id)!, 0) / 1e8);
+    });
+    return { industry, performance, flow };
+  }).filter(row => ROTATION_WINDOWS.some(w => row.performance[w] !== null));
+
+  return { date: latestDate, rows, errors };
+};
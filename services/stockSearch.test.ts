@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { classifySecurity, pickCandidate, rankCandidates } from './stockSearch';
+import { StockListRow } from '../types';
+
+const row = (stock_id: string, stock_name: string, industry_category = '半導體業', type = 'twse'): StockListRow =>
+  ({ stock_id, stock_name, industry_category, type } as StockListRow);
+
+const list = [
+  row('2330', '台積電'),
+  row('2330', '台積電'),
+  row('0050', '元大台灣50', 'ETF'),
+  row('030001', '台積電元大售01', '', 'twse'),
+  row('70034P', '台積凱基05售01', '', 'tpex'),
+  row('020000', '富邦特選蘋果N', '', 'twse'),
+  row('2303', '聯電'),
+  row('3443', '創意')
+];
+
+describe('classifySecurity', () => {
+  it('classifies by code pattern', () => {
+    expect(classifySecurity(row('2330', '台積電'))).toBe('stock');
+    expect(classifySecurity(row('00632R', '元大台灣50反1', 'ETF'))).toBe('etf');
+    expect(classifySecurity(row('020000', 'ETN', ''))).toBe('etn');
+    expect(classifySecurity(row('030001', '權證', ''))).toBe('warrant');
+    expect(classifySecurity(row('70034P', '牛熊證', ''))).toBe('warrant');
+    expect(classifySecurity(row('2888A', '新光金甲特', '金融保險業'))).toBe('stock');
+  });
+});
+
+describe('rankCandidates', () => {
+  it('orders exact code, exact name, prefix, then substring', () => {
+    expect(rankCandidates(list, '2330').map(c => [c.id, c.rank])).toEqual([['2330', 0]]);
+    expect(rankCandidates(list, '台積電').map(c => [c.id, c.rank])).toEqual([['2330', 1], ['030001', 2]]);
+    expect(rankCandidates(list, '23').map(c => c.id)).toEqual(['2303', '2330']);
+  });
+
+  it('prefers common stocks within the same rank and removes duplicates', () => {
+    expect(rankCandidates(list, '台積').map(c => c.id)).toEqual(['2330', '030001', '70034P']);
+  });
+
+  it('applies kind filters and the result limit', () => {
+    expect(rankCandidates(list, '台積', ['warrant']).map(c => c.id)).toEqual(['2330']);
+    expect(rankCandidates(list, '0', [], 2)).toHaveLength(2);
+    expect(rankCandidates(list, '  ')).toEqual([]);
+  });
+});
+
+describe('pickCandidate', () => {
+  it('accepts exact or single matches and refuses ambiguous partial ones', () => {
+    expect(pickCandidate(rankCandidates(list, '台積電'))?.id).toBe('2330');
+    expect(pickCandidate(rankCandidates(list, '聯'))?.id).toBe('2303');
+    expect(pickCandidate(rankCandidates(list, '台積'))).toBeNull();
+    expect(pickCandidate([])).toBeNull();
+  });
+});
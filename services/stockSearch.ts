@@ -0,0 +1,66 @@
+import { SecurityKind, StockCandidate, StockListRow } from '../types';
+
+export const SECURITY_KIND_LABELS: Record<SecurityKind, string> = {
+  stock: '股票',
+  etf: 'ETF',
+  warrant: '權證',
+  etn: 'ETN'
+};
+
+/**
+ * 依代號規則判斷證券類別：ETN 為 02 開頭六碼、ETF 為 00 開頭（或產業為 ETF），
+ * 其餘六碼或五碼加英文字母（如牛熊證 70034P）為權證
+ */
+export const classifySecurity = (row: StockListRow): SecurityKind => {
+  const id = row.stock_id;
+  if (/^02\d{4}$/.test(id)) return 'etn';
+  if (/^00\d{2,4}[A-Z]?$/.test(id) || row.industry_category.includes('ETF')) return 'etf';
+  if (/^\d{6}$/.test(id) || /^\d{5}[A-Z]$/.test(id)) return 'warrant';
+  return 'stock';
+};
+
+const KIND_ORDER: SecurityKind[] = ['stock', 'etf', 'etn', 'warrant'];
+
+/**
+ * 依相符程度排序候選：代號完全相符 > 名稱完全相符 > 開頭相符 > 部分相符，
+ * 同級時普通股優先、代號較短者優先
+ */
+export const rankCandidates = (
+  list: StockListRow[],
+  query: string,
+  exclude: SecurityKind[] = [],
+  limit = 8
+): StockCandidate[] => {
+  const q = query.trim().toUpperCase();
+  if (!q) return [];
+  const seen = new Set<string>();
+  const candidates: StockCandidate[] = [];
+
+  list.forEach(row => {
+    if (seen.has(row.stock_id)) return;
+    const id = row.stock_id.toUpperCase();
+    const name = row.stock_name.toUpperCase();
+    const rank = id === q ? 0 : name === q ? 1 : id.startsWith(q) || name.startsWith(q) ? 2 : id.includes(q) || name.includes(q) ? 3 : -1;
+    if (rank < 0) return;
+    const kind = classifySecurity(row);
+    if (exclude.includes(kind)) return;
+    seen.add(row.stock_id);
+    candidates.push({ id: row.stock_id, name: row.stock_name, market: row.type, industry: row.industry_category, kind, rank });
+  });
+
+  return candidates
+    .sort((a, b) => a.rank - b.rank
+      || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+      || a.id.length - b.id.length
+      || a.id.localeCompare(b.id))
+    .slice(0, limit);
+};
+
+/**
+ * 候選是否足以直接採用：第一名為代號或名稱完全相符，或只有一檔符合；否則需由使用者選擇
+ */
+export const pickCandidate = (candidates: StockCandidate[]): StockCandidate | null => {
+  const [top] = candidates;
+  if (!top) return null;
+  return top.rank <= 1 || candidates.length === 1 ? top : null;
+};
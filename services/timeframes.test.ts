@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateBars, bucketKey, fetchStart, rangeStart } from './timeframes';
+import { PriceBar } from '../types';
+
+const bar = (date: string, open: number, max: number, min: number, close: number, volume = 1000): PriceBar => ({
+  date, stock_id: '2330', Trading_Volume: volume, Trading_money: close * volume,
+  open, max, min, close, spread: 0, Trading_turnover: 1
+});
+
+// 2026-10-05 為週一
+const bars = [
+  bar('2026-10-05', 10, 12, 9, 11),
+  bar('2026-10-06', 11, 13, 10, 12),
+  bar('2026-10-08', 12, 12, 8, 9, 3000),
+  bar('2026-10-12', 9, 10, 9, 10),
+  bar('2026-11-02', 10, 15, 10, 14)
+];
+
+describe('bucketKey', () => {
+  it('groups weeks by Monday and months by year-month', () => {
+    expect(bucketKey('2026-10-08', 'day')).toBe('2026-10-08');
+    expect(bucketKey('2026-10-08', 'week')).toBe('2026-10-05');
+    expect(bucketKey('2026-10-11', 'week')).toBe('2026-10-05');
+    expect(bucketKey('2026-10-08', 'month')).toBe('2026-10');
+  });
+});
+
+describe('aggregateBars', () => {
+  it('leaves daily bars untouched', () => {
+    expect(aggregateBars(bars, 'day')).toBe(bars);
+  });
+
+  it('merges weekly OHLC and volume, dated by the last session', () => {
+    const weeks = aggregateBars(bars, 'week');
+    expect(weeks).toHaveLength(3);
+    expect(weeks[0]).toMatchObject({ date: '2026-10-08', open: 10, max: 13, min: 8, close: 9, Trading_Volume: 5000 });
+    expect(weeks[1]).toMatchObject({ date: '2026-10-12', close: 10, spread: 1 });
+  });
+
+  it('computes monthly change from the previous month close', () => {
+    const months = aggregateBars(bars, 'month');
+    expect(months.map(m => [m.date, m.close, m.spread])).toEqual([['2026-10-12', 10, 0], ['2026-11-02', 14, 4]]);
+  });
+
+  it('does not mutate the input bars', () => {
+    aggregateBars(bars, 'week');
+    expect(bars[0]).toMatchObject({ date: '2026-10-05', close: 11, Trading_Volume: 1000 });
+  });
+});
+
+describe('range helpers', () => {
+  it('adds indicator warm-up months before the visible range', () => {
+    expect(rangeStart('2026-10-16', '6M')).toBe('2026-04-16');
+    expect(fetchStart('2026-10-16', '6M', 'day')).toBe('2025-12-16');
+    // 月 K 的 MA60 需要 60 個月暖機
+    expect(fetchStart('2026-10-16', '5Y', 'month')).toBe('2016-10-16');
+  });
+});
@@ -0,0 +1,78 @@
+import { PriceBar } from '../types';
+
+export type RangePreset = '1M' | '3M' | '6M' | '1Y' | '3Y' | '5Y';
+export type CandleInterval = 'day' | 'week' | 'month';
+
+export const RANGE_PRESETS: { key: RangePreset; months: number; interval: CandleInterval }[] = [
+  { key: '1M', months: 1, interval: 'day' },
+  { key: '3M', months: 3, interval: 'day' },
+  { key: '6M', months: 6, interval: 'day' },
+  { key: '1Y', months: 12, interval: 'week' },
+  { key: '3Y', months: 36, interval: 'week' },
+  { key: '5Y', months: 60, interval: 'month' }
+];
+
+export const CANDLE_INTERVALS: { key: CandleInterval; label: string }[] = [
+  { key: 'day', label: '日K' },
+  { key: 'week', label: '週K' },
+  { key: 'month', label: '月K' }
+];
+
+// 區間起點前多抓的月數，讓 MA60 等長週期指標在圖表起點已有數值
+const WARMUP_MONTHS: Record<CandleInterval, number> = { day: 4, week: 14, month: 60 };
+
+const shiftMonths = (date: string, months: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - months);
+  return d.toISOString().slice(0, 10);
+};
+
+/**
+ * 區間起始日（自最後交易日往回推算）
+ */
+export const rangeStart = (lastDate: string, range: RangePreset) =>
+  shiftMonths(lastDate, RANGE_PRESETS.find(r => r.key === range)!.months);
+
+/**
+ * 計算指標所需的資料起始日
+ */
+export const fetchStart = (lastDate: string, range: RangePreset, interval: CandleInterval) =>
+  shiftMonths(rangeStart(lastDate, range), WARMUP_MONTHS[interval]);
+
+/**
+ * K 棒所屬的期別：日 K 為當日、週 K 以週一日期分組、月 K 以年月分組
+ */
+export const bucketKey = (date: string, interval: CandleInterval) => {
+  if (interval === 'day') return date;
+  if (interval === 'month') return date.slice(0, 7);
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+};
+
+/**
+ * 將日 K 合併為週 K / 月 K：開盤取首日、收盤取末日、高低取極值、量額加總，日期為該期最後交易日
+ */
+export const aggregateBars = (bars: PriceBar[], interval: CandleInterval): PriceBar[] => {
+  if (interval === 'day') return bars;
+  const result: PriceBar[] = [];
+  let key = '';
+  bars.forEach(bar => {
+    const k = bucketKey(bar.date, interval);
+    const last = result[result.length - 1];
+    if (k !== key || !last) {
+      key = k;
+      result.push({ ...bar });
+      return;
+    }
+    last.date = bar.date;
+    last.close = bar.close;
+    last.max = Math.max(last.max, bar.max);
+    last.min = Math.min(last.min, bar.min);
+    last.Trading_Volume += bar.Trading_Volume;
+    last.Trading_money += bar.Trading_money;
+    last.Trading_turnover += bar.Trading_turnover;
+  });
+  // 漲跌以前一期收盤計算
+  return result.map((bar, i) => i === 0 ? bar : { ...bar, spread: parseFloat((bar.close - result[i - 1].close).toFixed(2)) });
+};
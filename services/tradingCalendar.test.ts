@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isCalendarCovered, isTradingDay, lastTradingDayOnOrBefore, monthsAgo, nextTradingDay, nextTradingDays, previousTradingDay,
+  sessionWindowStart, tradingDaysBack
+} from './tradingCalendar';
+
+describe('isTradingDay', () => {
+  it('excludes weekends and listed holidays', () => {
+    expect(isTradingDay('2026-10-16')).toBe(true);
+    expect(isTradingDay('2026-10-17')).toBe(false);
+    expect(isTradingDay('2026-10-09')).toBe(false);
+  });
+});
+
+describe('navigation', () => {
+  it('skips weekends and holidays in both directions', () => {
+    // 10/9 國慶補假、10/10–11 週末
+    expect(nextTradingDay('2026-10-08')).toBe('2026-10-12');
+    expect(previousTradingDay('2026-10-12')).toBe('2026-10-08');
+    expect(lastTradingDayOnOrBefore('2026-10-11')).toBe('2026-10-08');
+    expect(lastTradingDayOnOrBefore('2026-10-12')).toBe('2026-10-12');
+  });
+
+  it('crosses the Lunar New Year break', () => {
+    expect(nextTradingDays('2026-02-10', 3)).toEqual(['2026-02-11', '2026-02-23', '2026-02-24']);
+  });
+
+  it('counts sessions back from a given day', () => {
+    expect(tradingDaysBack(0, '2026-10-18')).toBe('2026-10-16');
+    expect(tradingDaysBack(5, '2026-10-19')).toBe('2026-10-12');
+    expect(sessionWindowStart(6, '2026-10-19')).toBe('2026-10-12');
+  });
+});
+
+describe('coverage and month helpers', () => {
+  it('knows which years the holiday table covers', () => {
+    expect(isCalendarCovered('2026-06-01')).toBe(true);
+    expect(isCalendarCovered('2027-01-04')).toBe(false);
+  });
+
+  it('returns the first day of the month N months back', () => {
+    expect(monthsAgo(3, '2026-10-19')).toBe('2026-07-01');
+    expect(monthsAgo(12, '2026-01-31')).toBe('2025-01-01');
+  });
+});
@@ -0,0 +1,123 @@
+import { taipeiNow } from './finmindClient';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 臺灣證券交易所休市日（不含週末），依證交所每年公告的「市場開休市日期」維護。
+ * 春節前「市場無交易，僅辦理結算交割」的日子對行情而言同樣沒有交易，一併列入。
+ */
+const TWSE_HOLIDAYS = new Set<string>([
+  // 2024
+  '2024-01-01',
+  '2024-02-06', '2024-02-07', '2024-02-08', '2024-02-09', '2024-02-12', '2024-02-13', '2024-02-14',
+  '2024-02-28', '2024-04-04', '2024-04-05', '2024-05-01', '2024-06-10',
+  '2024-07-24', '2024-07-25', // 颱風停止交易
+  '2024-09-17',
+  '2024-10-02', '2024-10-03', // 颱風停止交易
+  '2024-10-10',
+  '2024-10-31', // 颱風停止交易
+  // 2025
+  '2025-01-01',
+  '2025-01-23', '2025-01-24', '2025-01-27', '2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31',
+  '2025-02-28', '2025-04-03', '2025-04-04', '2025-05-01', '2025-05-30',
+  '2025-09-29', '2025-10-06', '2025-10-10', '2025-10-24', '2025-12-25',
+  // 2026
+  '2026-01-01',
+  '2026-02-12', '2026-02-13', '2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20',
+  '2026-02-27', '2026-04-03', '2026-04-06', '2026-05-01', '2026-06-19',
+  '2026-09-25', '2026-09-28', '2026-10-09', '2026-10-26', '2026-12-25'
+]);
+
+/**
+ * 週六補行交易日。近年證交所於補行上班日皆不開盤，公告有補行交易時加入此表。
+ */
+const MAKEUP_TRADING_DAYS = new Set<string>([]);
+
+// 休市表涵蓋的年度；超出範圍時僅排除週末
+const COVERED_YEARS = { from: 2024, to: 2026 };
+
+const shift = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10);
+
+/**
+ * 台北時間的今日日期
+ */
+export const taipeiToday = () => taipeiNow().date;
+
+/**
+ * N 個月前當月 1 日（以台北今日起算），供財報類以年月計算的查詢區間使用
+ */
+export const monthsAgo = (months: number, from = taipeiToday()) => {
+  const d = new Date(`${from}T00:00:00Z`);
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() - months);
+  return d.toISOString().slice(0, 10);
+};
+
+export const isCalendarCovered = (date: string) => {
+  const year = Number(date.slice(0, 4));
+  return year >= COVERED_YEARS.from && year <= COVERED_YEARS.to;
+};
+
+// 已提示過超出休市表的年度，每個年度只提示一次
+const warnedYears = new Set<string>();
+
+export const isTradingDay = (date: string) => {
+  if (MAKEUP_TRADING_DAYS.has(date)) return true;
+  if (!isCalendarCovered(date) && !warnedYears.has(date.slice(0, 4))) {
+    warnedYears.add(date.slice(0, 4));
+    console.warn(`交易日曆未收錄 ${date.slice(0, 4)} 年休市日，該年度僅排除週末，國定假日將被視為交易日`);
+  }
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !TWSE_HOLIDAYS.has(date);
+};
+
+/**
+ * 指定日期之後（不含當日）的下一個交易日
+ */
+export const nextTradingDay = (date: string) => {
+  let d = shift(date, 1);
+  while (!isTradingDay(d)) d = shift(d, 1);
+  return d;
+};
+
+/**
+ * 指定日期之前（不含當日）的上一個交易日
+ */
+export const previousTradingDay = (date: string) => {
+  let d = shift(date, -1);
+  while (!isTradingDay(d)) d = shift(d, -1);
+  return d;
+};
+
+/**
+ * 指定日期當日（若為交易日）或之前最近的交易日
+ */
+export const lastTradingDayOnOrBefore = (date: string) => isTradingDay(date) ? date : previousTradingDay(date);
+
+/**
+ * 指定日期之後依序的 N 個交易日
+ */
+export const nextTradingDays = (date: string, count: number): string[] => {
+  const days: string[] = [];
+  let d = date;
+  while (days.length < count) {
+    d = nextTradingDay(d);
+    days.push(d);
+  }
+  return days;
+};
+
+/**
+ * 自 from（預設台北今日）往回數 N 個交易日的日期；N = 0 時為 from 當日或之前最近的交易日
+ */
+export const tradingDaysBack = (count: number, from = taipeiToday()) => {
+  let d = lastTradingDayOnOrBefore(from);
+  for (let i = 0; i < count; i++) d = previousTradingDay(d);
+  return d;
+};
+
+/**
+ * 涵蓋最近 N 個交易日的查詢起始日（含 from 當日；當日資料尚未公布時實際取回 N - 1 日）
+ */
+export const sessionWindowStart = (sessions: number, from = taipeiToday()) => tradingDaysBack(Math.max(sessions - 1, 0), from);
@@ -0,0 +1,57 @@
+import { StockInfo, Watchlist } from '../types';
+
+const WATCHLIST_KEY = 'twstock.watchlists';
+const SEARCH_HISTORY_KEY = 'twstock.searchHistory';
+
+export const DEFAULT_HOT_IDS = ['2330', '2317', '2454', '2603', '2881', '0050'];
+
+const DEFAULT_WATCHLISTS: Watchlist[] = [
+  { id: 'default', name: '市場熱門個股', stockIds: DEFAULT_HOT_IDS }
+];
+
+/**
+ * 讀取自選清單（首次使用時以熱門個股建立預設清單）
+ */
+export const getWatchlists = (): Watchlist[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WATCHLIST_KEY) || 'null');
+    return Array.isArray(stored) && stored.length > 0 ? stored : DEFAULT_WATCHLISTS;
+  } catch (e) {
+    console.error("無法讀取自選清單:", e);
+    return DEFAULT_WATCHLISTS;
+  }
+};
+
+export const saveWatchlists = (lists: Watchlist[]) => {
+  localStorage.setItem(WATCHLIST_KEY, JSON.stringify(lists));
+};
+
+export const createWatchlist = (lists: Watchlist[], name: string): Watchlist[] =>
+  [...lists, { id: `wl-${Date.now()}`, name, stockIds: [] }];
+
+export const renameWatchlist = (lists: Watchlist[], id: string, name: string): Watchlist[] =>
+  lists.map(l => l.id === id ? { ...l, name } : l);
+
+export const deleteWatchlist = (lists: Watchlist[], id: string): Watchlist[] =>
+  lists.filter(l => l.id !== id);
+
+export const addToWatchlist = (lists: Watchlist[], id: string, stockId: string): Watchlist[] =>
+  lists.map(l => l.id === id && !l.stockIds.includes(stockId) ? { ...l, stockIds: [...l.stockIds, stockId] } : l);
+
+export const removeFromWatchlist = (lists: Watchlist[], id: string, stockId: string): Watchlist[] =>
+  lists.map(l => l.id === id ? { ...l, stockIds: l.stockIds.filter(s => s !== stockId) } : l);
+
+/**
+ * 最近查詢紀錄（不保存歷史 K 線以節省空間）
+ */
+export const getSearchHistory = (): StockInfo[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SEARCH_HISTORY_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveSearchHistory = (stocks: StockInfo[]) => {
+  localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(stocks.map(s => ({ ...s, history: [], rawHistory: [], actions: [], valuation: [] }))));
+};
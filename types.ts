@@ -1,4 +1,146 @@
 
+// --- FinMind 原始資料列 ---
+export interface PriceBar {
+  date: string;
+  stock_id: string;
+  Trading_Volume: number;
+  Trading_money: number;
+  open: number;
+  max: number;
+  min: number;
+  close: number;
+  spread: number;
+  Trading_turnover: number;
+}
+
+export interface StockListRow {
+  industry_category: string;
+  stock_id: string;
+  stock_name: string;
+  type: string;
+  date: string;
+}
+
+// 股票清單中的證券類別（搜尋時可排除 ETF、權證與 ETN）
+export type SecurityKind = 'stock' | 'etf' | 'warrant' | 'etn';
+
+export interface StockCandidate {
+  id: string;
+  name: string;
+  market: string;
+  industry: string;
+  kind: SecurityKind;
+  // 0 代號完全相符、1 名稱完全相符、2 開頭相符、3 部分相符
+  rank: number;
+}
+
+// 解析使用者輸入的結果；找不到或符合多檔時 message 說明原因
+export type StockResolution = { status: 'success'; stockId: string } | { status: 'error'; message: string };
+
+export interface PERRow {
+  date: string;
+  stock_id: string;
+  dividend_yield: number;
+  PER: number;
+  PBR: number;
+}
+
+export interface InstitutionalRow {
+  date: string;
+  stock_id: string;
+  buy: number;
+  sell: number;
+  name: string;
+}
+
+export interface TotalInstitutionalRow {
+  date: string;
+  buy: number;
+  sell: number;
+  name: string;
+}
+
+// FinMind TaiwanStockMonthRevenue：date 為公布月份，revenue_year / revenue_month 為營收所屬年月
+export interface MonthRevenueRow {
+  date: string;
+  stock_id: string;
+  revenue: number;
+  revenue_year: number;
+  revenue_month: number;
+}
+
+// FinMind TaiwanStockFinancialStatements：每列為單季單一科目
+export interface FinancialStatementRow {
+  date: string;
+  stock_id: string;
+  type: string;
+  value: number;
+}
+
+export interface DividendRow {
+  date: string;
+  stock_id: string;
+  // 股利所屬期間，如「112年」或季配息的「112年第4季」
+  year: string;
+  CashEarningsDistribution: number;
+  CashStatutorySurplus?: number;
+  StockEarningsDistribution: number;
+  StockStatutorySurplus?: number;
+  CashExDividendTradingDate?: string;
+}
+
+// FinMind TaiwanStockDividendResult：除權息結果（before_price 為前一日收盤、after_price 為除權息參考價）
+export interface DividendResultRow {
+  date: string;
+  stock_id: string;
+  before_price: number;
+  after_price: number;
+  stock_and_cache_dividend: number;
+  // 「除息」、「除權」或「權息」
+  stock_or_cache_dividend: string;
+}
+
+// FinMind TaiwanStockCapitalReductionReferencePrice：減資恢復買賣參考價
+export interface CapitalReductionRow {
+  date: string;
+  stock_id: string;
+  ClosingPriceonTheLastTradingDay: number;
+  PostReductionReferencePrice: number;
+  ReasonforCapitalReduction?: string;
+}
+
+// FinMind TaiwanStockMarginPurchaseShortSale（單位：張）
+export interface MarginRow {
+  date: string;
+  stock_id: string;
+  MarginPurchaseTodayBalance: number;
+  MarginPurchaseYesterdayBalance: number;
+  MarginPurchaseLimit: number;
+  ShortSaleTodayBalance: number;
+  ShortSaleYesterdayBalance: number;
+}
+
+// FinMind TaiwanStockTradingDailyReport：單一分點在單一價位的買賣股數
+export interface BrokerTradeRow {
+  stock_id: string;
+  date: string;
+  securities_trader: string;
+  securities_trader_id: string;
+  price: number;
+  buy: number;
+  sell: number;
+}
+
+export type FinMindErrorKind = 'network' | 'http' | 'quota' | 'empty' | 'invalid_symbol' | 'bad_response';
+
+export interface FinMindError {
+  kind: FinMindErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type FinMindResult<T> = { status: 'success'; data: T } | { status: 'error'; error: FinMindError };
+
 export interface StockInfo {
   id: string;
   name: string;
@@ -8,31 +150,71 @@ export interface StockInfo {
   volume: number;
   per?: number;
   pbr?: number;
-  history: any[];
+  // 依除權息 / 減資還原的日 K（分析與報酬計算預設使用）
+  history: PriceBar[];
+  // 交易所原始成交價
+  rawHistory?: PriceBar[];
+  // history 區間內的除權息與減資事件
+  actions?: CorporateAction[];
+  // 與 history 同區間的每日本益比 / 股淨比（河流圖使用）
+  valuation?: PERRow[];
   lastUpdate: string;
   score?: number;
   trend?: 'bullish' | 'bearish' | 'neutral';
-  error?: boolean;
 }
 
-export interface InstitutionalData {
+export interface InstitutionalDay {
   date: string;
   foreign: number;
   trust: number;
   dealer: number;
   total: number;
-  status: string;
+}
+
+export interface InstitutionalData extends InstitutionalDay {
+  daily: InstitutionalDay[];
 }
 
 export interface AIAnalysis {
   summary: string;
   financial: string;
   institutional: string;
+  leverage: string;
   prediction: {
     days: { date: string; price: number; low: number; high: number }[];
   };
   score: number;
-  brokerages: { name: string; amount: number; type: '買超' | '賣超' }[];
+  // 模型輸出重試後仍未通過驗證時為 true，issues 列出被剔除或以標記取代的欄位
+  partial?: boolean;
+  issues?: string[];
+}
+
+// 報告匯出與保存時附帶的產生資訊（資料日期取自 StockInfo.lastUpdate）
+export interface ReportMeta {
+  // 供應商與模型名稱，如「Google Gemini · gemini-3-flash-preview」
+  model: string;
+  generatedAt: string;
+}
+
+// 分析當下的輸入數據摘要，與報告一併保存供日後比對
+export interface AnalysisInputSnapshot {
+  lastUpdate: string;
+  price: number;
+  change: number;
+  pct: number;
+  volume: number;
+  per?: number;
+  pbr?: number;
+  institutional: InstitutionalDay | null;
+}
+
+export interface SavedAnalysis {
+  id: string;
+  stockId: string;
+  stockName: string;
+  meta: ReportMeta;
+  input: AnalysisInputSnapshot;
+  analysis: AIAnalysis;
 }
 
 export interface MarketIndex {
@@ -41,12 +223,348 @@ export interface MarketIndex {
   pct: number;
   volume: string;
   date: string;
-  status: string;
 }
 
 export interface FundFlow {
   total: number;
   date: string;
-  status: string;
-  apiStatus: string;
+  status: 'Buy' | 'Sell';
+  // 全市場三大法人每日買賣超（單位：億元）
+  daily: InstitutionalDay[];
+}
+
+export interface IndicatorPoint {
+  date: string;
+  ma5: number | null;
+  ma20: number | null;
+  ma60: number | null;
+  k: number | null;
+  d: number | null;
+  dif: number | null;
+  macd: number | null;
+  osc: number | null;
+  rsi: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+}
+
+export interface IndicatorSnapshot extends IndicatorPoint {
+  signals: string[];
+}
+
+export interface PredictionOutcome {
+  date: string;
+  price: number;
+  low: number;
+  high: number;
+  actual?: number | null;
+}
+
+export interface PredictionRecord {
+  id: string;
+  stockId: string;
+  stockName: string;
+  createdAt: string;
+  baseDate: string;
+  baseClose: number;
+  score: number;
+  days: PredictionOutcome[];
+}
+
+export interface AccuracyStats {
+  samples: number;
+  hitRate: number | null;
+  mae: number | null;
+  directionAccuracy: number | null;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  stockIds: string[];
+}
+
+export interface PortfolioTransaction {
+  id: string;
+  stockId: string;
+  side: 'buy' | 'sell';
+  shares: number;
+  price: number;
+  date: string;
+  fee: number;
+  tax: number;
+}
+
+export interface PortfolioPosition {
+  stockId: string;
+  shares: number;
+  avgCost: number;
+  costBasis: number;
+  marketValue: number | null;
+  unrealizedPnL: number | null;
+  unrealizedPct: number | null;
+  realizedPnL: number;
+  dailyChange: number | null;
+  weight: number | null;
+}
+
+export type AlertRuleType =
+  | 'price_above'
+  | 'price_below'
+  | 'rsi_above'
+  | 'rsi_below'
+  | 'foreign_buy_streak'
+  | 'foreign_sell_streak'
+  | 'volume_spike';
+
+export interface AlertRule {
+  id: string;
+  stockId: string;
+  type: AlertRuleType;
+  threshold: number;
+  enabled: boolean;
+  createdAt: string;
+  lastTriggeredDate?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  stockId: string;
+  stockName: string;
+  message: string;
+  dataDate: string;
+  firedAt: string;
+}
+
+export interface ComparisonMetrics {
+  id: string;
+  name: string;
+  periodReturn: number;
+  relativeStrength: number;
+  per?: number;
+  pbr?: number;
+  avgVolume: number;
+  foreignNet: number;
+  trustNet: number;
+  dealerNet: number;
+}
+
+export interface ComparisonAnalysis {
+  summary: string;
+  ranking: { id: string; rank: number; reason: string }[];
+}
+
+export interface ScreenerFilters {
+  markets: string[];
+  industries: string[];
+  excludeEtf: boolean;
+  perMin?: number;
+  perMax?: number;
+  pbrMin?: number;
+  pbrMax?: number;
+  priceMin?: number;
+  priceMax?: number;
+  minVolumeLots?: number;
+  volumeSpike?: number;
+  foreignBuyStreak?: number;
+  trustBuyStreak?: number;
+  rsiMin?: number;
+  rsiMax?: number;
+  kdGoldenCross?: boolean;
+  aboveMa20?: boolean;
+}
+
+export interface ScreenerPreset {
+  id: string;
+  name: string;
+  filters: ScreenerFilters;
+}
+
+export interface ScreenerRow {
+  id: string;
+  name: string;
+  market: string;
+  industry: string;
+  close: number;
+  pct: number;
+  volume: number;
+  per: number | null;
+  pbr: number | null;
+  foreignStreak: number | null;
+  trustStreak: number | null;
+  rsi: number | null;
+  k: number | null;
+  d: number | null;
+}
+
+export interface SectorStock {
+  id: string;
+  name: string;
+  market: string;
+  close: number;
+  pct: number;
+  // 成交金額（元）
+  turnover: number;
+}
+
+export interface SectorSummary {
+  industry: string;
+  turnover: number;
+  // 以成交金額加權的平均漲跌幅
+  pct: number;
+  advancers: number;
+  decliners: number;
+  stocks: SectorStock[];
+}
+
+export interface SectorRotationRow {
+  industry: string;
+  // 依區間交易日數：產業等權平均報酬減加權指數報酬（百分點）
+  performance: Record<number, number | null>;
+  // 依區間交易日數：三大法人買賣超股數乘以最新收盤的估算金額（億元）；區間內有日期查詢失敗時為 null
+  flow: Record<number, number | null>;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export type QuoteSourceId = 'simulated' | 'none';
+
+// 盤中報價（time 為取得時間）
+export interface IntradayQuote {
+  stockId: string;
+  price: number;
+  change: number;
+  pct: number;
+  volume: number;
+  high: number;
+  low: number;
+  time: string;
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface BranchFlow {
+  id: string;
+  name: string;
+  buy: number;
+  sell: number;
+  net: number;
+  // 買進 / 賣出成交均價（無對應成交時為 null）
+  avgBuyPrice: number | null;
+  avgSellPrice: number | null;
+}
+
+export interface BranchSummary {
+  stockId: string;
+  // 實際取得分點資料的交易日（由舊到新）
+  dates: string[];
+  missingDates: string[];
+  topBuyers: BranchFlow[];
+  topSellers: BranchFlow[];
+}
+
+export interface MarginDay {
+  date: string;
+  marginBalance: number;
+  marginChange: number;
+  // 融資使用率 (%)：融資餘額 / 融資限額
+  marginUsage: number | null;
+  shortBalance: number;
+  shortChange: number;
+  // 券資比 (%)：融券餘額 / 融資餘額
+  shortMarginRatio: number | null;
+}
+
+export interface MarginData extends MarginDay {
+  daily: MarginDay[];
+}
+
+// 提供給 AI 供應商的完整分析輸入
+export interface AnalysisContext {
+  stock: StockInfo;
+  institutional: InstitutionalData | null;
+  branches: BranchSummary | null;
+  margin: MarginData | null;
+  fundamentals: FundamentalsData | null;
+}
+
+// 追問對話另附上已產生的分析報告
+export interface ChatContext extends AnalysisContext {
+  analysis: AIAnalysis;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  time: string;
+}
+
+export type InvestorKey = 'foreign' | 'trust' | 'dealer' | 'total';
+
+export interface InstitutionalFlowStat {
+  sum5: number;
+  sum20: number;
+  // 正數為連續買超天數、負數為連續賣超天數
+  streak: number;
+}
+
+export interface RevenueMonth {
+  // 營收所屬月份 YYYY-MM
+  month: string;
+  revenue: number;
+  mom: number | null;
+  yoy: number | null;
+}
+
+export interface QuarterFinancial {
+  // 季末日期，如 2024-03-31
+  date: string;
+  label: string;
+  revenue: number | null;
+  eps: number | null;
+  grossMargin: number | null;
+  operatingMargin: number | null;
+}
+
+export interface DividendYear {
+  // 股利所屬民國年度（如 "112"）
+  year: string;
+  cash: number;
+  stock: number;
+  exDate: string | null;
+}
+
+export interface FundamentalsData {
+  revenue: RevenueMonth[];
+  quarters: QuarterFinancial[];
+  dividends: DividendYear[];
+  // 個別資料集取得失敗的說明（其餘部分仍可使用）
+  errors: string[];
+}
+
+export interface ValuationRiverPoint {
+  date: string;
+  close: number;
+  // 以歷史倍數分位（最低、25%、中位數、75%、最高）推算的河流帶價位
+  bands: number[];
+}
+
+export type CorporateActionKind = 'dividend' | 'rights' | 'reduction';
+
+export interface CorporateAction {
+  date: string;
+  kind: CorporateActionKind;
+  label: string;
+  // 事件前一日收盤價與事件當日參考價
+  before: number;
+  after: number;
+  // 還原因子（after / before），事件日之前的價格乘上此值
+  factor: number;
 }
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // GEMINI_API_KEY 只由 server/index.ts 讀取，不可放進 define 以免被打包進前端
+        'process.env.FINMIND_PROXY': JSON.stringify(env.FINMIND_PROXY || ''),
+        'process.env.FINMIND_TOKEN': JSON.stringify(env.FINMIND_PROXY === 'true' ? '' : env.FINMIND_TOKEN)
       },
       resolve: {
         alias: {